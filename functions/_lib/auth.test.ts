@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { hashPassword, verifyPassword } from "./auth";
+
+const hex = (bytes: ArrayBuffer | Uint8Array) => Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+// A hash in the stored format with a chosen iteration count, e.g. one saved before the count was raised.
+async function pbkdf2Hash(password: string, iterations: number): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return `pbkdf2-sha256$${iterations}$${hex(salt)}$${hex(bits)}`;
+}
+
+const sha256 = async (password: string) => hex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password)));
+
+describe("verifyPassword", () => {
+  it("accepts the password a current hash was made from", async () => {
+    const stored = await hashPassword("hunter2");
+    expect(stored).toMatch(/^pbkdf2-sha256\$100000\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    expect(await verifyPassword("hunter2", stored)).toEqual({ ok: true, needsRehash: false });
+  });
+
+  it("rejects a wrong password", async () => {
+    const stored = await hashPassword("hunter2");
+    expect(await verifyPassword("hunter3", stored)).toEqual({ ok: false, needsRehash: false });
+  });
+
+  it("salts every hash", async () => {
+    expect(await hashPassword("hunter2")).not.toBe(await hashPassword("hunter2"));
+  });
+
+  it("asks for a rehash of hashes with fewer iterations", async () => {
+    const stored = await pbkdf2Hash("hunter2", 1000);
+    expect(await verifyPassword("hunter2", stored)).toEqual({ ok: true, needsRehash: true });
+    expect(await verifyPassword("wrong", stored)).toEqual({ ok: false, needsRehash: false });
+  });
+
+  it("accepts and upgrades legacy unsalted SHA-256 hashes", async () => {
+    const stored = await sha256("hunter2");
+    expect(await verifyPassword("hunter2", stored)).toEqual({ ok: true, needsRehash: true });
+    expect(await verifyPassword("wrong", stored)).toEqual({ ok: false, needsRehash: false });
+  });
+});
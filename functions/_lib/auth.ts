@@ -0,0 +1,116 @@
+/// <reference types="@cloudflare/workers-types" />
+
+// Shared by every function: password hashing and session tokens.
+
+// Workers cap PBKDF2 at 100k iterations.
+const PBKDF2_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map(h => parseInt(h, 16)));
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return toHex(new Uint8Array(bits));
+}
+
+// Unsalted SHA-256, how passwords were stored before PBKDF2. Only used to verify and migrate them.
+async function legacySha256(password: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return toHex(new Uint8Array(digest));
+}
+
+// Compares without bailing out at the first differing character.
+function timingSafeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Hashes a new password as `pbkdf2-sha256$<iterations>$<salt>$<hash>`, so the
+ * parameters travel with the hash and can be raised later.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return `pbkdf2-sha256$${PBKDF2_ITERATIONS}$${toHex(salt)}$${await pbkdf2(password, salt, PBKDF2_ITERATIONS)}`;
+}
+
+/**
+ * Checks a password against a stored hash of either format. `needsRehash`
+ * means it matched an outdated format and should be re-saved with
+ * hashPassword now that we know the plain password.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<{ ok: boolean; needsRehash: boolean }> {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme === 'pbkdf2-sha256' && hash) {
+    const rounds = Number(iterations);
+    const ok = timingSafeEqual(await pbkdf2(password, fromHex(salt), rounds), hash);
+    return { ok, needsRehash: ok && rounds < PBKDF2_ITERATIONS };
+  }
+  const ok = timingSafeEqual(await legacySha256(password), stored);
+  return { ok, needsRehash: ok };
+}
+
+// Sessions last 30 days unless revoked sooner (logout, password change).
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+export interface Session {
+  email: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// The part of a user record session checks rely on.
+export interface SessionUser {
+  passwordHash: string;
+  sessionsRevokedAt?: string; // sessions issued before this are no longer accepted
+}
+
+const sessionKey = (token: string) => `session:${token}`;
+
+/** Issues a random bearer token for `email`, stored in KV until it expires. */
+export async function createSession(kv: KVNamespace, email: string): Promise<{ token: string; expiresAt: string }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const token = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  const now = Date.now();
+  const session: Session = {
+    email,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_SECONDS * 1000).toISOString()
+  };
+  await kv.put(sessionKey(token), JSON.stringify(session), { expirationTtl: SESSION_TTL_SECONDS });
+  return { token, expiresAt: session.expiresAt };
+}
+
+export async function revokeSession(kv: KVNamespace, token: string) {
+  await kv.delete(sessionKey(token));
+}
+
+// Token from an `Authorization: Bearer <token>` header.
+export function bearerToken(request: Request): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('Authorization') || '');
+  return match ? match[1] : null;
+}
+
+/**
+ * The signed-in user behind a request, or null when the token is missing,
+ * expired or revoked.
+ */
+export async function authenticate<T extends SessionUser>(kv: KVNamespace, request: Request): Promise<{ email: string; user: T; token: string } | null> {
+  const token = bearerToken(request);
+  if (!token) return null;
+
+  const session = await kv.get<Session>(sessionKey(token), 'json');
+  if (!session || session.expiresAt <= new Date().toISOString()) return null;
+
+  const user = await kv.get<T>(`user:${session.email}`, 'json');
+  if (!user) return null;
+  if (user.sessionsRevokedAt && session.createdAt < user.sessionsRevokedAt) return null;
+
+  return { email: session.email, user, token };
+}
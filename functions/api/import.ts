@@ -1,5 +1,7 @@
 /// <reference types="@cloudflare/workers-types" />
 
+import { authenticate } from "../_lib/auth";
+
 interface Env {
   BUDGET_KV: KVNamespace;
 }
@@ -7,6 +9,8 @@ interface Env {
 interface SyncData {
   passwordHash: string;
   openRouterKey?: string;
+  sessionsRevokedAt?: string;
+  vault?: unknown;
 }
 
 const MAX_TEXT_CHARS = 30000;
@@ -30,13 +34,6 @@ function jsonResponse(body: unknown, status = 200) {
   });
 }
 
-async function hashPassword(pw: string): Promise<string> {
-  const msgBuffer = new TextEncoder().encode(pw);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-}
-
 function toBase64(arr: ArrayBuffer): string {
   let binary = '';
   const bytes = new Uint8Array(arr);
@@ -73,8 +70,6 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   console.log('[IMPORT] Request received');
   const form = await request.formData();
 
-  const email = form.get('email')?.toString() || '';
-  const password = form.get('password')?.toString() || '';
   const overrideKey = form.get('openRouterKey')?.toString() || '';
   const userModel = form.get('model')?.toString() || '';
   const defaultCsvModel = 'openai/gpt-4o-mini';
@@ -82,8 +77,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   const categoriesRaw = form.get('categories')?.toString() || '[]';
 
   console.log('[IMPORT] Form data:', {
-    email: email ? `${email.substring(0, 3)}***` : 'missing',
-    hasPassword: !!password,
+    hasSession: !!request.headers.get('Authorization'),
     hasOverrideKey: !!overrideKey,
     userModel: userModel || 'not set',
     categoriesCount: categoriesRaw ? JSON.parse(categoriesRaw)?.length : 0
@@ -104,25 +98,21 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return jsonResponse({ error: "No files provided" }, 400);
   }
 
+  // Statements would pass through this server and OpenRouter in the clear, defeating the vault's encryption.
+  const auth = await authenticate<SyncData>(env.BUDGET_KV, request);
+  if (auth?.user.vault) {
+    console.log('[IMPORT] ERROR: Vault is end-to-end encrypted');
+    return jsonResponse({ error: "AI import is turned off for end-to-end encrypted vaults, because statements would be read on the server. Use CSV import instead." }, 403);
+  }
+
   let openRouterKey = overrideKey;
   if (!openRouterKey) {
-    console.log('[IMPORT] No override key, checking KV for user:', email ? `${email.substring(0, 3)}***` : 'missing');
-    if (!email || !password) {
-      console.log('[IMPORT] ERROR: Missing credentials and key');
-      return jsonResponse({ error: "Missing credentials and key" }, 400);
-    }
-    const key = `user:${email}`;
-    const existing = await env.BUDGET_KV.get<SyncData>(key, "json");
-    if (!existing) {
-      console.log('[IMPORT] ERROR: User not found in KV');
-      return jsonResponse({ error: "User not found" }, 404);
-    }
-    const hashed = await hashPassword(password);
-    if (existing.passwordHash !== hashed) {
-      console.log('[IMPORT] ERROR: Invalid password');
-      return jsonResponse({ error: "Invalid password" }, 401);
+    console.log('[IMPORT] No override key, checking the signed-in profile');
+    if (!auth) {
+      console.log('[IMPORT] ERROR: Not signed in and no key');
+      return jsonResponse({ error: "Not signed in" }, 401);
     }
-    openRouterKey = existing.openRouterKey || '';
+    openRouterKey = auth.user.openRouterKey || '';
     console.log('[IMPORT] Retrieved key from KV:', openRouterKey ? 'present' : 'missing');
   } else {
     console.log('[IMPORT] Using override key');
@@ -141,12 +131,13 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     "You are a financial data extractor. Parse the provided bank statements (PDF or CSV text).",
     "If the user provides PDF files, use the PDF content to extract transactions. Do not invent transactions.",
     "Return ONLY valid JSON with this shape:",
-    `{"transactions":[{"date":"YYYY-MM-DD","description":"string","amount":123.45,"type":"income|expense|debt-payment|debt-interest|asset-deposit|asset-growth","category":"string","source":"filename"}]}`,
+    `{"transactions":[{"date":"YYYY-MM-DD","description":"string","amount":123.45,"type":"income|expense|debt-payment|debt-interest|asset-deposit|asset-growth|transfer","category":"string","source":"filename"}]}`,
     "Rules:",
     "- Use positive numbers for amount.",
     "- type income for credits/inflows, expense for debits/outflows.",
     "- debt-payment if paying credit card/loan; debt-interest for interest/fees.",
     "- asset-deposit for savings/transfer to asset; asset-growth for interest yield.",
+    "- transfer for moves between the user's own checking/savings accounts (e.g. 'Online Transfer to SAV').",
     `- Categories (choose closest): ${categories.length ? categories.join(', ') : 'Uncategorized'}.`,
     "- If unsure of category use 'Uncategorized'.",
     "- Ensure ISO date format YYYY-MM-DD.",
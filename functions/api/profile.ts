@@ -1,27 +1,39 @@
 /// <reference types="@cloudflare/workers-types" />
 
+import { authenticate, bearerToken, createSession, hashPassword, revokeSession, verifyPassword } from "../_lib/auth";
+
 interface Env {
   BUDGET_KV: KVNamespace;
 }
 
 interface SyncData {
-  passwordHash: string;
+  passwordHash: string; // see _lib/auth hashPassword; older accounts still hold unsalted SHA-256
   transactions: unknown[];
   debts?: unknown[];
   assets?: unknown[];
+  cashAccounts?: unknown[];
+  categoryRules?: unknown[];
   categoryBudgets?: Record<string, number>;
+  budgetHistory?: Record<string, Record<string, number>>;
+  envelopes?: unknown;
+  plans?: Record<string, unknown>;
+  sinkingFunds?: unknown[];
+  netWorthSnapshots?: unknown[];
   recurring?: unknown[];
+  dismissedSeries?: string[];
   lastUpdated: string;
   openRouterKey?: string;
   simplefinAccessUrl?: string;
   simplefinLastSyncEpoch?: number;
+  sessionsRevokedAt?: string;
+  vault?: VaultParams;
 }
 
-async function hashPassword(pw: string): Promise<string> {
-  const msgBuffer = new TextEncoder().encode(pw);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+// See src/utils/vault.ts; only the salt and a check value, never the key or passphrase.
+interface VaultParams {
+  salt: string;
+  iterations: number;
+  check: string;
 }
 
 async function fetchUser(env: Env, email: string): Promise<SyncData | null> {
@@ -52,56 +64,73 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
   if (!action) return response({ error: "action is required" }, 400);
 
-  if (action === 'change-password') {
+  // Exchanges email + password for a session token; `create` opens a new account if the email is free.
+  if (action === 'login') {
     const email = typeof body.email === 'string' ? body.email : '';
-    const oldPassword = typeof body.oldPassword === 'string' ? body.oldPassword : '';
-    const newPassword = typeof body.newPassword === 'string' ? body.newPassword : '';
+    const password = typeof body.password === 'string' ? body.password : '';
 
-    if (!email || !oldPassword || !newPassword) {
+    if (!email || !password) {
       return response({ error: "Missing fields" }, 400);
     }
 
     const existing = await fetchUser(env, email);
-    if (!existing) return response({ error: "User not found" }, 404);
+    if (!existing) {
+      if (body.create !== true) return response({ error: "User not found" }, 404);
+      const created: SyncData = { passwordHash: await hashPassword(password), transactions: [], lastUpdated: new Date().toISOString() };
+      await env.BUDGET_KV.put(`user:${email}`, JSON.stringify(created));
+    } else {
+      const { ok, needsRehash } = await verifyPassword(password, existing.passwordHash);
+      if (!ok) return response({ error: "Invalid password" }, 401);
+      // Upgrade older hashes now that we have the plain password.
+      if (needsRehash) {
+        const upgraded: SyncData = { ...existing, passwordHash: await hashPassword(password) };
+        await env.BUDGET_KV.put(`user:${email}`, JSON.stringify(upgraded));
+      }
+    }
+
+    const session = await createSession(env.BUDGET_KV, email);
+    return response({ success: true, email, ...session });
+  }
+
+  if (action === 'logout') {
+    const token = bearerToken(request);
+    if (token) await revokeSession(env.BUDGET_KV, token);
+    return response({ success: true });
+  }
+
+  const auth = await authenticate<SyncData>(env.BUDGET_KV, request);
+  if (!auth) return response({ error: "Not signed in" }, 401);
+  const { email, user: existing } = auth;
+
+  // Revokes every other session and hands back a fresh one for this device.
+  if (action === 'change-password') {
+    const oldPassword = typeof body.oldPassword === 'string' ? body.oldPassword : '';
+    const newPassword = typeof body.newPassword === 'string' ? body.newPassword : '';
 
-    const oldHash = await hashPassword(oldPassword);
-    if (existing.passwordHash !== oldHash) {
+    if (!oldPassword || !newPassword) {
+      return response({ error: "Missing fields" }, 400);
+    }
+
+    const { ok } = await verifyPassword(oldPassword, existing.passwordHash);
+    if (!ok) {
       return response({ error: "Invalid password" }, 401);
     }
 
     const newHash = await hashPassword(newPassword);
-    const updated: SyncData = { ...existing, passwordHash: newHash };
+    const updated: SyncData = { ...existing, passwordHash: newHash, sessionsRevokedAt: new Date().toISOString() };
     await env.BUDGET_KV.put(`user:${email}`, JSON.stringify(updated));
-    return response({ success: true });
+    const session = await createSession(env.BUDGET_KV, email);
+    return response({ success: true, ...session });
   }
 
   if (action === 'save-openrouter-key') {
-    const email = typeof body.email === 'string' ? body.email : '';
-    const password = typeof body.password === 'string' ? body.password : '';
     const openRouterKey = typeof body.openRouterKey === 'string' ? body.openRouterKey : '';
 
-    if (!email || !password || !openRouterKey) {
+    if (!openRouterKey) {
       return response({ error: "Missing fields" }, 400);
     }
 
-    const existing = await fetchUser(env, email);
-    const passwordHash = await hashPassword(password);
-
-    if (existing && existing.passwordHash !== passwordHash) {
-      return response({ error: "Invalid password" }, 401);
-    }
-
-    const updated: SyncData = existing ? { ...existing, openRouterKey } : {
-      passwordHash,
-      transactions: [],
-      debts: [],
-      assets: [],
-      categoryBudgets: {},
-      recurring: [],
-      openRouterKey,
-      lastUpdated: new Date().toISOString()
-    };
-
+    const updated: SyncData = { ...existing, openRouterKey };
     await env.BUDGET_KV.put(`user:${email}`, JSON.stringify(updated));
     return response({ success: true });
   }
@@ -111,22 +140,16 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { request, env } = context;
-  const url = new URL(request.url);
-  const email = url.searchParams.get("email") || '';
-  const password = url.searchParams.get("password") || '';
-
-  if (!email || !password) return response({ error: "Missing credentials" }, 400);
-
-  const existing = await fetchUser(env, email);
-  if (!existing) return response({ error: "User not found" }, 404);
 
-  const passwordHash = await hashPassword(password);
-  if (existing.passwordHash !== passwordHash) return response({ error: "Invalid password" }, 401);
+  const auth = await authenticate<SyncData>(env.BUDGET_KV, request);
+  if (!auth) return response({ error: "Not signed in" }, 401);
+  const existing = auth.user;
 
   return response({
     hasOpenRouterKey: Boolean(existing.openRouterKey),
     hasSimplefin: Boolean(existing.simplefinAccessUrl),
     simplefinLastSyncEpoch: typeof existing.simplefinLastSyncEpoch === 'number' ? existing.simplefinLastSyncEpoch : null,
+    vault: existing.vault ?? null,
     lastUpdated: existing.lastUpdated
   });
 };
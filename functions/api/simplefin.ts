@@ -1,5 +1,7 @@
 /// <reference types="@cloudflare/workers-types" />
 
+import { authenticate } from "../_lib/auth";
+
 interface Env {
   BUDGET_KV: KVNamespace;
 }
@@ -9,12 +11,22 @@ interface SyncData {
   transactions: unknown[];
   debts?: unknown[];
   assets?: unknown[];
+  cashAccounts?: unknown[];
+  categoryRules?: unknown[];
   categoryBudgets?: Record<string, number>;
+  budgetHistory?: Record<string, Record<string, number>>;
+  envelopes?: unknown;
+  plans?: Record<string, unknown>;
+  sinkingFunds?: unknown[];
+  netWorthSnapshots?: unknown[];
   recurring?: unknown[];
+  dismissedSeries?: string[];
   lastUpdated: string;
   openRouterKey?: string;
   simplefinAccessUrl?: string;
   simplefinLastSyncEpoch?: number;
+  sessionsRevokedAt?: string;
+  vault?: unknown;
 }
 
 type Action =
@@ -54,23 +66,6 @@ function json(body: unknown, status = 200) {
   });
 }
 
-async function hashPassword(pw: string): Promise<string> {
-  const msgBuffer = new TextEncoder().encode(pw);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-}
-
-async function requireUser(env: Env, email: string, password: string): Promise<SyncData> {
-  if (!email || !password) throw new Error('Missing credentials');
-  const key = `user:${email}`;
-  const existing = await env.BUDGET_KV.get<SyncData>(key, 'json');
-  if (!existing) throw new Error('User not found');
-  const inputHash = await hashPassword(password);
-  if (existing.passwordHash !== inputHash) throw new Error('Invalid password');
-  return existing;
-}
-
 function tryDecodeBase64ToString(input: string): string | null {
   try {
     // atob is available in Workers runtime
@@ -133,12 +128,12 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     const { request, env } = context;
     const url = new URL(request.url);
     const action = (url.searchParams.get('action') || 'status') as Action;
-    const email = url.searchParams.get('email') || '';
-    const password = url.searchParams.get('password') || '';
 
     if (action !== 'status') return json({ error: 'Unsupported action' }, 400);
 
-    const user = await requireUser(env, email, password);
+    const auth = await authenticate<SyncData>(env.BUDGET_KV, request);
+    if (!auth) return json({ error: 'Not signed in' }, 401);
+    const user = auth.user;
     return json({
       hasSimplefin: Boolean(user.simplefinAccessUrl),
       simplefinLastSyncEpoch: typeof user.simplefinLastSyncEpoch === 'number' ? user.simplefinLastSyncEpoch : null,
@@ -166,9 +161,14 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     const action = (typeof body.action === 'string' ? body.action : actionFromQuery) as Action;
     if (!action) return json({ error: 'action is required' }, 400);
 
-    const email = typeof body.email === 'string' ? body.email : '';
-    const password = typeof body.password === 'string' ? body.password : '';
-    const existing = await requireUser(env, email, password);
+    const auth = await authenticate<SyncData>(env.BUDGET_KV, request);
+    if (!auth) return json({ error: 'Not signed in' }, 401);
+    const { email, user: existing } = auth;
+
+    // SimpleFIN is fetched and parsed here on the server, so it can't see only ciphertext.
+    if (existing.vault && (action === 'claim' || action === 'sync')) {
+      return json({ error: 'SimpleFIN is turned off for end-to-end encrypted vaults, because bank data would be read on the server.' }, 403);
+    }
 
     if (action === 'disconnect') {
       const updated: SyncData = { ...existing, simplefinAccessUrl: undefined, simplefinLastSyncEpoch: undefined, lastUpdated: new Date().toISOString() };
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { mergeChanges, partitionChanges } from "./sync";
+
+type SyncData = Parameters<typeof mergeChanges>[0];
+
+const account = (overrides: Partial<SyncData> = {}): SyncData => ({
+    passwordHash: "x",
+    transactions: [{ id: "a", amount: 1 }, { id: "b", amount: 1 }],
+    lastUpdated: "2025-01-01T00:00:00.000Z",
+    ...overrides
+});
+
+describe("mergeChanges", () => {
+    it("applies changes based on the stored version and bumps the revision", () => {
+        const data = account();
+        const result = mergeChanges(data, [
+            { collection: "transactions", id: "a", baseVersion: 1, record: { id: "a", amount: 2 } },
+            { collection: "transactions", id: "c", baseVersion: 0, record: { id: "c", amount: 3 } }
+        ]);
+
+        expect(result.changed).toBe(true);
+        expect(result.conflicts).toEqual([]);
+        expect(result.applied).toEqual([
+            { collection: "transactions", id: "a", version: 2 },
+            { collection: "transactions", id: "c", version: 1 }
+        ]);
+        expect(data.transactions).toEqual([{ id: "a", amount: 2 }, { id: "b", amount: 1 }, { id: "c", amount: 3 }]);
+        expect(data.revision).toBe(1);
+        expect(data.recordMeta?.transactions.a).toMatchObject({ version: 2, revision: 1 });
+    });
+
+    it("returns the server's copy when the base version is stale", () => {
+        const data = account({ revision: 4 });
+        mergeChanges(data, [{ collection: "transactions", id: "a", baseVersion: 1, record: { id: "a", amount: 2 } }]);
+        const result = mergeChanges(data, [{ collection: "transactions", id: "a", baseVersion: 1, record: { id: "a", amount: 7 } }]);
+
+        expect(result.changed).toBe(false);
+        expect(result.applied).toEqual([]);
+        expect(result.conflicts).toMatchObject([
+            { collection: "transactions", id: "a", version: 2, record: { id: "a", amount: 2 }, deleted: false }
+        ]);
+        expect(data.transactions[0]).toEqual({ id: "a", amount: 2 });
+        expect(data.revision).toBe(5);
+    });
+
+    it("accepts a stale change that matches what is already stored", () => {
+        const data = account();
+        mergeChanges(data, [{ collection: "transactions", id: "a", baseVersion: 1, record: { id: "a", amount: 2 } }]);
+        const result = mergeChanges(data, [{ collection: "transactions", id: "a", baseVersion: 1, record: { amount: 2, id: "a" } }]);
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.applied).toEqual([{ collection: "transactions", id: "a", version: 2 }]);
+    });
+
+    it("leaves a tombstone for deleted records", () => {
+        const data = account();
+        const result = mergeChanges(data, [{ collection: "transactions", id: "b", baseVersion: 1, deleted: true }]);
+
+        expect(result.applied).toEqual([{ collection: "transactions", id: "b", version: 2 }]);
+        expect(data.transactions).toEqual([{ id: "a", amount: 1 }]);
+        expect(data.recordMeta?.transactions.b).toMatchObject({ version: 2, deleted: true });
+    });
+
+    it("reports a record deleted elsewhere as a conflict without a record", () => {
+        const data = account();
+        mergeChanges(data, [{ collection: "transactions", id: "b", baseVersion: 1, deleted: true }]);
+        const result = mergeChanges(data, [{ collection: "transactions", id: "b", baseVersion: 1, record: { id: "b", amount: 5 } }]);
+
+        expect(result.conflicts).toMatchObject([{ collection: "transactions", id: "b", version: 2, deleted: true }]);
+        expect(result.conflicts[0].record).toBeUndefined();
+    });
+
+    it("writes settings under their own key", () => {
+        const data = account();
+        const result = mergeChanges(data, [{ collection: "settings", id: "categoryBudgets", baseVersion: 0, record: { Food: 300 } }]);
+
+        expect(result.applied).toEqual([{ collection: "settings", id: "categoryBudgets", version: 1 }]);
+        expect(data.categoryBudgets).toEqual({ Food: 300 });
+    });
+});
+
+describe("partitionChanges", () => {
+    it("reports invalid changes instead of dropping them", () => {
+        const valid = { collection: "transactions", id: "a", baseVersion: 1, record: { id: "a", amount: 2 } };
+        const result = partitionChanges([
+            valid,
+            { collection: "transactions", id: "b", baseVersion: 1, record: { id: "c" } },
+            { collection: "nope", id: "d", baseVersion: 0, deleted: true },
+            null
+        ]);
+
+        expect(result.changes).toEqual([valid]);
+        expect(result.rejected).toEqual([
+            { collection: "transactions", id: "b" },
+            { collection: "nope", id: "d" },
+            { collection: "undefined", id: "undefined" }
+        ]);
+    });
+});
@@ -1,5 +1,7 @@
 /// <reference types="@cloudflare/workers-types" />
 
+import { authenticate } from "../_lib/auth";
+
 interface Env {
     BUDGET_KV: KVNamespace;
 }
@@ -9,37 +11,281 @@ interface SyncData {
     transactions: unknown[];
     debts?: unknown[];
     assets?: unknown[]; // Added assets
+    cashAccounts?: unknown[];
+    categoryRules?: unknown[];
     categoryBudgets?: Record<string, number>;
+    budgetHistory?: Record<string, Record<string, number>>;
+    envelopes?: unknown;
+    plans?: Record<string, unknown>;
+    sinkingFunds?: unknown[];
+    netWorthSnapshots?: unknown[];
     recurring?: unknown[];
+    dismissedSeries?: string[];
     lastUpdated: string;
     openRouterKey?: string;
     simplefinAccessUrl?: string;
     simplefinLastSyncEpoch?: number;
+    sessionsRevokedAt?: string;
+    revision?: number; // bumped on every write that changes a record
+    recordMeta?: Record<string, Record<string, RecordMeta>>; // collection -> id -> meta
+    vault?: VaultParams; // set once the account turns on end-to-end encryption
+}
+
+// Key-derivation parameters for an encrypted vault; the key itself never reaches the server.
+interface VaultParams {
+    salt: string;
+    iterations: number;
+    check: string;
+}
+
+interface RecordMeta {
+    version: number;
+    revision: number; // account revision of the last change
+    updatedAt: string;
+    deleted?: boolean; // tombstone, so other devices learn about the delete
+}
+
+interface RecordChange {
+    collection: string;
+    id: string;
+    baseVersion: number;
+    record?: unknown;
+    deleted?: boolean;
 }
 
 interface SyncRequestBody {
-    email?: unknown;
-    password?: unknown;
     transactions?: unknown;
     debts?: unknown;
     assets?: unknown;
+    cashAccounts?: unknown;
+    categoryRules?: unknown;
+    dismissedSeries?: unknown;
     categoryBudgets?: unknown;
+    budgetHistory?: unknown;
+    envelopes?: unknown;
+    plans?: unknown;
+    sinkingFunds?: unknown;
+    netWorthSnapshots?: unknown;
     recurring?: unknown;
+    changes?: unknown;
+    vault?: unknown; // with `changes`: turn on encryption, sealing every record at once
+}
+
+// Lists synced record-by-record (keyed by `id`), and settings synced whole under the "settings" collection.
+const RECORD_COLLECTIONS = ['transactions', 'debts', 'assets', 'cashAccounts', 'recurring', 'sinkingFunds', 'netWorthSnapshots'] as const;
+const SETTINGS_KEYS = ['categoryBudgets', 'budgetHistory', 'envelopes', 'plans', 'categoryRules', 'dismissedSeries'] as const;
+const COLLECTIONS = ['settings', ...RECORD_COLLECTIONS];
+
+type RecordCollection = typeof RECORD_COLLECTIONS[number];
+
+// JSON with sorted keys, for comparing records regardless of field order.
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(v => (v === undefined ? 'null' : stableStringify(v))).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const obj = value as Record<string, unknown>;
+        return `{${Object.keys(obj)
+            .filter(k => obj[k] !== undefined)
+            .sort()
+            .map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+const sameRecord = (a: unknown, b: unknown) => (a === undefined || b === undefined) ? a === b : stableStringify(a) === stableStringify(b);
+
+function recordsOf(data: SyncData, collection: string): Map<string, unknown> {
+    if (collection === 'settings') {
+        return new Map(SETTINGS_KEYS.filter(k => data[k] !== undefined).map(k => [k, data[k] as unknown]));
+    }
+    const list = (data[collection as RecordCollection] || []) as Array<{ id?: unknown }>;
+    return new Map(list.filter(r => r && typeof r.id === 'string').map(r => [r.id as string, r as unknown]));
+}
+
+function writeRecord(data: SyncData, collection: string, id: string, record: unknown) {
+    if (collection === 'settings') {
+        (data as unknown as Record<string, unknown>)[id] = record;
+        return;
+    }
+    const list = [...((data[collection as RecordCollection] || []) as Array<{ id?: unknown }>)];
+    const index = list.findIndex(r => r?.id === id);
+    if (record === undefined) {
+        if (index >= 0) list.splice(index, 1);
+    } else if (index >= 0) {
+        list[index] = record as { id?: unknown };
+    } else {
+        list.push(record as { id?: unknown });
+    }
+    (data as unknown as Record<string, unknown>)[collection] = list;
+}
+
+// Data written before record-level sync has no versions; treat every stored record as version 1.
+function ensureMeta(data: SyncData): Record<string, Record<string, RecordMeta>> {
+    const meta = data.recordMeta || {};
+    for (const collection of COLLECTIONS) {
+        const entries = meta[collection] || {};
+        for (const id of recordsOf(data, collection).keys()) {
+            if (!entries[id]) entries[id] = { version: 1, revision: 0, updatedAt: data.lastUpdated };
+        }
+        meta[collection] = entries;
+    }
+    data.recordMeta = meta;
+    return meta;
 }
 
-async function hashPassword(pw: string): Promise<string> {
-    const msgBuffer = new TextEncoder().encode(pw);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+// A change either deletes its record or carries a replacement object; anything else would silently erase it.
+function isValidChange(value: unknown): value is RecordChange {
+    const c = value as RecordChange;
+    if (!isObject(c) || typeof c.id !== 'string' || typeof c.baseVersion !== 'number') return false;
+    if (c.collection === 'settings') {
+        return (SETTINGS_KEYS as readonly string[]).includes(c.id) && (c.deleted === true || isObject(c.record));
+    }
+    if (!(RECORD_COLLECTIONS as readonly string[]).includes(c.collection)) return false;
+    return c.deleted === true || (isObject(c.record) && c.record.id === c.id);
 }
 
+/**
+ * Splits incoming changes into the ones to merge and the ones to report back as
+ * rejected, so the device keeps the latter pending instead of assuming they were saved.
+ */
+export function partitionChanges(values: unknown[]) {
+    const changes: RecordChange[] = [];
+    const rejected: Array<{ collection: string; id: string }> = [];
+    for (const value of values) {
+        if (isValidChange(value)) {
+            changes.push(value);
+        } else {
+            const c = isObject(value) ? value : {};
+            rejected.push({ collection: String(c.collection), id: String(c.id) });
+        }
+    }
+    return { changes, rejected };
+}
+
+// An encrypted record carries only its ciphertext (and its id, for list collections).
+function isSealedRecord(record: unknown): boolean {
+    if (!isObject(record)) return false;
+    const fields = Object.keys(record).filter(k => k !== 'id');
+    return typeof record.enc === 'string' && fields.length === 1;
+}
+
+const isSealedChange = (c: RecordChange) => c.deleted === true || isSealedRecord(c.record);
+
+function isVaultParams(value: unknown): value is VaultParams {
+    const v = value as VaultParams;
+    return isObject(v) && typeof v.salt === 'string' && typeof v.check === 'string'
+        && Number.isInteger(v.iterations) && v.iterations > 0;
+}
+
+const VAULT_ENCRYPTED_ERROR = "This vault is end-to-end encrypted. Unlock it in the app to read or change its data.";
+
+/**
+ * Applies each change whose base version still matches the stored record.
+ * The rest come back as conflicts carrying the server's copy, unless both
+ * sides already agree.
+ */
+export function mergeChanges(data: SyncData, changes: RecordChange[]) {
+    const meta = ensureMeta(data);
+    const revision = (data.revision || 0) + 1;
+    const now = new Date().toISOString();
+    const applied: Array<{ collection: string; id: string; version: number }> = [];
+    const conflicts: Array<{ collection: string; id: string; version: number; updatedAt?: string; record?: unknown; deleted?: boolean }> = [];
+    let changed = false;
+
+    for (const change of changes) {
+        const current = recordsOf(data, change.collection).get(change.id);
+        const entry = meta[change.collection][change.id];
+        const version = entry?.version || 0;
+        const incoming = change.deleted ? undefined : change.record;
+
+        if (version !== change.baseVersion) {
+            if (sameRecord(current, incoming)) {
+                applied.push({ collection: change.collection, id: change.id, version });
+            } else {
+                conflicts.push({ collection: change.collection, id: change.id, version, updatedAt: entry?.updatedAt, record: current, deleted: current === undefined });
+            }
+            continue;
+        }
+
+        writeRecord(data, change.collection, change.id, incoming);
+        meta[change.collection][change.id] = { version: version + 1, revision, updatedAt: now, deleted: incoming === undefined || undefined };
+        applied.push({ collection: change.collection, id: change.id, version: version + 1 });
+        changed = true;
+    }
+
+    if (changed) {
+        data.revision = revision;
+        data.lastUpdated = now;
+    }
+    return { changed, applied, conflicts };
+}
+
+/**
+ * Whether `changes` replace every live record, each at its current version,
+ * so turning on encryption leaves no plaintext behind.
+ */
+function sealsEveryRecord(data: SyncData, changes: RecordChange[]): boolean {
+    const meta = ensureMeta(data);
+    const sealed = new Map(changes.map(c => [`${c.collection}:${c.id}`, c]));
+    if (sealed.size !== changes.length || changes.some(c => c.deleted)) return false;
+    let live = 0;
+    for (const collection of COLLECTIONS) {
+        for (const [id, entry] of Object.entries(meta[collection])) {
+            if (entry.deleted) continue;
+            if (sealed.get(`${collection}:${id}`)?.baseVersion !== entry.version) return false;
+            live++;
+        }
+    }
+    return live === changes.length;
+}
+
+// Bumps versions for records a whole-dataset POST replaced or removed.
+function recordFullReplace(existing: SyncData, data: SyncData) {
+    const before = ensureMeta(existing);
+    const revision = (existing.revision || 0) + 1;
+    const meta: Record<string, Record<string, RecordMeta>> = {};
+    let changed = false;
+
+    for (const collection of COLLECTIONS) {
+        const entries = { ...before[collection] };
+        const old = recordsOf(existing, collection);
+        const next = recordsOf(data, collection);
+        for (const [id, record] of next) {
+            if (sameRecord(old.get(id), record)) continue;
+            entries[id] = { version: (entries[id]?.version || 0) + 1, revision, updatedAt: data.lastUpdated };
+            changed = true;
+        }
+        for (const id of old.keys()) {
+            if (next.has(id)) continue;
+            entries[id] = { version: (entries[id]?.version || 0) + 1, revision, updatedAt: data.lastUpdated, deleted: true };
+            changed = true;
+        }
+        meta[collection] = entries;
+    }
+
+    data.recordMeta = meta;
+    data.revision = changed ? revision : existing.revision || 0;
+}
+
+// Revision the client last pulled, from `If-Match: "12"`; null when absent.
+function ifMatchRevision(request: Request): number | null {
+    const header = request.headers.get("If-Match");
+    if (!header) return null;
+    const revision = Number(header.replace(/^W\//, '').replace(/"/g, '').trim());
+    return Number.isInteger(revision) ? revision : null;
+}
+
+const revisionHeaders = (revision: number) => ({
+    "Content-Type": "application/json",
+    "ETag": `"${revision}"`
+});
+
 export const onRequestPost: PagesFunction<Env> = async (context) => {
     try {
         const { request, env } = context;
         const body = await request.json() as SyncRequestBody;
-        const email = typeof body.email === 'string' ? body.email : '';
-        const password = typeof body.password === 'string' ? body.password : '';
         const transactions = Array.isArray(body.transactions) ? body.transactions : [];
         const debts = Array.isArray(body.debts) ? body.debts : [];
         const assets = Array.isArray(body.assets) ? body.assets : [];
@@ -48,37 +294,134 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
             ? (body.categoryBudgets as Record<string, number>)
             : {};
 
-        if (!email || !password) {
-            return new Response("Missing fields", { status: 400 });
+        const auth = await authenticate<SyncData>(env.BUDGET_KV, request);
+        if (!auth) {
+            return new Response("Not signed in", { status: 401 });
         }
+        const key = `user:${auth.email}`;
+        const existing = auth.user;
 
-        const key = `user:${email}`;
-        const newHash = await hashPassword(password);
+        const current = existing.revision || 0;
+
+        // One-way: the records are swapped for ciphertext in the same write that sets `vault`,
+        // so the server never holds a half-encrypted vault.
+        if (body.vault !== undefined) {
+            if (!isVaultParams(body.vault) || !Array.isArray(body.changes)) {
+                return new Response(JSON.stringify({ error: "Missing fields" }), { status: 400 });
+            }
+            if (existing.vault) {
+                return new Response(JSON.stringify({ error: "This vault is already encrypted", revision: current }), {
+                    status: 409,
+                    headers: revisionHeaders(current)
+                });
+            }
+            const changes = body.changes.filter(isValidChange);
+            if (changes.length !== body.changes.length || !changes.every(isSealedChange)) {
+                return new Response(JSON.stringify({ error: "Every record must be encrypted" }), { status: 400 });
+            }
+            if (!sealsEveryRecord(existing, changes)) {
+                return new Response(JSON.stringify({ error: "The vault changed while it was being encrypted", revision: current }), {
+                    status: 409,
+                    headers: revisionHeaders(current)
+                });
+            }
+            const result = mergeChanges(existing, changes);
+            // The server-held SimpleFIN access URL would keep reading bank data in the clear.
+            const data: SyncData = { ...existing, vault: body.vault, simplefinAccessUrl: undefined, simplefinLastSyncEpoch: undefined };
+            await env.BUDGET_KV.put(key, JSON.stringify(data));
+            return new Response(JSON.stringify({ success: true, revision: data.revision || 0, applied: result.applied }), {
+                headers: revisionHeaders(data.revision || 0)
+            });
+        }
 
-        const existing = await env.BUDGET_KV.get<SyncData>(key, "json");
-        if (existing) {
-            if (existing.passwordHash !== newHash) {
-                return new Response("Invalid Password for this Email or User Exists", { status: 401 });
+        // Record-level sync: only the records a device changed, each checked against its base version,
+        // so writes from other devices to unrelated records don't get in the way.
+        if (Array.isArray(body.changes)) {
+            const data = existing;
+            const { changes, rejected } = partitionChanges(body.changes);
+            // Never store plaintext in an encrypted vault, e.g. from a device that hasn't unlocked it.
+            if (data.vault && !changes.every(isSealedChange)) {
+                return new Response(JSON.stringify({ error: VAULT_ENCRYPTED_ERROR, revision: current }), {
+                    status: 403,
+                    headers: revisionHeaders(current)
+                });
             }
+            const result = mergeChanges(data, changes);
+            if (result.changed) {
+                await env.BUDGET_KV.put(key, JSON.stringify(data));
+            }
+            return new Response(JSON.stringify({
+                success: true,
+                revision: data.revision || 0,
+                applied: result.applied,
+                conflicts: result.conflicts,
+                rejected
+            }), {
+                headers: revisionHeaders(data.revision || 0)
+            });
+        }
+
+        // Whole-dataset writes come from older clients and scripts/bulk-import.mjs, which only speak plaintext.
+        if (existing.vault) {
+            return new Response(JSON.stringify({ error: VAULT_ENCRYPTED_ERROR, revision: current }), {
+                status: 403,
+                headers: revisionHeaders(current)
+            });
         }
 
+        // A whole-dataset write replaces everything, so it must be based on the current revision
+        // or it would drop another device's changes.
+        const expected = ifMatchRevision(request);
+        if (expected === null) {
+            return new Response(JSON.stringify({ error: "Missing If-Match revision", revision: current }), {
+                status: 428,
+                headers: revisionHeaders(current)
+            });
+        }
+        if (expected !== current) {
+            return new Response(JSON.stringify({ error: "The vault changed since your last load", revision: current }), {
+                status: 409,
+                headers: revisionHeaders(current)
+            });
+        }
+
+        // Older clients (and scripts/bulk-import.mjs) don't send these; keep what's stored.
+        const cashAccounts = Array.isArray(body.cashAccounts) ? body.cashAccounts : (existing.cashAccounts || []);
+        const categoryRules = Array.isArray(body.categoryRules) ? body.categoryRules : existing.categoryRules;
+        const budgetHistory = (body.budgetHistory && typeof body.budgetHistory === 'object' && !Array.isArray(body.budgetHistory))
+            ? (body.budgetHistory as Record<string, Record<string, number>>)
+            : existing.budgetHistory;
+        const envelopes = (body.envelopes && typeof body.envelopes === 'object') ? body.envelopes : existing.envelopes;
+        const plans = (body.plans && typeof body.plans === 'object' && !Array.isArray(body.plans))
+            ? (body.plans as Record<string, unknown>)
+            : existing.plans;
+        const sinkingFunds = Array.isArray(body.sinkingFunds) ? body.sinkingFunds : existing.sinkingFunds;
+        const netWorthSnapshots = Array.isArray(body.netWorthSnapshots) ? body.netWorthSnapshots : existing.netWorthSnapshots;
+        const dismissedSeries = Array.isArray(body.dismissedSeries) ? (body.dismissedSeries as string[]) : existing.dismissedSeries;
+
         const data: SyncData = {
-            passwordHash: newHash,
+            ...existing,
             transactions,
             debts,
             assets,
+            cashAccounts,
             categoryBudgets,
+            budgetHistory,
+            envelopes,
+            plans,
+            sinkingFunds,
+            netWorthSnapshots,
             recurring,
-            lastUpdated: new Date().toISOString(),
-            openRouterKey: existing?.openRouterKey,
-            simplefinAccessUrl: existing?.simplefinAccessUrl,
-            simplefinLastSyncEpoch: existing?.simplefinLastSyncEpoch
+            categoryRules,
+            dismissedSeries,
+            lastUpdated: new Date().toISOString()
         };
+        recordFullReplace(existing, data);
 
         await env.BUDGET_KV.put(key, JSON.stringify(data));
 
-        return new Response(JSON.stringify({ success: true, message: "Saved!" }), {
-            headers: { "Content-Type": "application/json" }
+        return new Response(JSON.stringify({ success: true, message: "Saved!", revision: data.revision }), {
+            headers: revisionHeaders(data.revision || 0)
         });
     } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
@@ -90,34 +433,65 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     try {
         const { request, env } = context;
         const url = new URL(request.url);
-        const email = url.searchParams.get("email");
-        const password = url.searchParams.get("password");
 
-        if (!email || !password) {
-            return new Response("Missing credentials", { status: 400 });
+        const auth = await authenticate<SyncData>(env.BUDGET_KV, request);
+        if (!auth) {
+            return new Response("Not signed in", { status: 401 });
         }
+        const existing = auth.user;
 
-        const key = `user:${email}`;
-        const existing = await env.BUDGET_KV.get<SyncData>(key, "json");
-
-        if (!existing) {
-            return new Response("User not found", { status: 404 });
+        // Records changed after revision `since` (0 = everything), with tombstones for deletes.
+        const sinceParam = url.searchParams.get("since");
+        if (sinceParam !== null) {
+            const since = Number(sinceParam) || 0;
+            const meta = ensureMeta(existing);
+            const records = [];
+            for (const collection of COLLECTIONS) {
+                const current = recordsOf(existing, collection);
+                for (const [id, entry] of Object.entries(meta[collection])) {
+                    if (since > 0 ? entry.revision <= since : entry.deleted) continue;
+                    // An encrypted vault only ever hands out ciphertext.
+                    if (existing.vault && !entry.deleted && !isSealedRecord(current.get(id))) continue;
+                    records.push(entry.deleted
+                        ? { collection, id, version: entry.version, updatedAt: entry.updatedAt, deleted: true }
+                        : { collection, id, version: entry.version, updatedAt: entry.updatedAt, record: current.get(id) });
+                }
+            }
+            return new Response(JSON.stringify({
+                revision: existing.revision || 0,
+                records,
+                encrypted: Boolean(existing.vault),
+                lastUpdated: existing.lastUpdated
+            }), {
+                headers: revisionHeaders(existing.revision || 0)
+            });
         }
 
-        const inputHash = await hashPassword(password);
-        if (existing.passwordHash !== inputHash) {
-            return new Response("Invalid Password", { status: 401 });
+        if (existing.vault) {
+            return new Response(JSON.stringify({ error: VAULT_ENCRYPTED_ERROR }), {
+                status: 403,
+                headers: revisionHeaders(existing.revision || 0)
+            });
         }
 
         return new Response(JSON.stringify({
             transactions: existing.transactions,
             debts: existing.debts || [],
             assets: existing.assets || [], // Return assets
+            cashAccounts: existing.cashAccounts || [],
             categoryBudgets: existing.categoryBudgets || {},
+            budgetHistory: existing.budgetHistory || {},
+            envelopes: existing.envelopes,
+            plans: existing.plans || {},
+            sinkingFunds: existing.sinkingFunds || [],
+            netWorthSnapshots: existing.netWorthSnapshots || [],
             recurring: existing.recurring || [],
-            lastUpdated: existing.lastUpdated
+            categoryRules: existing.categoryRules,
+            dismissedSeries: existing.dismissedSeries || [],
+            lastUpdated: existing.lastUpdated,
+            revision: existing.revision || 0
         }), {
-            headers: { "Content-Type": "application/json" }
+            headers: revisionHeaders(existing.revision || 0)
         });
 
     } catch (e) {
@@ -139,8 +139,18 @@ async function main() {
   console.log(`Found ${pdfFiles.length} PDFs in ${dirRel}`);
 
   // Load existing cloud state.
-  const syncGetUrl = `${baseUrl}/api/sync?email=${encodeURIComponent(email)}&password=${encodeURIComponent(password)}`;
-  const existing = await fetchJson(syncGetUrl);
+  // Log in once; every later call carries the session token instead of the password.
+  const session = await fetchJson(`${baseUrl}/api/profile?action=login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+  const authHeaders = { Authorization: `Bearer ${session.token}` };
+
+  const syncGetUrl = `${baseUrl}/api/sync`;
+  const existing = await fetchJson(syncGetUrl, { headers: authHeaders });
+  // Every write must name the revision it builds on; the server rejects it (409) if another device saved since.
+  let revision = Number(existing.revision) || 0;
 
   const existingTx = Array.isArray(existing.transactions) ? existing.transactions : [];
   const debts = Array.isArray(existing.debts) ? existing.debts : [];
@@ -167,8 +177,6 @@ async function main() {
     console.log(`\nBatch ${bi + 1}/${batches.length}: ${batch.map(p => path.basename(p)).join(', ')}`);
 
     const form = new FormData();
-    form.append('email', email);
-    form.append('password', password);
     form.append('categories', JSON.stringify([]));
     if (model) form.append('model', model);
 
@@ -179,7 +187,7 @@ async function main() {
     }
 
     const importUrl = `${baseUrl}/api/import`;
-    const result = await fetchJson(importUrl, { method: 'POST', body: form });
+    const result = await fetchJson(importUrl, { method: 'POST', headers: authHeaders, body: form });
 
     // perFile is returned by our worker; use it to spot failures quickly.
     if (Array.isArray(result.perFile)) {
@@ -231,12 +239,10 @@ async function main() {
 
     // Persist progress after each batch (default is per-doc batching).
     if (!dryRun && saveEach) {
-      await fetchJson(syncPostUrl, {
+      const saved = await fetchJson(syncPostUrl, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'If-Match': `"${revision}"`, ...authHeaders },
         body: JSON.stringify({
-          email,
-          password,
           transactions: merged,
           debts,
           assets,
@@ -244,6 +250,7 @@ async function main() {
           recurring,
         }),
       });
+      revision = Number(saved.revision) || revision;
       console.log(`  Saved to cloud. Total transactions now: ${merged.length}`);
     }
   }
@@ -257,10 +264,8 @@ async function main() {
   if (!saveEach) {
     await fetchJson(syncPostUrl, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'If-Match': `"${revision}"`, ...authHeaders },
       body: JSON.stringify({
-        email,
-        password,
         transactions: merged,
         debts,
         assets,
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useRef, useState } from 'react';
 import Papa from 'papaparse';
 import { BudgetProvider, useBudget } from './context/BudgetContext';
 import { SummaryCards } from './components/SummaryCards';
@@ -7,8 +7,11 @@ import { BudgetCharts } from './components/BudgetCharts';
 import { TransactionList } from './components/TransactionList';
 import { ImportModal } from './components/ImportModal';
 import { ProfileModal } from './components/ProfileModal';
+import { RecurringQueue } from './components/RecurringQueue';
+import { SyncConflictsModal } from './components/SyncConflicts';
+import { toExportRows } from './utils/transactions';
 import { Upload, Download, Trash, ChevronLeft, ChevronRight, Wallet, Cloud, X, LogOut, RefreshCw, Sparkles, Settings2 } from 'lucide-react';
-import { format, addMonths, subMonths, addYears, subYears, parseISO } from 'date-fns';
+import { format, addMonths, subMonths, addYears, subYears, parseISO, endOfMonth } from 'date-fns';
 
 const DEFAULT_CATEGORIES = [
   "Rent & Utilities",
@@ -95,11 +98,12 @@ const SyncModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
 };
 
 const Dashboard: React.FC = () => {
-  const { transactions, importCSV, clearAll, user, logout, isSyncing, generateRecurringForMonth, categoryBudgets } = useBudget();
+  const { transactions, importCSV, clearAll, user, logout, isSyncing, syncError, syncConflicts, categoryBudgets } = useBudget();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [showSync, setShowSync] = useState(false);
   const [showImport, setShowImport] = useState(false);
   const [showProfile, setShowProfile] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
   const [viewMode, setViewMode] = useState<'month' | 'year'>('month');
 
   // Use state for the selected month YYYY-MM
@@ -110,20 +114,6 @@ const Dashboard: React.FC = () => {
     return new Date().toISOString().slice(0, 4);
   });
 
-  // Auto-generate any recurring entries for the month being viewed
-  useEffect(() => {
-    if (viewMode === 'month') {
-      generateRecurringForMonth(currentMonth);
-      return;
-    }
-
-    // Year view: ensure each month has its recurring entries generated once.
-    for (let mi = 0; mi < 12; mi++) {
-      const yyyyMM = `${currentYear}-${String(mi + 1).padStart(2, '0')}`;
-      generateRecurringForMonth(yyyyMM);
-    }
-  }, [currentMonth, currentYear, viewMode, generateRecurringForMonth]);
-
   const handleMonthChange = (direction: 'prev' | 'next') => {
     const date = parseISO(currentMonth + '-01');
     const newDate = direction === 'next' ? addMonths(date, 1) : subMonths(date, 1);
@@ -137,7 +127,10 @@ const Dashboard: React.FC = () => {
   };
 
   const handleExport = () => {
-    const csv = Papa.unparse(transactions);
+    // One row per split line so category totals in the export match the dashboard.
+    const rows = toExportRows(transactions);
+    const columns = Array.from(new Set(rows.flatMap(r => Object.keys(r))));
+    const csv = Papa.unparse(rows, { columns });
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -160,6 +153,12 @@ const Dashboard: React.FC = () => {
 
   const categoryHints = Array.from(new Set([...DEFAULT_CATEGORIES, ...Object.keys(categoryBudgets || {})]));
 
+  // Recurring occurrences in the viewed period are queued for review rather than auto-created.
+  const periodStart = viewMode === 'year' ? `${currentYear}-01-01` : `${currentMonth}-01`;
+  const periodEnd = viewMode === 'year'
+    ? `${currentYear}-12-31`
+    : format(endOfMonth(parseISO(`${currentMonth}-01`)), 'yyyy-MM-dd');
+
   const filteredTx = viewMode === 'year'
     ? transactions.filter(t => t.date.startsWith(currentYear))
     : transactions.filter(t => t.date.startsWith(currentMonth));
@@ -169,6 +168,7 @@ const Dashboard: React.FC = () => {
       {showSync && <SyncModal onClose={() => setShowSync(false)} />}
       {showImport && <ImportModal open={showImport} onClose={() => setShowImport(false)} categories={categoryHints} />}
       {showProfile && <ProfileModal open={showProfile} onClose={() => setShowProfile(false)} />}
+      {showConflicts && <SyncConflictsModal onClose={() => setShowConflicts(false)} />}
 
       {/* HEADER SECTION */}
       <header className="app-header">
@@ -198,6 +198,12 @@ const Dashboard: React.FC = () => {
                   <LogOut size={16} />
                 </button>
                 {isSyncing && <RefreshCw size={16} className="spin" />}
+                {syncError && <span title={syncError} style={{ color: 'red', fontSize: '0.8rem' }}>SYNC PAUSED</span>}
+                {syncConflicts.length > 0 && (
+                  <button onClick={() => setShowConflicts(true)} className="neo-btn pink" style={{ padding: '0.25rem 0.5rem', fontSize: '0.8rem' }} title="Records changed on two devices">
+                    {syncConflicts.length} SYNC CONFLICT{syncConflicts.length === 1 ? '' : 'S'}
+                  </button>
+                )}
               </div>
             </>
           ) : (
@@ -266,6 +272,8 @@ const Dashboard: React.FC = () => {
 
       <BudgetCharts transactions={transactions} currentMonth={currentMonth} currentYear={currentYear} viewMode={viewMode} />
 
+      <RecurringQueue from={periodStart} to={periodEnd} />
+
       <div className="content-grid">
         <div className="form-section">
           <AddTransactionForm />
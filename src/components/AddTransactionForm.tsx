@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
 import { useBudget } from '../context/BudgetContext';
 import type { Transaction, TransactionType } from '../context/BudgetContext';
-import { ArrowRight } from 'lucide-react';
+import { ArrowRight, Plus, Trash2 } from 'lucide-react';
 import { NeoSelect } from './NeoSelect';
+import { accountRefKey, isSplitBalanced, parseAccountRefKey, splitRemainder } from '../utils/transactions';
 
 const CATEGORIES = [
     "Rent & Utilities",
@@ -30,6 +31,14 @@ export type TransactionDraft = Omit<Transaction, 'id'>;
 
 export type TransactionFormMode = 'add' | 'edit';
 
+// Split lines are edited as strings so partially-typed amounts survive re-renders.
+type SplitDraft = {
+    category: string;
+    amount: string;
+    debtAccountId: string;
+    assetAccountId: string;
+};
+
 export interface TransactionFormProps {
     mode?: TransactionFormMode;
     initial?: Partial<TransactionDraft>;
@@ -45,7 +54,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
     onDone,
     submitLabel,
 }) => {
-    const { addTransaction, debts, assets } = useBudget();
+    const { addTransaction, debts, assets, cashAccounts, suggestCategory } = useBudget();
 
     const [desc, setDesc] = useState(() => initial?.description ?? '');
     const [amount, setAmount] = useState(() => (
@@ -60,21 +69,93 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
     const [category, setCategory] = useState(() => initial?.category ?? CATEGORIES[0]);
     const [selectedDebtId, setSelectedDebtId] = useState(() => initial?.debtAccountId ?? '');
     const [selectedAssetId, setSelectedAssetId] = useState(() => initial?.assetAccountId ?? '');
+    const [selectedCashId, setSelectedCashId] = useState(() => initial?.cashAccountId ?? '');
     const [txDate, setTxDate] = useState(() => initial?.date ?? new Date().toISOString().split('T')[0]);
+    const [fromKey, setFromKey] = useState(() => accountRefKey(initial?.fromAccount) || 'cash');
+    const [toKey, setToKey] = useState(() => accountRefKey(initial?.toAccount) || 'cash');
+    const [splits, setSplits] = useState<SplitDraft[]>(() => (initial?.splits || []).map(sp => ({
+        category: sp.category,
+        amount: String(sp.amount),
+        debtAccountId: sp.debtAccountId ?? '',
+        assetAccountId: sp.assetAccountId ?? '',
+    })));
+    const isSplit = splits.length > 0;
+
+    const parsedSplits = splits.map(sp => ({ ...sp, amount: parseFloat(sp.amount) || 0 }));
+    const remainder = splitRemainder(parseFloat(amount) || 0, parsedSplits);
+
+    const startSplit = () => {
+        setSplits([
+            { category, amount: amount || '', debtAccountId: '', assetAccountId: '' },
+            { category: 'Uncategorized', amount: '', debtAccountId: '', assetAccountId: '' },
+        ]);
+    };
+
+    const updateSplit = (index: number, patch: Partial<SplitDraft>) => {
+        setSplits(prev => prev.map((sp, i) => i === index ? { ...sp, ...patch } : sp));
+    };
+
+    const removeSplit = (index: number) => {
+        const next = splits.filter((_, i) => i !== index);
+        // Dropping below two lines means it's no longer a split.
+        if (next.length < 2) {
+            if (next[0]) setCategory(next[0].category);
+            setSplits([]);
+            return;
+        }
+        setSplits(next);
+    };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (!desc || !amount) return;
 
+        const total = parseFloat(amount);
+        const isTransfer = type === 'transfer';
+        if (isTransfer && fromKey === toKey) {
+            alert("Pick two different accounts for a transfer.");
+            return;
+        }
+        if (isSplit && !isTransfer) {
+            if (parsedSplits.some(sp => !(sp.amount > 0))) {
+                alert("Every split line needs an amount.");
+                return;
+            }
+            if (!isSplitBalanced(total, parsedSplits)) {
+                alert(`Split lines must add up to $${total.toFixed(2)} (off by $${remainder.toFixed(2)}).`);
+                return;
+            }
+        }
+
+        // The parent category mirrors the largest split line so legacy views still read sensibly.
+        const mainCategory = isTransfer
+            ? 'Transfer'
+            : isSplit
+                ? [...parsedSplits].sort((a, b) => b.amount - a.amount)[0].category
+                : category;
+
         const draft: TransactionDraft = {
             description: desc,
-            amount: parseFloat(amount),
+            amount: total,
             type: type as TransactionType,
-            category: category || 'Uncategorized',
+            category: mainCategory || 'Uncategorized',
             date: txDate,
             debtAccountId: selectedDebtId || undefined,
             assetAccountId: selectedAssetId || undefined,
+            cashAccountId: usesCashAccount ? (selectedCashId || undefined) : undefined,
             recurringId: initial?.recurringId,
+            recurrenceDate: initial?.recurrenceDate,
+            tags: initial?.tags,
+            fromAccount: isTransfer ? parseAccountRefKey(fromKey) : undefined,
+            toAccount: isTransfer ? parseAccountRefKey(toKey) : undefined,
+            splits: isSplit && !isTransfer
+                ? parsedSplits.map(sp => ({
+                    category: sp.category || 'Uncategorized',
+                    amount: sp.amount,
+                    debtAccountId: sp.debtAccountId || undefined,
+                    assetAccountId: sp.assetAccountId || undefined,
+                }))
+                : undefined,
         };
 
         (onSubmitTransaction || addTransaction)(draft);
@@ -82,6 +163,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
         if (mode === 'add') {
             setDesc('');
             setAmount('');
+            setSplits([]);
             // Keep category and date
         }
         onDone?.();
@@ -90,6 +172,24 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
     // Type selection logic
     const isDebtRelated = type === 'debt' || type === 'debt-payment' || type === 'debt-interest' || (type as string) === 'debt-charge';
     const isAssetRelated = type === 'asset-deposit' || type === 'asset-growth';
+    const usesCashAccount = type === 'income' || type === 'expense' || type === 'debt-payment' || type === 'debt' || type === 'asset-deposit';
+
+    const categoryOptions = [
+        ...CATEGORIES.map(c => ({ value: c, label: c })),
+        { value: 'Uncategorized', label: 'Uncategorized' },
+        // Imported or learned categories outside the default list
+        ...(CATEGORIES.includes(category) || category === 'Uncategorized' ? [] : [{ value: category, label: category }]),
+    ];
+
+    // Transfers move money between the user's own accounts; they never count as spend or income.
+    const accountOptions = [
+        { value: 'cash', label: 'Cash / Checking' },
+        ...cashAccounts.map(c => ({ value: accountRefKey({ kind: 'cash', id: c.id }), label: `Cash: ${c.name}` })),
+        ...debts.map(d => ({ value: accountRefKey({ kind: 'debt', id: d.id }), label: `Debt: ${d.name}` })),
+        ...assets.map(a => ({ value: accountRefKey({ kind: 'asset', id: a.id }), label: `Asset: ${a.name}` })),
+    ];
+
+    const suggestion = desc.trim() ? suggestCategory({ description: desc, amount: parseFloat(amount) || 0 }) : null;
 
     const title = mode === 'edit' ? 'Edit Entry' : 'Add New Entry';
     const buttonLabel = submitLabel || (mode === 'edit' ? 'SAVE CHANGES' : 'ADD ENTRY');
@@ -148,10 +248,39 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
                             { value: 'debt-charge', label: 'Debt Charge (Card Spend)' },
                             { value: 'asset-deposit', label: 'Asset Deposit (Savings)' },
                             { value: 'asset-growth', label: 'Asset Growth (Interest)' },
+                            { value: 'transfer', label: 'Transfer (Between Accounts)' },
                         ]}
                     />
                 </div>
 
+                {type === 'transfer' && (
+                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                        <div className="form-group">
+                            <label>FROM</label>
+                            <NeoSelect className="neo-select" value={fromKey} onChange={setFromKey} options={accountOptions} />
+                        </div>
+                        <div className="form-group">
+                            <label>TO</label>
+                            <NeoSelect className="neo-select" value={toKey} onChange={setToKey} options={accountOptions} />
+                        </div>
+                    </div>
+                )}
+
+                {usesCashAccount && cashAccounts.length > 0 && (
+                    <div className="form-group">
+                        <label>{type === 'income' ? 'DEPOSITED INTO' : 'PAID FROM'}</label>
+                        <NeoSelect
+                            className="neo-select"
+                            value={selectedCashId}
+                            onChange={setSelectedCashId}
+                            options={[
+                                { value: '', label: '-- Untracked Cash --' },
+                                ...cashAccounts.map(c => ({ value: c.id, label: c.name })),
+                            ]}
+                        />
+                    </div>
+                )}
+
                 {isDebtRelated && (
                     <div className="form-group">
                         <label>LINK TO DEBT ACCOUNT</label>
@@ -184,18 +313,89 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
                     </div>
                 )}
 
-                <div className="form-group">
-                    <label>CATEGORY</label>
-                    <NeoSelect
-                        className="neo-select"
-                        value={category}
-                        onChange={setCategory}
-                        options={[
-                            ...CATEGORIES.map(c => ({ value: c, label: c })),
-                            { value: 'Uncategorized', label: 'Uncategorized' },
-                        ]}
-                    />
-                </div>
+                {type === 'transfer' ? null : !isSplit ? (
+                    <div className="form-group">
+                        <label>CATEGORY</label>
+                        <NeoSelect
+                            className="neo-select"
+                            value={category}
+                            onChange={setCategory}
+                            options={categoryOptions}
+                        />
+                        {suggestion && suggestion.category !== category && (
+                            <button type="button" className="neo-btn white" onClick={() => setCategory(suggestion.category)} style={{ marginTop: '0.75rem', padding: '0.4rem 0.7rem', fontSize: '0.8rem' }}>
+                                SUGGESTED: {suggestion.category} ({Math.round(suggestion.confidence * 100)}%)
+                            </button>
+                        )}
+                        <button type="button" className="neo-btn white" onClick={startSplit} style={{ marginTop: '0.75rem', padding: '0.4rem 0.7rem', fontSize: '0.8rem' }}>
+                            <Plus size={16} /> SPLIT ACROSS CATEGORIES
+                        </button>
+                    </div>
+                ) : (
+                    <div className="form-group">
+                        <label>SPLIT LINES</label>
+                        <div className="split-stack">
+                            {splits.map((sp, idx) => (
+                                <div key={idx} className="split-line">
+                                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 110px auto', gap: '0.5rem', alignItems: 'center' }}>
+                                        <NeoSelect
+                                            className="neo-select neo-select-compact"
+                                            value={sp.category}
+                                            onChange={(v) => updateSplit(idx, { category: v })}
+                                            options={categoryOptions}
+                                        />
+                                        <input
+                                            className="neo-input"
+                                            type="number"
+                                            step="0.01"
+                                            placeholder="0.00"
+                                            value={sp.amount}
+                                            onChange={e => updateSplit(idx, { amount: e.target.value })}
+                                        />
+                                        <button type="button" className="split-remove" onClick={() => removeSplit(idx)} title="Remove line">
+                                            <Trash2 size={16} />
+                                        </button>
+                                    </div>
+                                    {isDebtRelated && (
+                                        <NeoSelect
+                                            className="neo-select neo-select-compact"
+                                            value={sp.debtAccountId}
+                                            onChange={(v) => updateSplit(idx, { debtAccountId: v })}
+                                            options={[
+                                                { value: '', label: '-- Same as entry --' },
+                                                ...debts.map(d => ({ value: d.id, label: d.name })),
+                                            ]}
+                                        />
+                                    )}
+                                    {isAssetRelated && (
+                                        <NeoSelect
+                                            className="neo-select neo-select-compact"
+                                            value={sp.assetAccountId}
+                                            onChange={(v) => updateSplit(idx, { assetAccountId: v })}
+                                            options={[
+                                                { value: '', label: '-- Same as entry --' },
+                                                ...assets.map(a => ({ value: a.id, label: a.name })),
+                                            ]}
+                                        />
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '0.75rem', gap: '0.5rem', flexWrap: 'wrap' }}>
+                            <button
+                                type="button"
+                                className="neo-btn white"
+                                onClick={() => setSplits(prev => [...prev, { category: 'Uncategorized', amount: remainder > 0 ? remainder.toFixed(2) : '', debtAccountId: '', assetAccountId: '' }])}
+                                style={{ padding: '0.4rem 0.7rem', fontSize: '0.8rem' }}
+                            >
+                                <Plus size={16} /> ADD LINE
+                            </button>
+                            <span style={{ fontWeight: 900, color: isSplitBalanced(parseFloat(amount) || 0, parsedSplits) ? 'black' : 'red' }}>
+                                LEFT: ${remainder.toFixed(2)}
+                            </span>
+                        </div>
+                    </div>
+                )}
 
                 <button type="submit" className="neo-btn yellow" style={{ justifyContent: 'center', width: '100%', marginTop: '1rem' }}>
                     {buttonLabel} <ArrowRight size={20} strokeWidth={3} />
@@ -213,6 +413,27 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
             font-weight: 900;
             font-size: 0.9rem;
         }
+        .split-stack {
+            display: grid;
+            gap: 0.75rem;
+        }
+        .split-line {
+            display: grid;
+            gap: 0.5rem;
+            border: 2px solid black;
+            box-shadow: 2px 2px 0 black;
+            padding: 0.5rem;
+            background: #fff;
+        }
+        .split-remove {
+            background: white;
+            border: 2px solid red;
+            color: red;
+            box-shadow: 2px 2px 0 red;
+            padding: 4px;
+            cursor: pointer;
+            display: flex;
+        }
       `}</style>
         </div>
     );
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { useBudget } from '../context/BudgetContext';
+import type { AssetAccount } from '../context/BudgetContext';
+import { format } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { valuationHistory } from '../utils/valuations';
+
+const formatChange = (n: number) => `${n >= 0 ? '+' : '-'}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Dated market values for an asset, split into contributions vs market gain. */
+export const AssetValuations: React.FC<{ asset: AssetAccount }> = ({ asset }) => {
+  const { transactions, setAssetValuation, deleteAssetValuation } = useBudget();
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [value, setValue] = useState('');
+
+  const rows = valuationHistory(asset, transactions);
+  const gain = rows.reduce((sum, r) => sum + r.marketGain, 0);
+  const latest = rows[rows.length - 1];
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(value);
+    if (!date || value.trim() === '' || !Number.isFinite(amount) || amount < 0) {
+      alert("Enter a date and the account's value on that day.");
+      return;
+    }
+    setAssetValuation(asset.id, { date, value: amount, source: 'manual' });
+    setValue('');
+  };
+
+  return (
+    <div style={{ borderTop: '2px solid black', paddingTop: '0.5rem', display: 'grid', gap: '0.4rem', fontSize: '0.85rem' }}>
+      {latest ? (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem' }}>
+          <div>Valued: <b>${latest.value.toLocaleString(undefined, { minimumFractionDigits: 2 })}</b> on {latest.date}</div>
+          <div>Market gain: <b style={{ color: gain < 0 ? 'var(--neo-pink)' : 'var(--neo-green)' }}>{formatChange(gain)}</b></div>
+        </div>
+      ) : (
+        <div style={{ opacity: 0.7 }}>No valuations yet. Record one when the account's value changes without a transaction.</div>
+      )}
+
+      <button className="neo-btn white" style={{ padding: '0.3rem 0.6rem', fontSize: '0.8rem', justifySelf: 'start' }} onClick={() => setOpen(v => !v)}>
+        {open ? 'HIDE VALUATIONS' : `VALUATIONS (${rows.length})`}
+      </button>
+
+      {open && (
+        <>
+          <form onSubmit={handleAdd} style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '0.5rem' }}>
+            <input className="neo-input" type="date" value={date} onChange={e => setDate(e.target.value)} />
+            <input className="neo-input" type="number" step="0.01" min={0} placeholder="Value ($)" value={value} onChange={e => setValue(e.target.value)} />
+            <button className="neo-btn pink" type="submit">SAVE</button>
+          </form>
+          {[...rows].reverse().map(r => (
+            <div key={r.date} className="valuation-row">
+              <span>{r.date}{r.source === 'simplefin' ? ' (SimpleFIN)' : ''}</span>
+              <span><b>${r.value.toLocaleString(undefined, { minimumFractionDigits: 2 })}</b></span>
+              <span title="Net deposits">{formatChange(r.netDeposits)} in</span>
+              <span style={{ color: r.marketGain < 0 ? 'var(--neo-pink)' : 'var(--neo-green)' }} title="Market gain">{formatChange(r.marketGain)}</span>
+              <button
+                onClick={() => deleteAssetValuation(asset.id, r.date)}
+                title="Delete valuation"
+                style={{ background: 'none', border: '2px solid red', color: 'red', padding: '2px', cursor: 'pointer' }}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </>
+      )}
+
+      <style>{`
+        .valuation-row {
+          display: grid;
+          grid-template-columns: 1.2fr 1fr 1fr 1fr auto;
+          gap: 0.5rem;
+          align-items: center;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -1,6 +1,11 @@
 import React, { useState } from 'react';
 import { useBudget } from '../context/BudgetContext';
-import { Plus, Trash2, Edit2, X, TrendingUp } from 'lucide-react';
+import type { AssetAccount, SavingsGoal } from '../context/BudgetContext';
+import { Plus, Trash2, Edit2, X, TrendingUp, Flag } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { assetStats } from '../utils/balances';
+import { goalProgress } from '../utils/goals';
+import { AssetValuations } from './AssetValuations';
 
 const AssetModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     const { assets, transactions, addAsset, editAsset, deleteAsset } = useBudget();
@@ -9,46 +14,55 @@ const AssetModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     const [name, setName] = useState('');
     const [startBal, setStartBal] = useState('');
     const [editingId, setEditingId] = useState<string | null>(null);
+    const [goalLabel, setGoalLabel] = useState('');
+    const [goalTarget, setGoalTarget] = useState('');
+    const [goalDate, setGoalDate] = useState('');
+    const [today] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+    const resetForm = () => {
+        setName('');
+        setStartBal('');
+        setGoalLabel('');
+        setGoalTarget('');
+        setGoalDate('');
+    };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (!name || !startBal) return;
 
+        // A goal is optional, but needs both an amount and a date to be useful.
+        let goal: SavingsGoal | undefined;
+        if (goalTarget || goalDate) {
+            const target = parseFloat(goalTarget);
+            if (!Number.isFinite(target) || target <= 0 || !goalDate) {
+                alert("A savings goal needs a positive target amount and a target date.");
+                return;
+            }
+            goal = { label: goalLabel || name, targetAmount: target, targetDate: goalDate };
+        }
+
         if (editingId) {
-            editAsset(editingId, { name, startingBalance: parseFloat(startBal) });
+            editAsset(editingId, { name, startingBalance: parseFloat(startBal), goal });
             setEditingId(null);
         } else {
-            addAsset({ name, startingBalance: parseFloat(startBal) });
+            addAsset({ name, startingBalance: parseFloat(startBal), goal });
         }
 
-        setName('');
-        setStartBal('');
+        resetForm();
         setIsFormOpen(false);
     };
 
-    const startEdit = (a: { id: string, name: string, startingBalance: number }) => {
+    const startEdit = (a: AssetAccount) => {
         setEditingId(a.id);
         setName(a.name);
         setStartBal(a.startingBalance.toString());
+        setGoalLabel(a.goal?.label || '');
+        setGoalTarget(a.goal ? a.goal.targetAmount.toString() : '');
+        setGoalDate(a.goal?.targetDate || '');
         setIsFormOpen(true);
     };
 
-    // Calculation Logic
-    const getAssetStats = (assetId: string, initial: number) => {
-        const assetTx = transactions.filter(t => t.assetAccountId === assetId);
-
-        const deposits = assetTx
-            .filter(t => t.type === 'asset-deposit')
-            .reduce((sum, t) => sum + t.amount, 0);
-
-        const growth = assetTx
-            .filter(t => t.type === 'asset-growth')
-            .reduce((sum, t) => sum + t.amount, 0);
-
-        const current = initial + deposits + growth;
-        return { current, deposits, growth };
-    };
-
     return (
         <div style={{
             position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
@@ -65,7 +79,7 @@ const AssetModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                     {!isFormOpen ? (
                         <button
                             className="neo-btn"
-                            onClick={() => { setIsFormOpen(true); setEditingId(null); setName(''); setStartBal(''); }}
+                            onClick={() => { setIsFormOpen(true); setEditingId(null); resetForm(); }}
                             style={{ background: 'var(--neo-green)', width: '100%', justifyContent: 'center' }}
                         >
                             <Plus size={24} /> ADD NEW ASSET
@@ -91,6 +105,33 @@ const AssetModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                                         value={startBal} onChange={e => setStartBal(e.target.value)}
                                     />
                                 </div>
+                                <div>
+                                    <label style={{ fontWeight: 'bold' }}>SAVINGS GOAL (OPTIONAL)</label>
+                                    <input
+                                        className="neo-input"
+                                        placeholder="e.g. Emergency Fund, Down Payment"
+                                        value={goalLabel} onChange={e => setGoalLabel(e.target.value)}
+                                    />
+                                </div>
+                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                                    <div>
+                                        <label style={{ fontWeight: 'bold' }}>GOAL AMOUNT ($)</label>
+                                        <input
+                                            className="neo-input"
+                                            type="number" step="0.01"
+                                            placeholder="0.00"
+                                            value={goalTarget} onChange={e => setGoalTarget(e.target.value)}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label style={{ fontWeight: 'bold' }}>TARGET DATE</label>
+                                        <input
+                                            className="neo-input"
+                                            type="date"
+                                            value={goalDate} onChange={e => setGoalDate(e.target.value)}
+                                        />
+                                    </div>
+                                </div>
                                 <div style={{ display: 'flex', gap: '1rem' }}>
                                     <button className="neo-btn pink" type="submit" style={{ flex: 1, justifyContent: 'center' }}>
                                         {editingId ? 'UPDATE' : 'CREATE'}
@@ -107,7 +148,8 @@ const AssetModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                 {/* List */}
                 <div className="stack">
                     {assets.map(a => {
-                        const stats = getAssetStats(a.id, a.startingBalance);
+                        const stats = assetStats(a, transactions);
+                        const progress = goalProgress(a, transactions, today);
                         return (
                             <div key={a.id} className="neo-box" style={{
                                 background: 'white',
@@ -128,7 +170,33 @@ const AssetModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                                     <div>Started: <b>${a.startingBalance.toLocaleString()}</b></div>
                                     <div>Contributions: <b style={{ color: 'var(--neo-green)' }}>+${stats.deposits.toLocaleString()}</b></div>
                                     <div>Growth/Interest: <b style={{ color: 'var(--neo-green)' }}>+${stats.growth.toLocaleString()}</b></div>
+                                    {stats.withdrawals > 0 && (
+                                        <div>Withdrawals: <b style={{ color: 'var(--neo-pink)' }}>-${stats.withdrawals.toLocaleString()}</b></div>
+                                    )}
                                 </div>
+                                <AssetValuations asset={a} />
+                                {a.goal && progress && (
+                                    <div style={{ borderTop: '2px solid black', paddingTop: '0.5rem', display: 'grid', gap: '0.4rem' }}>
+                                        <div style={{ display: 'flex', justifyContent: 'space-between', fontWeight: 900 }}>
+                                            <span style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}><Flag size={16} /> {a.goal.label}</span>
+                                            <span>${a.goal.targetAmount.toLocaleString()} by {format(parseISO(a.goal.targetDate), 'MMM yyyy')}</span>
+                                        </div>
+                                        <div className="goal-bar"><div style={{ width: `${progress.percent}%` }} /></div>
+                                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', fontSize: '0.85rem', gap: '0.5rem' }}>
+                                            <div>Progress: <b>{progress.percent.toFixed(0)}%</b></div>
+                                            <div>Recent pace: <b>${progress.monthlyRate.toLocaleString(undefined, { maximumFractionDigits: 0 })}/mo</b></div>
+                                            <div>Needed: <b>${progress.requiredMonthly.toLocaleString(undefined, { maximumFractionDigits: 0 })}/mo</b></div>
+                                            <div>
+                                                Projected:{' '}
+                                                <b style={{ color: progress.onTrack ? 'var(--neo-green)' : 'var(--neo-pink)' }}>
+                                                    {progress.remaining === 0
+                                                        ? 'REACHED'
+                                                        : progress.projectedDate ? format(parseISO(progress.projectedDate), 'MMM yyyy') : 'NOT GROWING'}
+                                                </b>
+                                            </div>
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         );
                     })}
@@ -149,6 +217,15 @@ const AssetModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                 }
                 .icon-btn:active { transform: translate(2px, 2px); box-shadow: none; }
                 .icon-btn.trash { color: red; border-color: red; box-shadow: 2px 2px 0 red; }
+                .goal-bar {
+                    height: 12px;
+                    border: 3px solid black;
+                    background: #f0f0f0;
+                }
+                .goal-bar div {
+                    height: 100%;
+                    background: var(--neo-green);
+                }
             `}</style>
         </div>
     );
@@ -159,12 +236,7 @@ export const AssetsManager: React.FC = () => {
     const [isModalOpen, setIsModalOpen] = useState(false);
 
     // Calculate Total Assets
-    const totalAssets = assets.reduce((acc, a) => {
-        const assetTx = transactions.filter(t => t.assetAccountId === a.id);
-        const deposits = assetTx.filter(t => t.type === 'asset-deposit').reduce((s, t) => s + t.amount, 0);
-        const growth = assetTx.filter(t => t.type === 'asset-growth').reduce((s, t) => s + t.amount, 0);
-        return acc + (a.startingBalance + deposits + growth);
-    }, 0);
+    const totalAssets = assets.reduce((acc, a) => acc + assetStats(a, transactions).current, 0);
 
     return (
         <>
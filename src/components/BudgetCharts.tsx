@@ -7,6 +7,10 @@ import {
 } from 'recharts';
 import { TrendingUp, Target } from 'lucide-react';
 import { subMonths, format, parseISO } from 'date-fns';
+import { isSpend, sumByCategory } from '../utils/transactions';
+import { summarizeCashflow } from '../utils/cashflow';
+import { budgetsForMonths, monthsOfYear } from '../utils/budgets';
+import { NetWorthChart } from './NetWorthChart';
 
 interface BudgetChartsProps {
     transactions: Transaction[];
@@ -16,7 +20,7 @@ interface BudgetChartsProps {
 }
 
 export const BudgetCharts: React.FC<BudgetChartsProps> = ({ transactions, currentMonth, viewMode = 'month', currentYear }) => {
-    const { categoryBudgets } = useBudget();
+    const { categoryBudgets, budgetHistory } = useBudget();
     const yearKey = currentYear || currentMonth.slice(0, 4);
 
     // 1. Calculate 3-Month Rolling Average Income
@@ -46,118 +50,42 @@ export const BudgetCharts: React.FC<BudgetChartsProps> = ({ transactions, curren
 
     // 2. 6-Month Trends Data
     const trendData = useMemo(() => {
-        const data = [];
-
-      const isTransferDesc = (desc: string) => {
-        const d = (desc || '').toLowerCase();
-        return d.includes('transfer to') || d.includes('transfer from') || d.includes('trf to') || d.includes('trf fr') || d.includes('overdraft transfer');
-      };
-
-      const chargedDebtIdsForPeriod = (yyyy_mm: string) => {
-        const txx = transactions.filter(t => t.date.startsWith(yyyy_mm));
-        return new Set(
-          txx
-            .filter(t => (t.type as string) === 'debt-charge' || t.type === 'debt-interest')
-            .map(t => t.debtAccountId)
-            .filter((x): x is string => Boolean(x))
-        );
-      };
+        // Out = cash that left: expenses plus net transfers to debt/asset accounts.
+        // Card charges are counted when the card is paid, so nothing is double-counted.
+        const monthPoint = (yyyy_mm: string) => {
+            const flow = summarizeCashflow(transactions.filter(t => t.date.startsWith(yyyy_mm)));
+            return { name: format(parseISO(`${yyyy_mm}-01`), 'MMM'), Income: flow.income, Out: flow.cashOut };
+        };
 
         if (viewMode === 'year') {
-            for (let mi = 0; mi < 12; mi++) {
-                const yyyy_mm = `${yearKey}-${String(mi + 1).padStart(2, '0')}`;
-                const d = parseISO(`${yyyy_mm}-01`);
-                const monthLabel = format(d, 'MMM');
-
-                const monthIncome = transactions
-                    .filter(t => t.date.startsWith(yyyy_mm) && t.type === 'income')
-                    .reduce((sum, t) => sum + t.amount, 0);
-
-          const chargedDebtIds = chargedDebtIdsForPeriod(yyyy_mm);
-          const monthOut = transactions
-            .filter(t => {
-              if (!t.date.startsWith(yyyy_mm)) return false;
-              if (t.type === 'income') return false;
-              if (t.type === 'expense' && isTransferDesc(t.description)) return false;
-              // Don't double-count credit-card payments if we already count charges/interest as spend.
-              if ((t.type === 'debt' || t.type === 'debt-payment') && t.debtAccountId && chargedDebtIds.has(t.debtAccountId)) return false;
-              // Ignore asset growth (not cash out) but count asset-deposit as an outflow from cash.
-              if (t.type === 'asset-growth') return false;
-              return true;
-            })
-            .reduce((sum, t) => sum + t.amount, 0);
-
-                data.push({ name: monthLabel, Income: monthIncome, Out: monthOut });
-            }
-            return data;
+            return Array.from({ length: 12 }, (_, mi) => monthPoint(`${yearKey}-${String(mi + 1).padStart(2, '0')}`));
         }
 
         const today = parseISO(currentMonth + '-01');
         // Last 6 months range
-        for (let i = 5; i >= 0; i--) {
-            const d = subMonths(today, i);
-            const yyyy_mm = format(d, 'yyyy-MM');
-            const monthLabel = format(d, 'MMM');
-
-            const monthIncome = transactions
-                .filter(t => t.date.startsWith(yyyy_mm) && t.type === 'income')
-                .reduce((sum, t) => sum + t.amount, 0);
-
-            // Net = Income - Expenses - Debt
-        const chargedDebtIds = chargedDebtIdsForPeriod(yyyy_mm);
-        const monthOut = transactions
-          .filter(t => {
-            if (!t.date.startsWith(yyyy_mm)) return false;
-            if (t.type === 'income') return false;
-            if (t.type === 'expense' && isTransferDesc(t.description)) return false;
-            if ((t.type === 'debt' || t.type === 'debt-payment') && t.debtAccountId && chargedDebtIds.has(t.debtAccountId)) return false;
-            if (t.type === 'asset-growth') return false;
-            return true;
-          })
-          .reduce((sum, t) => sum + t.amount, 0);
-
-            data.push({
-                name: monthLabel,
-                Income: monthIncome,
-                Out: monthOut
-            });
-        }
-        return data;
+        return Array.from({ length: 6 }, (_, idx) => monthPoint(format(subMonths(today, 5 - idx), 'yyyy-MM')));
     }, [transactions, currentMonth, viewMode, yearKey]);
 
     // 3. Category Breakdown with Targets
     const categoryData = useMemo(() => {
         const periodKey = viewMode === 'year' ? yearKey : currentMonth;
-        const budgetMultiplier = viewMode === 'year' ? 12 : 1;
-      // Only budget spend types (avoid pollution from transfers like debt payments and savings transfers).
-      const relevantT = transactions.filter(t => {
-        if (!t.date.startsWith(periodKey)) return false;
-        if (t.type === 'expense') {
-          const d = (t.description || '').toLowerCase();
-          const isTransfer = d.includes('transfer') || d.includes('trf to') || d.includes('trf fr') || d.includes('overdraft transfer');
-          return !isTransfer;
-        }
-        if ((t.type as string) === 'debt-charge') return true;
-        if (t.type === 'debt-interest') return true;
-        return false;
-      });
+        const budgets = budgetsForMonths(categoryBudgets, budgetHistory, viewMode === 'year' ? monthsOfYear(yearKey) : [currentMonth]);
+        // Only budget spend types (transfers like debt payments and savings moves are excluded).
+        const relevantT = transactions.filter(t => t.date.startsWith(periodKey) && isSpend(t));
 
-        // Group by category
-        const groups: Record<string, number> = {};
-        relevantT.forEach(t => {
-            groups[t.category] = (groups[t.category] || 0) + t.amount;
-        });
+        // Group by category (split transactions count under each line's category)
+        const groups = sumByCategory(relevantT);
 
         // Convert to array
         const result = Object.keys(groups).map(cat => ({
             name: cat,
             actual: groups[cat],
-            budget: (categoryBudgets[cat] || 0) * budgetMultiplier
+            budget: budgets[cat] || 0
         }));
 
         // Sort by highest spend
         return result.sort((a, b) => b.actual - a.actual);
-    }, [transactions, currentMonth, categoryBudgets, viewMode, yearKey]);
+    }, [transactions, currentMonth, categoryBudgets, budgetHistory, viewMode, yearKey]);
 
     return (
         <div className="charts-grid">
@@ -247,6 +175,8 @@ export const BudgetCharts: React.FC<BudgetChartsProps> = ({ transactions, curren
                 </div>
             )}
 
+            {/* Net Worth History */}
+            <NetWorthChart currentMonth={currentMonth} viewMode={viewMode} yearKey={yearKey} />
 
             <style>{`
         .charts-grid {
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { useBudget } from '../context/BudgetContext';
+import { Target, X, Copy, Save } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { NeoSelect } from './NeoSelect';
+import { budgetSourceMonth, previousMonth } from '../utils/budgets';
+import type { BudgetScope } from '../utils/budgets';
+
+const CATEGORIES = [
+  "Rent & Utilities",
+  "Food/Beverages/Groceries",
+  "Transportation/Gas",
+  "Personal Subscription",
+  "Business Subscription",
+  "Personal Purchase",
+  "Business Purchase",
+  "Entertainment/Fun",
+  "Interest / Fees",
+  "Health",
+  "Travel",
+  "Loan Payments",
+  "Donation",
+  "Coffee Shops",
+  "Other"
+];
+
+const formatMoney = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const monthLabel = (yyyyMM: string) => format(parseISO(`${yyyyMM}-01`), 'MMMM yyyy');
+
+const BudgetTargetsModal: React.FC<{ onClose: () => void; initialMonth: string }> = ({ onClose, initialMonth }) => {
+  const { budgetHistory, budgetsForMonth, setMonthlyBudget, copyBudgetsFromPreviousMonth, envelopes, setEnvelopeMode } = useBudget();
+
+  const [month, setMonth] = useState(initialMonth);
+  const [scope, setScope] = useState<BudgetScope>('onward');
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [newCategory, setNewCategory] = useState('');
+
+  const limits = budgetsForMonth(month);
+  const source = budgetSourceMonth(budgetHistory, month);
+  const categories = Array.from(new Set([...CATEGORIES, ...Object.keys(limits)]));
+  const total = Object.values(limits).reduce((sum, n) => sum + n, 0);
+
+  const changeMonth = (next: string) => {
+    if (!next) return;
+    setMonth(next);
+    setDrafts({});
+  };
+
+  const saveCategory = (category: string) => {
+    const raw = drafts[category];
+    if (raw === undefined) return;
+    const amount = raw.trim() === '' ? 0 : Number(raw);
+    if (!Number.isFinite(amount) || amount < 0) {
+      alert("Target must be zero or a positive number.");
+      return;
+    }
+    setMonthlyBudget(month, category, amount, scope);
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[category];
+      return next;
+    });
+  };
+
+  const addCategory = () => {
+    const name = newCategory.trim();
+    if (!name) return;
+    setDrafts(prev => ({ ...prev, [name]: prev[name] ?? '' }));
+    setNewCategory('');
+  };
+
+  const copyLastMonth = () => {
+    const prev = previousMonth(month);
+    if (source === month && !confirm(`Replace ${monthLabel(month)}'s targets with ${monthLabel(prev)}'s?`)) return;
+    copyBudgetsFromPreviousMonth(month);
+    setDrafts({});
+  };
+
+  const rows = Array.from(new Set([...categories, ...Object.keys(drafts)]));
+
+  return (
+    <div style={{
+      position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
+      background: 'rgba(0,0,0,0.8)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 999
+    }}>
+      <div className="neo-box" style={{ width: '90%', maxWidth: '650px', maxHeight: '90vh', overflowY: 'auto', background: 'var(--neo-white)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '1rem', borderBottom: '4px solid black', paddingBottom: '1rem' }}>
+          <h2 style={{ fontSize: '2rem', margin: 0 }}>BUDGET TARGETS</h2>
+          <button onClick={onClose} className="icon-btn"><X size={24} /></button>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem', marginBottom: '1rem' }}>
+          <div>
+            <label style={{ fontWeight: 'bold' }}>MONTH</label>
+            <input className="neo-input" type="month" value={month} onChange={e => changeMonth(e.target.value)} />
+          </div>
+          <div>
+            <label style={{ fontWeight: 'bold' }}>SAVE CHANGES TO</label>
+            <NeoSelect
+              className="neo-select"
+              value={scope}
+              onChange={(v) => setScope(v as BudgetScope)}
+              options={[
+                { value: 'onward', label: 'This Month Onward' },
+                { value: 'month', label: 'This Month Only' },
+              ]}
+            />
+          </div>
+        </div>
+
+        <label style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', fontWeight: 900, marginBottom: '1rem' }}>
+          <input
+            type="checkbox"
+            checked={envelopes.enabled}
+            onChange={e => setEnvelopeMode(e.target.checked, month)}
+          />
+          ENVELOPE MODE — ROLL LEFTOVERS INTO NEXT MONTH
+          {envelopes.enabled && envelopes.startMonth && (
+            <span style={{ fontWeight: 700, opacity: 0.7 }}>(since {monthLabel(envelopes.startMonth)})</span>
+          )}
+        </label>
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', marginBottom: '1rem', fontWeight: 700 }}>
+          <span style={{ opacity: 0.75 }}>
+            {source === month
+              ? `Targets set for ${monthLabel(month)}`
+              : source
+                ? `Inherited from ${monthLabel(source)}`
+                : 'Using default targets'}
+            {' · '}Total {formatMoney(total)}
+          </span>
+          <button className="neo-btn white" style={{ padding: '0.4rem 0.7rem', fontSize: '0.8rem' }} onClick={copyLastMonth}>
+            <Copy size={16} /> COPY LAST MONTH
+          </button>
+        </div>
+
+        <div className="targets-stack">
+          {rows.map(category => {
+            const current = limits[category];
+            const draft = drafts[category];
+            const dirty = draft !== undefined;
+            return (
+              <div key={category} className="target-row">
+                <span style={{ fontWeight: 900 }}>{category}</span>
+                <input
+                  className="neo-input"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  placeholder="No target"
+                  value={dirty ? draft : (current ? String(current) : '')}
+                  onChange={e => setDrafts(prev => ({ ...prev, [category]: e.target.value }))}
+                  onKeyDown={e => { if (e.key === 'Enter') saveCategory(category); }}
+                />
+                <button className="icon-btn" title="Save" disabled={!dirty} style={{ opacity: dirty ? 1 : 0.3 }} onClick={() => saveCategory(category)}>
+                  <Save size={16} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+          <input
+            className="neo-input"
+            placeholder="Add another category"
+            value={newCategory}
+            onChange={e => setNewCategory(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') addCategory(); }}
+          />
+          <button className="neo-btn white" onClick={addCategory}>ADD</button>
+        </div>
+
+        <style>{`
+          .targets-stack {
+            display: grid;
+            gap: 0.5rem;
+          }
+          .target-row {
+            display: grid;
+            grid-template-columns: 1fr 160px auto;
+            gap: 0.75rem;
+            align-items: center;
+          }
+          .icon-btn {
+            background: none; border: 2px solid black; padding: 4px; cursor: pointer;
+            box-shadow: 2px 2px 0 black; transition: transform 0.1s;
+          }
+          .icon-btn:active { transform: translate(2px, 2px); box-shadow: none; }
+        `}</style>
+      </div>
+    </div>
+  );
+};
+
+export const BudgetTargetsManager: React.FC<{ currentMonth: string }> = ({ currentMonth }) => {
+  const { budgetsForMonth } = useBudget();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const limits = budgetsForMonth(currentMonth);
+  const total = Object.values(limits).reduce((sum, n) => sum + n, 0);
+
+  return (
+    <>
+      {isModalOpen && <BudgetTargetsModal onClose={() => setIsModalOpen(false)} initialMonth={currentMonth} />}
+
+      <div
+        className="neo-box"
+        style={{
+          background: '#e0c3fc',
+          color: 'black',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          cursor: 'pointer'
+        }}
+        onClick={() => setIsModalOpen(true)}
+        title="Click to Manage Budget Targets"
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <Target size={20} />
+          <h4 style={{ fontSize: '0.9rem', marginBottom: 0, opacity: 0.9 }}>MONTHLY TARGETS</h4>
+        </div>
+        <div style={{ fontSize: '2.5rem', fontWeight: 900, marginTop: '0.5rem' }}>
+          {formatMoney(total)}
+        </div>
+        <div style={{ marginTop: '0.5rem', fontSize: '0.8rem', fontWeight: 'bold', textDecoration: 'underline' }}>
+          MANAGE TARGETS ({Object.keys(limits).length})
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { useBudget } from '../context/BudgetContext';
+import type { CashAccount } from '../context/BudgetContext';
+import { Plus, Trash2, Edit2, X, Wallet } from 'lucide-react';
+import { cashAccountStats } from '../utils/balances';
+
+// How many recent ledger rows to show per account in the modal.
+const LEDGER_ROWS = 8;
+
+const formatMoney = (n: number) => `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const CashAccountModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const { cashAccounts, transactions, addCashAccount, editCashAccount, deleteCashAccount } = useBudget();
+
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [startBal, setStartBal] = useState('');
+    const [startDate, setStartDate] = useState(() => new Date().toISOString().split('T')[0]);
+    const [editingId, setEditingId] = useState<string | null>(null);
+
+    const resetForm = () => {
+        setName('');
+        setStartBal('');
+        setStartDate(new Date().toISOString().split('T')[0]);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name || !startBal || !startDate) return;
+
+        const payload = { name, startingBalance: parseFloat(startBal), startingDate: startDate };
+        if (editingId) {
+            editCashAccount(editingId, payload);
+            setEditingId(null);
+        } else {
+            addCashAccount(payload);
+        }
+
+        resetForm();
+        setIsFormOpen(false);
+    };
+
+    const startEdit = (c: CashAccount) => {
+        setEditingId(c.id);
+        setName(c.name);
+        setStartBal(c.startingBalance.toString());
+        setStartDate(c.startingDate);
+        setIsFormOpen(true);
+    };
+
+    return (
+        <div style={{
+            position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
+            background: 'rgba(0,0,0,0.8)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 999
+        }}>
+            <div className="neo-box" style={{ width: '90%', maxWidth: '600px', maxHeight: '90vh', overflowY: 'auto', background: 'var(--neo-white)' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '1rem', borderBottom: '4px solid black', paddingBottom: '1rem' }}>
+                    <h2 style={{ fontSize: '2rem', margin: 0 }}>CASH / CHECKING ACCOUNTS</h2>
+                    <button onClick={onClose} className="icon-btn"><X size={24} /></button>
+                </div>
+
+                {/* Add/Edit Form */}
+                <div style={{ marginBottom: '2rem' }}>
+                    {!isFormOpen ? (
+                        <button
+                            className="neo-btn"
+                            onClick={() => { setIsFormOpen(true); setEditingId(null); resetForm(); }}
+                            style={{ background: 'var(--neo-yellow)', width: '100%', justifyContent: 'center' }}
+                        >
+                            <Plus size={24} /> ADD NEW CASH ACCOUNT
+                        </button>
+                    ) : (
+                        <div className="neo-box" style={{ border: '4px solid black', background: '#f9f9f9' }}>
+                            <h4 style={{ marginTop: 0 }}>{editingId ? 'EDIT CASH ACCOUNT' : 'NEW CASH ACCOUNT'}</h4>
+                            <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '1rem' }}>
+                                <div>
+                                    <label style={{ fontWeight: 'bold' }}>ACCOUNT NAME</label>
+                                    <input
+                                        className="neo-input"
+                                        placeholder="e.g. Checking, Wallet Cash"
+                                        value={name} onChange={e => setName(e.target.value)}
+                                    />
+                                </div>
+                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                                    <div>
+                                        <label style={{ fontWeight: 'bold' }}>STARTING BALANCE ($)</label>
+                                        <input
+                                            className="neo-input"
+                                            type="number" step="0.01"
+                                            placeholder="0.00"
+                                            value={startBal} onChange={e => setStartBal(e.target.value)}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label style={{ fontWeight: 'bold' }}>AS OF</label>
+                                        <input
+                                            className="neo-input"
+                                            type="date"
+                                            value={startDate} onChange={e => setStartDate(e.target.value)}
+                                        />
+                                    </div>
+                                </div>
+                                <div style={{ display: 'flex', gap: '1rem' }}>
+                                    <button className="neo-btn pink" type="submit" style={{ flex: 1, justifyContent: 'center' }}>
+                                        {editingId ? 'UPDATE' : 'CREATE'}
+                                    </button>
+                                    <button className="neo-btn white" type="button" onClick={() => setIsFormOpen(false)} style={{ flex: 1, justifyContent: 'center' }}>
+                                        CANCEL
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    )}
+                </div>
+
+                {/* List */}
+                <div className="stack">
+                    {cashAccounts.map(c => {
+                        const stats = cashAccountStats(c, transactions);
+                        const recent = stats.ledger.slice(-LEDGER_ROWS).reverse();
+                        return (
+                            <div key={c.id} className="neo-box" style={{
+                                background: 'white',
+                                display: 'flex', flexDirection: 'column', gap: '0.5rem',
+                                position: 'relative', border: '3px solid black'
+                            }}>
+                                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                                    <h3 style={{ margin: 0 }}>{c.name}</h3>
+                                    <div style={{ display: 'flex', gap: '5px' }}>
+                                        <button onClick={() => startEdit(c)} className="icon-btn" title="Edit"><Edit2 size={16} /></button>
+                                        <button onClick={() => { if (confirm("Delete this cash account? Linked transactions are kept but unlinked.")) deleteCashAccount(c.id); }} className="icon-btn trash" title="Delete"><Trash2 size={16} /></button>
+                                    </div>
+                                </div>
+                                <div style={{ fontSize: '1.5rem', fontWeight: 900, color: stats.current < 0 ? 'red' : 'black' }}>
+                                    {formatMoney(stats.current)}
+                                </div>
+                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', fontSize: '0.85rem', gap: '0.5rem', opacity: 0.8 }}>
+                                    <div>Started: <b>{formatMoney(c.startingBalance)}</b> on {c.startingDate}</div>
+                                    <div>In: <b style={{ color: 'var(--neo-green)' }}>+{formatMoney(stats.inflows)}</b></div>
+                                    <div>Out: <b style={{ color: 'var(--neo-pink)' }}>-{formatMoney(stats.outflows)}</b></div>
+                                </div>
+                                {recent.length > 0 && (
+                                    <div className="ledger">
+                                        {recent.map(entry => (
+                                            <div key={entry.transaction.id} className="ledger-row">
+                                                <span style={{ opacity: 0.7 }}>{entry.transaction.date}</span>
+                                                <span className="ledger-desc">{entry.transaction.description}</span>
+                                                <span style={{ color: entry.delta < 0 ? 'var(--neo-pink)' : 'var(--neo-green)' }}>
+                                                    {entry.delta < 0 ? '-' : '+'}{formatMoney(Math.abs(entry.delta))}
+                                                </span>
+                                                <b>{formatMoney(entry.balance)}</b>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                    {cashAccounts.length === 0 && (
+                        <p style={{ textAlign: 'center', opacity: 0.5 }}>No cash accounts yet. Add your checking account to track its balance.</p>
+                    )}
+                </div>
+
+            </div>
+            <style>{`
+                .stack {
+                    display: grid;
+                    gap: 1rem;
+                }
+                .icon-btn {
+                    background: none; border: 2px solid black; padding: 4px; cursor: pointer;
+                    box-shadow: 2px 2px 0 black; transition: transform 0.1s;
+                }
+                .icon-btn:active { transform: translate(2px, 2px); box-shadow: none; }
+                .icon-btn.trash { color: red; border-color: red; box-shadow: 2px 2px 0 red; }
+                .ledger {
+                    border-top: 2px solid black;
+                    padding-top: 0.5rem;
+                    display: grid;
+                    gap: 0.25rem;
+                    font-size: 0.8rem;
+                }
+                .ledger-row {
+                    display: grid;
+                    grid-template-columns: 90px 1fr auto 100px;
+                    gap: 0.5rem;
+                    align-items: center;
+                    font-weight: 700;
+                }
+                .ledger-row b { text-align: right; }
+                .ledger-desc { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+            `}</style>
+        </div>
+    );
+};
+
+export const CashAccountsManager: React.FC = () => {
+    const { cashAccounts, transactions } = useBudget();
+    const [isModalOpen, setIsModalOpen] = useState(false);
+
+    const totalCash = cashAccounts.reduce((acc, c) => acc + cashAccountStats(c, transactions).current, 0);
+
+    return (
+        <>
+            {isModalOpen && <CashAccountModal onClose={() => setIsModalOpen(false)} />}
+
+            {/* Summary Card for Main Dashboard */}
+            <div className="neo-box" style={{ background: 'var(--neo-yellow)', color: 'black', display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', cursor: 'pointer', transition: 'transform 0.1s' }}
+                onClick={() => setIsModalOpen(true)}
+                title="Click to Manage Cash Accounts"
+            >
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    <Wallet size={20} />
+                    <h4 style={{ fontSize: '0.9rem', marginBottom: '0', opacity: 0.9 }}>CASH ON HAND</h4>
+                </div>
+                <div style={{ fontSize: '2.5rem', fontWeight: 900, marginTop: '0.5rem' }}>
+                    {formatMoney(totalCash)}
+                </div>
+                <div style={{ marginTop: '0.5rem', fontSize: '0.8rem', fontWeight: 'bold', textDecoration: 'underline' }}>
+                    MANAGE ACCOUNTS ({cashAccounts.length})
+                </div>
+            </div>
+        </>
+    );
+};
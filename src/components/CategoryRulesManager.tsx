@@ -0,0 +1,430 @@
+import React, { useMemo, useState } from 'react';
+import { useBudget } from '../context/BudgetContext';
+import type { CategoryRule, TransactionType } from '../context/BudgetContext';
+import { Wand2, Plus, Trash2, Edit2, X, ArrowUp, ArrowDown } from 'lucide-react';
+import { NeoSelect } from './NeoSelect';
+import { validateRulePattern } from '../utils/rules';
+
+const CATEGORIES = [
+  "Rent & Utilities",
+  "Food/Beverages/Groceries",
+  "Transportation/Gas",
+  "Personal Subscription",
+  "Business Subscription",
+  "Personal Purchase",
+  "Business Purchase",
+  "Entertainment/Fun",
+  "Interest / Fees",
+  "Health",
+  "Travel",
+  "Loan Payments",
+  "Donation",
+  "Coffee Shops",
+  "Transfer",
+  "Other",
+  "Uncategorized"
+];
+
+const TYPE_OPTIONS = [
+  { value: '', label: '-- Keep Type --' },
+  { value: 'expense', label: 'Expense' },
+  { value: 'income', label: 'Income' },
+  { value: 'debt-payment', label: 'Debt Payment' },
+  { value: 'debt-interest', label: 'Debt Interest' },
+  { value: 'debt-charge', label: 'Debt Charge' },
+  { value: 'asset-deposit', label: 'Asset Deposit' },
+  { value: 'asset-growth', label: 'Asset Growth' },
+  { value: 'transfer', label: 'Transfer' },
+];
+
+// Amounts and tags are edited as text and parsed on save.
+interface RuleForm {
+  enabled: boolean;
+  pattern: string;
+  isRegex: boolean;
+  minAmount: string;
+  maxAmount: string;
+  simplefinAccountId: string;
+  category: string;
+  type: string;
+  debtAccountId: string;
+  assetAccountId: string;
+  tags: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  enabled: true,
+  pattern: '',
+  isRegex: false,
+  minAmount: '',
+  maxAmount: '',
+  simplefinAccountId: '',
+  category: '',
+  type: '',
+  debtAccountId: '',
+  assetAccountId: '',
+  tags: '',
+};
+
+const describeRule = (r: CategoryRule, accountName: (id: string) => string) => {
+  const when: string[] = [];
+  if (r.pattern) when.push(r.isRegex ? `matches /${r.pattern}/` : `contains "${r.pattern}"`);
+  if (r.minAmount != null || r.maxAmount != null) when.push(`$${r.minAmount ?? 0}–${r.maxAmount != null ? `$${r.maxAmount}` : '∞'}`);
+  if (r.simplefinAccountId) when.push(`from ${accountName(r.simplefinAccountId)}`);
+
+  const then: string[] = [];
+  if (r.category) then.push(r.category);
+  if (r.type) then.push(r.type.toUpperCase());
+  if (r.debtAccountId || r.assetAccountId) then.push('link account');
+  if (r.tags && r.tags.length > 0) then.push(r.tags.map(t => `#${t}`).join(' '));
+
+  return { when: when.join(' · ') || 'never', then: then.join(' · ') || 'nothing' };
+};
+
+const CategoryRulesModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const {
+    categoryRules,
+    addCategoryRule,
+    editCategoryRule,
+    deleteCategoryRule,
+    moveCategoryRule,
+    applyCategoryRulesToExisting,
+    debts,
+    assets,
+    getSimplefinAccounts,
+  } = useBudget();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+
+  const simplefinAccounts = getSimplefinAccounts();
+  const accountName = (id: string) => simplefinAccounts.find(a => a.id === id)?.name || id;
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const startEdit = (r: CategoryRule) => {
+    setEditingId(r.id);
+    setForm({
+      enabled: r.enabled,
+      pattern: r.pattern,
+      isRegex: r.isRegex,
+      minAmount: r.minAmount != null ? String(r.minAmount) : '',
+      maxAmount: r.maxAmount != null ? String(r.maxAmount) : '',
+      simplefinAccountId: r.simplefinAccountId || '',
+      category: r.category || '',
+      type: r.type || '',
+      debtAccountId: r.debtAccountId || '',
+      assetAccountId: r.assetAccountId || '',
+      tags: (r.tags || []).join(', '),
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const minAmount = form.minAmount.trim() ? Number(form.minAmount) : undefined;
+    const maxAmount = form.maxAmount.trim() ? Number(form.maxAmount) : undefined;
+
+    if (!form.pattern.trim() && minAmount == null && maxAmount == null && !form.simplefinAccountId) {
+      alert("Add at least one condition (description, amount or account).");
+      return;
+    }
+    const patternError = validateRulePattern(form.pattern, form.isRegex);
+    if (patternError) {
+      alert("Invalid pattern: " + patternError);
+      return;
+    }
+    if ((minAmount != null && !Number.isFinite(minAmount)) || (maxAmount != null && !Number.isFinite(maxAmount))) {
+      alert("Amounts must be numbers.");
+      return;
+    }
+
+    const tags = form.tags.split(',').map(t => t.trim().replace(/^#/, '')).filter(Boolean);
+    const payload: Omit<CategoryRule, 'id'> = {
+      enabled: form.enabled,
+      pattern: form.pattern.trim(),
+      isRegex: form.isRegex,
+      minAmount,
+      maxAmount,
+      simplefinAccountId: form.simplefinAccountId || undefined,
+      category: form.category || undefined,
+      type: (form.type as TransactionType) || undefined,
+      debtAccountId: form.debtAccountId || undefined,
+      assetAccountId: form.assetAccountId || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+    };
+
+    if (editingId) editCategoryRule(editingId, payload);
+    else addCategoryRule(payload);
+
+    setIsFormOpen(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleApplyExisting = () => {
+    if (!confirm("Re-run all rules over existing transactions? Matching transactions will be overwritten.")) return;
+    const r = applyCategoryRulesToExisting();
+    alert(`Updated ${r.updated} transactions.`);
+  };
+
+  return (
+    <div style={{
+      position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
+      background: 'rgba(0,0,0,0.8)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 999
+    }}>
+      <div className="neo-box" style={{ width: '90%', maxWidth: '750px', maxHeight: '90vh', overflowY: 'auto', background: 'var(--neo-white)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '1rem', borderBottom: '4px solid black', paddingBottom: '1rem' }}>
+          <h2 style={{ fontSize: '2rem', margin: 0 }}>AUTO-CATEGORIZE RULES</h2>
+          <button onClick={onClose} className="icon-btn"><X size={24} /></button>
+        </div>
+        <p style={{ marginTop: 0, opacity: 0.8, fontWeight: 700 }}>
+          Rules run top to bottom on SimpleFIN sync, CSV import and AI import. The first match wins.
+        </p>
+
+        <div style={{ marginBottom: '1.5rem', display: 'grid', gap: '0.75rem' }}>
+          {!isFormOpen ? (
+            <>
+              <button className="neo-btn" onClick={openCreate} style={{ width: '100%', justifyContent: 'center', background: 'var(--neo-yellow)' }}>
+                <Plus size={22} /> ADD RULE
+              </button>
+              <button className="neo-btn white" onClick={handleApplyExisting} style={{ width: '100%', justifyContent: 'center' }}>
+                <Wand2 size={18} /> APPLY TO EXISTING TRANSACTIONS
+              </button>
+            </>
+          ) : (
+            <div className="neo-box" style={{ border: '4px solid black', background: '#f9f9f9' }}>
+              <h4 style={{ marginTop: 0 }}>{editingId ? 'EDIT RULE' : 'NEW RULE'}</h4>
+              <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '1rem' }}>
+                <div>
+                  <label style={{ fontWeight: 'bold' }}>DESCRIPTION {form.isRegex ? 'MATCHES (REGEX)' : 'CONTAINS'}</label>
+                  <input
+                    className="neo-input"
+                    placeholder={form.isRegex ? 'e.g. uber( eats)?|lyft' : 'e.g. wegmans'}
+                    value={form.pattern}
+                    onChange={e => setForm(prev => ({ ...prev, pattern: e.target.value }))}
+                  />
+                  <label style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', fontWeight: 700, marginTop: '0.5rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={form.isRegex}
+                      onChange={e => setForm(prev => ({ ...prev, isRegex: e.target.checked }))}
+                    />
+                    Regular expression
+                  </label>
+                </div>
+
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>MIN AMOUNT ($)</label>
+                    <input
+                      className="neo-input"
+                      type="number"
+                      step="0.01"
+                      placeholder="any"
+                      value={form.minAmount}
+                      onChange={e => setForm(prev => ({ ...prev, minAmount: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>MAX AMOUNT ($)</label>
+                    <input
+                      className="neo-input"
+                      type="number"
+                      step="0.01"
+                      placeholder="any"
+                      value={form.maxAmount}
+                      onChange={e => setForm(prev => ({ ...prev, maxAmount: e.target.value }))}
+                    />
+                  </div>
+                </div>
+
+                {simplefinAccounts.length > 0 && (
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>SIMPLEFIN ACCOUNT</label>
+                    <NeoSelect
+                      className="neo-select"
+                      value={form.simplefinAccountId}
+                      onChange={(v) => setForm(prev => ({ ...prev, simplefinAccountId: v }))}
+                      options={[
+                        { value: '', label: '-- Any Account --' },
+                        ...simplefinAccounts.map(a => ({ value: a.id, label: a.name })),
+                      ]}
+                    />
+                  </div>
+                )}
+
+                <div style={{ borderTop: '3px solid black', paddingTop: '1rem', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>SET CATEGORY</label>
+                    <NeoSelect
+                      className="neo-select"
+                      value={form.category}
+                      onChange={(v) => setForm(prev => ({ ...prev, category: v }))}
+                      options={[
+                        { value: '', label: '-- Keep Category --' },
+                        ...CATEGORIES.map(c => ({ value: c, label: c })),
+                      ]}
+                    />
+                  </div>
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>SET TYPE</label>
+                    <NeoSelect
+                      className="neo-select"
+                      value={form.type}
+                      onChange={(v) => setForm(prev => ({ ...prev, type: v }))}
+                      options={TYPE_OPTIONS}
+                    />
+                  </div>
+                </div>
+
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>LINK DEBT</label>
+                    <NeoSelect
+                      className="neo-select"
+                      value={form.debtAccountId}
+                      onChange={(v) => setForm(prev => ({ ...prev, debtAccountId: v }))}
+                      options={[
+                        { value: '', label: '-- None --' },
+                        ...debts.map(d => ({ value: d.id, label: d.name })),
+                      ]}
+                    />
+                  </div>
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>LINK ASSET</label>
+                    <NeoSelect
+                      className="neo-select"
+                      value={form.assetAccountId}
+                      onChange={(v) => setForm(prev => ({ ...prev, assetAccountId: v }))}
+                      options={[
+                        { value: '', label: '-- None --' },
+                        ...assets.map(a => ({ value: a.id, label: a.name })),
+                      ]}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label style={{ fontWeight: 'bold' }}>ADD TAGS (COMMA SEPARATED)</label>
+                  <input
+                    className="neo-input"
+                    placeholder="e.g. work, reimbursable"
+                    value={form.tags}
+                    onChange={e => setForm(prev => ({ ...prev, tags: e.target.value }))}
+                  />
+                </div>
+
+                <label style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', fontWeight: 900 }}>
+                  <input
+                    type="checkbox"
+                    checked={form.enabled}
+                    onChange={e => setForm(prev => ({ ...prev, enabled: e.target.checked }))}
+                  />
+                  ENABLED
+                </label>
+
+                <div style={{ display: 'flex', gap: '1rem' }}>
+                  <button className="neo-btn pink" type="submit" style={{ flex: 1, justifyContent: 'center' }}>
+                    {editingId ? 'UPDATE RULE' : 'CREATE RULE'}
+                  </button>
+                  <button
+                    className="neo-btn white"
+                    type="button"
+                    onClick={() => { setIsFormOpen(false); setEditingId(null); setForm(EMPTY_FORM); }}
+                    style={{ flex: 1, justifyContent: 'center' }}
+                  >
+                    CANCEL
+                  </button>
+                </div>
+              </form>
+            </div>
+          )}
+        </div>
+
+        <div className="rules-stack">
+          {categoryRules.map((r, idx) => {
+            const summary = describeRule(r, accountName);
+            return (
+              <div key={r.id} className="neo-box" style={{ background: 'white', border: '3px solid black', opacity: r.enabled ? 1 : 0.5 }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', alignItems: 'center' }}>
+                  <div style={{ minWidth: 0 }}>
+                    <div style={{ fontWeight: 900, fontSize: '1rem', wordBreak: 'break-word' }}>{idx + 1}. When {summary.when}</div>
+                    <div style={{ opacity: 0.75, fontWeight: 700, marginTop: '0.25rem' }}>→ {summary.then}</div>
+                  </div>
+                  <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                    <button onClick={() => moveCategoryRule(r.id, -1)} className="icon-btn" title="Move up" disabled={idx === 0}><ArrowUp size={16} /></button>
+                    <button onClick={() => moveCategoryRule(r.id, 1)} className="icon-btn" title="Move down" disabled={idx === categoryRules.length - 1}><ArrowDown size={16} /></button>
+                    <button onClick={() => startEdit(r)} className="icon-btn" title="Edit"><Edit2 size={16} /></button>
+                    <button onClick={() => { if (confirm("Delete this rule?")) deleteCategoryRule(r.id); }} className="icon-btn trash" title="Delete"><Trash2 size={16} /></button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          {categoryRules.length === 0 && (
+            <p style={{ textAlign: 'center', opacity: 0.6, fontWeight: 700 }}>No rules yet. Imported transactions keep whatever category they arrive with.</p>
+          )}
+        </div>
+
+        <style>{`
+          .rules-stack {
+            display: grid;
+            gap: 1rem;
+          }
+          .icon-btn {
+            background: none; border: 2px solid black; padding: 4px; cursor: pointer;
+            box-shadow: 2px 2px 0 black; transition: transform 0.1s;
+          }
+          .icon-btn:active { transform: translate(2px, 2px); box-shadow: none; }
+          .icon-btn:disabled { opacity: 0.3; cursor: default; }
+          .icon-btn.trash { color: red; border-color: red; box-shadow: 2px 2px 0 red; }
+        `}</style>
+      </div>
+    </div>
+  );
+};
+
+export const CategoryRulesManager: React.FC = () => {
+  const { categoryRules } = useBudget();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const enabledCount = useMemo(() => categoryRules.filter(r => r.enabled).length, [categoryRules]);
+
+  return (
+    <>
+      {isModalOpen && <CategoryRulesModal onClose={() => setIsModalOpen(false)} />}
+
+      <div
+        className="neo-box"
+        style={{
+          background: 'var(--neo-white)',
+          color: 'black',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          cursor: 'pointer'
+        }}
+        onClick={() => setIsModalOpen(true)}
+        title="Click to Manage Categorization Rules"
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <Wand2 size={20} />
+          <h4 style={{ fontSize: '0.9rem', marginBottom: 0, opacity: 0.9 }}>AUTO-CATEGORIZE</h4>
+        </div>
+        <div style={{ fontSize: '2.5rem', fontWeight: 900, marginTop: '0.5rem' }}>
+          {enabledCount}/{categoryRules.length}
+        </div>
+        <div style={{ marginTop: '0.5rem', fontSize: '0.8rem', fontWeight: 'bold', textDecoration: 'underline' }}>
+          MANAGE RULES
+        </div>
+      </div>
+    </>
+  );
+};
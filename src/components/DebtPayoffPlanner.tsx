@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { useBudget } from '../context/BudgetContext';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import { addMonths, format } from 'date-fns';
+import { NeoSelect } from './NeoSelect';
+import { debtStats } from '../utils/balances';
+import { scheduledLoanPayment } from '../utils/amortization';
+import { payoffOrder, simulatePayoff } from '../utils/payoff';
+import type { PayoffDebt, PayoffStrategy } from '../utils/payoff';
+
+const LINE_COLORS = ['#ff6b6b', '#4d96ff', '#6bcb77', '#ffd93d', '#b15eff', '#ff9f45', '#00c2cb', '#ff5fa2'];
+
+const STRATEGY_LABELS: Record<PayoffStrategy, string> = {
+  avalanche: 'Avalanche (highest APR first)',
+  snowball: 'Snowball (smallest balance first)',
+  custom: 'Custom order',
+};
+
+const formatMoney = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Compares payoff strategies for the current debt balances, using each
+ * account's APR and minimum payment plus an extra monthly amount.
+ */
+export const DebtPayoffPlanner: React.FC = () => {
+  const { debts, transactions } = useBudget();
+  const [extra, setExtra] = useState('');
+  const [strategy, setStrategy] = useState<PayoffStrategy>('avalanche');
+  const [customOrder, setCustomOrder] = useState<string[]>([]);
+  const [startMonth] = useState(() => new Date());
+
+  const payoffDebts: PayoffDebt[] = useMemo(() => debts.map(d => ({
+    id: d.id,
+    name: d.name,
+    balance: debtStats(d, transactions).current,
+    apr: d.apr || 0,
+    minimumPayment: d.minimumPayment || scheduledLoanPayment(d) || 0,
+  })).filter(d => d.balance > 0), [debts, transactions]);
+
+  const extraMonthly = Math.max(0, Number(extra) || 0);
+  const order = useMemo(
+    () => customOrder.length ? customOrder : payoffOrder(payoffDebts, 'avalanche').map(d => d.id),
+    [customOrder, payoffDebts]
+  );
+
+  const results = useMemo(() => ({
+    avalanche: simulatePayoff(payoffDebts, extraMonthly, 'avalanche'),
+    snowball: simulatePayoff(payoffDebts, extraMonthly, 'snowball'),
+    custom: simulatePayoff(payoffDebts, extraMonthly, 'custom', order),
+  }), [payoffDebts, extraMonthly, order]);
+
+  const selected = results[strategy];
+  const monthLabel = (i: number) => format(addMonths(startMonth, i), 'MMM yyyy');
+
+  const chartData = selected.timeline.map((balances, i) => {
+    const row: Record<string, number | string> = { name: format(addMonths(startMonth, i), 'MMM yy') };
+    for (const d of payoffDebts) row[d.name] = Math.round((balances[d.id] ?? 0) * 100) / 100;
+    return row;
+  });
+
+  const move = (id: string, direction: -1 | 1) => {
+    const next = [...order];
+    const i = next.indexOf(id);
+    const j = i + direction;
+    if (i === -1 || j < 0 || j >= next.length) return;
+    [next[i], next[j]] = [next[j], next[i]];
+    setCustomOrder(next);
+  };
+
+  if (payoffDebts.length === 0) return null;
+
+  const missing = debts.filter(d => payoffDebts.some(p => p.id === d.id) && (!d.apr || !(d.minimumPayment || d.loan)));
+
+  return (
+    <div className="neo-box" style={{ border: '3px solid black', background: '#f9f9f9', marginTop: '2rem' }}>
+      <h3 style={{ marginTop: 0 }}>PAYOFF PLANNER</h3>
+
+      {missing.length > 0 && (
+        <p style={{ fontWeight: 700, color: 'var(--neo-pink)', marginTop: 0 }}>
+          Set an APR and minimum payment for {missing.map(d => d.name).join(', ')} for an accurate plan.
+        </p>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem', marginBottom: '1rem' }}>
+        <div>
+          <label style={{ fontWeight: 'bold' }}>EXTRA PER MONTH ($)</label>
+          <input className="neo-input" type="number" step="0.01" min={0} placeholder="0.00" value={extra} onChange={e => setExtra(e.target.value)} />
+        </div>
+        <div>
+          <label style={{ fontWeight: 'bold' }}>STRATEGY</label>
+          <NeoSelect
+            className="neo-select"
+            value={strategy}
+            onChange={v => setStrategy(v as PayoffStrategy)}
+            options={(Object.keys(STRATEGY_LABELS) as PayoffStrategy[]).map(s => ({ value: s, label: STRATEGY_LABELS[s] }))}
+          />
+        </div>
+      </div>
+
+      <div className="payoff-compare">
+        {(Object.keys(STRATEGY_LABELS) as PayoffStrategy[]).map(s => (
+          <div
+            key={s}
+            className="payoff-option"
+            style={{ background: s === strategy ? 'var(--neo-yellow)' : 'white' }}
+            onClick={() => setStrategy(s)}
+          >
+            <div style={{ fontWeight: 900, textTransform: 'uppercase' }}>{s}</div>
+            <div>Debt-free: <b>{results[s].paidOff ? monthLabel(results[s].months) : 'NEVER'}</b></div>
+            <div>Interest: <b>{formatMoney(results[s].totalInterest)}</b></div>
+          </div>
+        ))}
+      </div>
+
+      {!selected.paidOff && (
+        <p style={{ fontWeight: 900, color: 'red' }}>
+          These payments don't keep up with interest. Raise the extra amount or minimum payments.
+        </p>
+      )}
+
+      {strategy === 'custom' && (
+        <div style={{ display: 'grid', gap: '0.4rem', marginBottom: '1rem' }}>
+          {order.map((id, i) => {
+            const d = payoffDebts.find(p => p.id === id);
+            if (!d) return null;
+            return (
+              <div key={id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontWeight: 700 }}>
+                <span style={{ flex: 1 }}>{i + 1}. {d.name}</span>
+                <button className="icon-btn" title="Pay earlier" onClick={() => move(id, -1)}><ArrowUp size={14} /></button>
+                <button className="icon-btn" title="Pay later" onClick={() => move(id, 1)}><ArrowDown size={14} /></button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div style={{ display: 'grid', gap: '0.25rem', marginBottom: '1rem', fontSize: '0.85rem', fontWeight: 700 }}>
+        {payoffOrder(payoffDebts, strategy, order).map(d => (
+          <div key={d.id} style={{ display: 'flex', justifyContent: 'space-between' }}>
+            <span>{d.name}</span>
+            <span>
+              {selected.payoffMonth[d.id] ? `Paid off ${monthLabel(selected.payoffMonth[d.id])}` : 'Not paid off'}
+              {' · '}{formatMoney(selected.interestByDebt[d.id] || 0)} interest
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ width: '100%', height: 260 }}>
+        <ResponsiveContainer>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#ccc" vertical={false} />
+            <XAxis dataKey="name" stroke="#000" tick={{ fill: 'black', fontWeight: 'bold', fontSize: '12px' }} axisLine={{ strokeWidth: 3 }} />
+            <YAxis stroke="#000" tick={{ fill: 'black', fontWeight: 'bold', fontSize: '12px' }} axisLine={{ strokeWidth: 3 }} />
+            <Tooltip
+              contentStyle={{
+                border: '3px solid black',
+                borderRadius: '0px',
+                boxShadow: '4px 4px 0px #000',
+                fontWeight: 'bold'
+              }}
+            />
+            <Legend />
+            {payoffDebts.map((d, i) => (
+              <Line key={d.id} dataKey={d.name} stroke={LINE_COLORS[i % LINE_COLORS.length]} strokeWidth={3} dot={false} type="monotone" />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <style>{`
+        .payoff-compare {
+          display: grid;
+          grid-template-columns: repeat(3, 1fr);
+          gap: 0.75rem;
+          margin-bottom: 1rem;
+        }
+        .payoff-option {
+          border: 3px solid black;
+          box-shadow: 3px 3px 0 black;
+          padding: 0.6rem;
+          cursor: pointer;
+          font-size: 0.85rem;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -1,6 +1,14 @@
 import React, { useState } from 'react';
 import { useBudget } from '../context/BudgetContext';
 import { Plus, Trash2, Edit2, X } from 'lucide-react';
+import type { DebtAccount } from '../context/BudgetContext';
+import { debtInterestSince, debtStats } from '../utils/balances';
+import { DebtPayoffPlanner } from './DebtPayoffPlanner';
+import { LoanSchedule } from './LoanSchedule';
+import { creditCardStatus, isCreditCard, overallUtilization } from '../utils/credit';
+import { format, parseISO } from 'date-fns';
+
+const formatPct = (n: number) => `${(n * 100).toFixed(0)}%`;
 
 const DebtModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     const { debts, transactions, addDebt, editDebt, deleteDebt } = useBudget();
@@ -10,63 +18,110 @@ const DebtModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     const [name, setName] = useState('');
     const [startBal, setStartBal] = useState('');
     const [editingId, setEditingId] = useState<string | null>(null);
+    const [apr, setApr] = useState('');
+    const [minPayment, setMinPayment] = useState('');
+    const [dueDay, setDueDay] = useState('');
+    const [creditLimit, setCreditLimit] = useState('');
+    const [closingDay, setClosingDay] = useState('');
+    const [isLoan, setIsLoan] = useState(false);
+    const [principal, setPrincipal] = useState('');
+    const [termMonths, setTermMonths] = useState('');
+    const [loanStart, setLoanStart] = useState('');
+    const [today] = useState(() => new Date().toISOString().slice(0, 10));
+
+    const resetForm = () => {
+        setName('');
+        setStartBal('');
+        setApr('');
+        setMinPayment('');
+        setDueDay('');
+        setCreditLimit('');
+        setClosingDay('');
+        setIsLoan(false);
+        setPrincipal('');
+        setTermMonths('');
+        setLoanStart('');
+    };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (!name || !startBal) return;
 
+        const day = dueDay ? parseInt(dueDay, 10) : undefined;
+        const closes = closingDay ? parseInt(closingDay, 10) : undefined;
+        const isDay = (n: number | undefined) => n === undefined || (Number.isInteger(n) && n >= 1 && n <= 31);
+        if (!isDay(day) || !isDay(closes)) {
+            alert("Due and statement closing days must be between 1 and 31.");
+            return;
+        }
+        let loan: DebtAccount['loan'];
+        if (isLoan) {
+            const term = parseInt(termMonths, 10);
+            const amount = principal ? parseFloat(principal) : parseFloat(startBal);
+            if (!apr || !Number.isInteger(term) || term <= 0 || !loanStart || !(amount > 0)) {
+                alert("An amortizing loan needs an APR, the original principal, a term in months and the first payment date.");
+                return;
+            }
+            loan = { principal: amount, termMonths: term, startDate: loanStart };
+        }
+        const fields = {
+            name,
+            startingBalance: parseFloat(startBal),
+            apr: apr ? parseFloat(apr) : undefined,
+            minimumPayment: minPayment ? parseFloat(minPayment) : undefined,
+            dueDay: day,
+            creditLimit: creditLimit ? parseFloat(creditLimit) : undefined,
+            statementClosingDay: closes,
+            loan,
+        };
+
         if (editingId) {
-            editDebt(editingId, { name, startingBalance: parseFloat(startBal) });
+            editDebt(editingId, { ...debts.find(d => d.id === editingId), ...fields });
             setEditingId(null);
         } else {
-            addDebt({ name, startingBalance: parseFloat(startBal) });
+            addDebt(fields);
         }
 
-        setName('');
-        setStartBal('');
+        resetForm();
         setIsFormOpen(false);
     };
 
-    const startEdit = (d: { id: string, name: string, startingBalance: number }) => {
+    const startEdit = (d: DebtAccount) => {
         setEditingId(d.id);
         setName(d.name);
         setStartBal(d.startingBalance.toString());
+        setApr(d.apr != null ? d.apr.toString() : '');
+        setMinPayment(d.minimumPayment != null ? d.minimumPayment.toString() : '');
+        setDueDay(d.dueDay != null ? d.dueDay.toString() : '');
+        setCreditLimit(d.creditLimit != null ? d.creditLimit.toString() : '');
+        setClosingDay(d.statementClosingDay != null ? d.statementClosingDay.toString() : '');
+        setIsLoan(!!d.loan);
+        setPrincipal(d.loan ? d.loan.principal.toString() : '');
+        setTermMonths(d.loan ? d.loan.termMonths.toString() : '');
+        setLoanStart(d.loan?.startDate || '');
         setIsFormOpen(true);
     };
 
     // Calculation Logic
-    const getDebtStats = (debtId: string, initial: number) => {
-        const debtTx = transactions.filter(t => t.debtAccountId === debtId);
-
-        const payments = debtTx
-            .filter(t => t.type === 'debt-payment' || (t.type as string) === 'debt')
-            .reduce((sum, t) => sum + t.amount, 0);
-
-        const charges = debtTx
-            .filter(t => (t.type as string) === 'debt-charge')
-            .reduce((sum, t) => sum + t.amount, 0);
-
-        const interest = debtTx
-            .filter(t => t.type === 'debt-interest')
-            .reduce((sum, t) => sum + t.amount, 0);
-
-        const current = initial + charges - payments + interest;
+    const getDebtStats = (debt: DebtAccount) => {
+        const { current, payments, charges, interest } = debtStats(debt, transactions);
 
         const cutoff = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
-        const interest30 = debtTx
-            .filter(t => t.type === 'debt-interest' && t.date >= cutoff)
-            .reduce((sum, t) => sum + t.amount, 0);
+        const interest30 = debtInterestSince(debt, transactions, cutoff);
         const aprPct = (current > 0 && interest30 > 0) ? (interest30 / current) * 12 * 100 : null;
 
         return { current, payments, charges, interest, interest30, aprPct };
     };
 
+    const cardStatuses = new Map(debts.filter(isCreditCard).map(d => [d.id, creditCardStatus(d, transactions, today)]));
+    const totalUtilization = overallUtilization([...cardStatuses.values()]);
+
     return (
         <div style={{
             position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
             background: 'rgba(0,0,0,0.8)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 999
         }}>
-            <div className="neo-box" style={{ width: '90%', maxWidth: '600px', maxHeight: '90vh', overflowY: 'auto', background: 'var(--neo-white)' }}>
+            <div className="neo-box" style={{ width: '90%', maxWidth: '750px', maxHeight: '90vh', overflowY: 'auto', background: 'var(--neo-white)' }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '1rem', borderBottom: '4px solid black', paddingBottom: '1rem' }}>
                     <h2 style={{ fontSize: '2rem', margin: 0 }}>DEBT ACCOUNTS</h2>
                     <button onClick={onClose} className="icon-btn"><X size={24} /></button>
@@ -77,7 +132,7 @@ const DebtModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                     {!isFormOpen ? (
                         <button
                             className="neo-btn"
-                            onClick={() => { setIsFormOpen(true); setEditingId(null); setName(''); setStartBal(''); }}
+                            onClick={() => { setIsFormOpen(true); setEditingId(null); resetForm(); }}
                             style={{ background: 'var(--neo-yellow)', width: '100%', justifyContent: 'center' }}
                         >
                             <Plus size={24} /> ADD NEW DEBT ACCOUNT
@@ -103,6 +158,91 @@ const DebtModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                                         value={startBal} onChange={e => setStartBal(e.target.value)}
                                     />
                                 </div>
+                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '1rem' }}>
+                                    <div>
+                                        <label style={{ fontWeight: 'bold' }}>APR (%)</label>
+                                        <input
+                                            className="neo-input"
+                                            type="number" step="0.01" min={0}
+                                            placeholder="e.g. 19.99"
+                                            value={apr} onChange={e => setApr(e.target.value)}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label style={{ fontWeight: 'bold' }}>MIN PAYMENT ($)</label>
+                                        <input
+                                            className="neo-input"
+                                            type="number" step="0.01" min={0}
+                                            placeholder="0.00"
+                                            value={minPayment} onChange={e => setMinPayment(e.target.value)}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label style={{ fontWeight: 'bold' }}>DUE DAY</label>
+                                        <input
+                                            className="neo-input"
+                                            type="number" min={1} max={31}
+                                            placeholder="1-31"
+                                            value={dueDay} onChange={e => setDueDay(e.target.value)}
+                                        />
+                                    </div>
+                                </div>
+                                {!isLoan && (
+                                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                                        <div>
+                                            <label style={{ fontWeight: 'bold' }}>CREDIT LIMIT ($)</label>
+                                            <input
+                                                className="neo-input"
+                                                type="number" step="0.01" min={0}
+                                                placeholder="Cards only"
+                                                value={creditLimit} onChange={e => setCreditLimit(e.target.value)}
+                                            />
+                                        </div>
+                                        <div>
+                                            <label style={{ fontWeight: 'bold' }}>STATEMENT CLOSES (DAY)</label>
+                                            <input
+                                                className="neo-input"
+                                                type="number" min={1} max={31}
+                                                placeholder="1-31"
+                                                value={closingDay} onChange={e => setClosingDay(e.target.value)}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+                                <label style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', fontWeight: 'bold' }}>
+                                    <input type="checkbox" checked={isLoan} onChange={e => setIsLoan(e.target.checked)} />
+                                    AMORTIZING LOAN (INTEREST IS TAKEN OUT OF EACH PAYMENT)
+                                </label>
+                                {isLoan && (
+                                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '1rem' }}>
+                                        <div>
+                                            <label style={{ fontWeight: 'bold' }}>PRINCIPAL ($)</label>
+                                            <input
+                                                className="neo-input"
+                                                type="number" step="0.01" min={0}
+                                                placeholder={startBal || '0.00'}
+                                                value={principal} onChange={e => setPrincipal(e.target.value)}
+                                            />
+                                        </div>
+                                        <div>
+                                            <label style={{ fontWeight: 'bold' }}>TERM (MONTHS)</label>
+                                            <input
+                                                className="neo-input"
+                                                type="number" min={1}
+                                                placeholder="e.g. 60"
+                                                value={termMonths} onChange={e => setTermMonths(e.target.value)}
+                                            />
+                                        </div>
+                                        <div>
+                                            <label style={{ fontWeight: 'bold' }}>FIRST PAYMENT</label>
+                                            <input
+                                                className="neo-input"
+                                                type="date"
+                                                value={loanStart} onChange={e => setLoanStart(e.target.value)}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
                                 <div style={{ display: 'flex', gap: '1rem' }}>
                                     <button className="neo-btn pink" type="submit" style={{ flex: 1, justifyContent: 'center' }}>
                                         {editingId ? 'UPDATE' : 'CREATE'}
@@ -116,11 +256,18 @@ const DebtModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                     )}
                 </div>
 
+                {totalUtilization !== undefined && (
+                    <div style={{ fontWeight: 900, marginBottom: '1rem' }}>
+                        OVERALL CARD UTILIZATION: <span style={{ color: totalUtilization > 0.3 ? 'var(--neo-pink)' : 'black' }}>{formatPct(totalUtilization)}</span>
+                    </div>
+                )}
+
                 {/* List */}
                 <div className="debts-stack">
                     {debts.map(d => {
-                        const stats = getDebtStats(d.id, d.startingBalance);
+                        const stats = getDebtStats(d);
                         const isPaidOff = stats.current <= 0;
+                        const card = cardStatuses.get(d.id);
                         return (
                             <div key={d.id} className="neo-box" style={{
                                 background: isPaidOff ? '#e6fff2' : 'white',
@@ -139,12 +286,50 @@ const DebtModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                                 </div>
                                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', fontSize: '0.85rem', gap: '0.5rem', opacity: 0.8 }}>
                                     <div>Started: <b>${d.startingBalance.toLocaleString()}</b></div>
-                                    <div>Interest: <b style={{ color: 'var(--neo-pink)' }}>+${stats.interest.toLocaleString()}</b></div>
+                                    <div>Interest{d.loan ? ' (accrued)' : ''}: <b style={{ color: 'var(--neo-pink)' }}>+${stats.interest.toLocaleString(undefined, { maximumFractionDigits: 2 })}</b></div>
                                     <div>Payments: <b style={{ color: 'var(--neo-green)' }}>-${stats.payments.toLocaleString()}</b></div>
                                     <div>Charges: <b style={{ color: 'var(--neo-pink)' }}>+${stats.charges.toLocaleString()}</b></div>
                                     <div>Interest (30d): <b style={{ color: 'var(--neo-pink)' }}>+${stats.interest30.toLocaleString()}</b></div>
-                                    <div>Est APR: <b>{stats.aprPct == null ? '—' : `${stats.aprPct.toFixed(1)}%`}</b></div>
+                                    <div>
+                                        {d.apr != null
+                                            ? <>APR: <b>{d.apr.toFixed(2)}%</b></>
+                                            : <>Est APR: <b>{stats.aprPct == null ? '—' : `${stats.aprPct.toFixed(1)}%`}</b></>}
+                                    </div>
+                                    {d.minimumPayment != null && (
+                                        <div>Min payment: <b>${d.minimumPayment.toLocaleString(undefined, { minimumFractionDigits: 2 })}</b></div>
+                                    )}
+                                    {d.dueDay != null && (
+                                        <div>Due: <b>day {d.dueDay}</b></div>
+                                    )}
                                 </div>
+                                {card && (
+                                    <div style={{ borderTop: '2px solid black', paddingTop: '0.5rem', display: 'grid', gap: '0.4rem', fontSize: '0.85rem' }}>
+                                        {card.utilization !== undefined && (
+                                            <>
+                                                <div style={{ display: 'flex', justifyContent: 'space-between', fontWeight: 700 }}>
+                                                    <span>Utilization: <b>{formatPct(card.utilization)}</b> of ${card.limit?.toLocaleString()}</span>
+                                                    <span>Available: <b>${(card.available || 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}</b></span>
+                                                </div>
+                                                <div className="util-bar">
+                                                    <div style={{ width: `${Math.min(100, card.utilization * 100)}%`, background: card.utilization > 0.3 ? 'var(--neo-pink)' : 'var(--neo-green)' }} />
+                                                </div>
+                                            </>
+                                        )}
+                                        {card.cycleStart && card.cycleEnd && (
+                                            <div>
+                                                This cycle ({format(parseISO(card.cycleStart), 'MMM d')} – {format(parseISO(card.cycleEnd), 'MMM d')}):{' '}
+                                                <b>${card.cycleCharges.toLocaleString(undefined, { minimumFractionDigits: 2 })}</b> in charges
+                                            </div>
+                                        )}
+                                        {card.dueDate && (
+                                            <div>Next payment due: <b>{format(parseISO(card.dueDate), 'MMM d')}</b> ({card.daysUntilDue} days)</div>
+                                        )}
+                                        {card.warnings.map(w => (
+                                            <div key={w} style={{ fontWeight: 900, color: 'red' }}>⚠ {w.toUpperCase()}</div>
+                                        ))}
+                                    </div>
+                                )}
+                                {d.loan && <LoanSchedule debt={d} today={today} />}
                             </div>
                         );
                     })}
@@ -153,12 +338,22 @@ const DebtModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                     )}
                 </div>
 
+                <DebtPayoffPlanner />
+
             </div>
             <style>{`
                 .debts-stack {
                     display: grid;
                     gap: 1rem;
                 }
+                .util-bar {
+                    height: 12px;
+                    border: 3px solid black;
+                    background: #f0f0f0;
+                }
+                .util-bar div {
+                    height: 100%;
+                }
                 .icon-btn {
                     background: none; border: 2px solid black; padding: 4px; cursor: pointer;
                     box-shadow: 2px 2px 0 black; transition: transform 0.1s;
@@ -173,16 +368,11 @@ const DebtModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
 export const DebtsManager: React.FC = () => {
     const { debts, transactions } = useBudget();
     const [isModalOpen, setIsModalOpen] = useState(false);
+    const [today] = useState(() => new Date().toISOString().slice(0, 10));
 
     // Calculate Total Outstanding Debt (Across all accounts)
-    const totalDebt = debts.reduce((acc, d) => {
-        // Copy paste logic or reuse? Reuse logic is cleaner but for now let's just calc inline for summary
-        const debtTx = transactions.filter(t => t.debtAccountId === d.id);
-        const payments = debtTx.filter(t => t.type === 'debt-payment' || t.type === 'debt').reduce((s, t) => s + t.amount, 0);
-        const charges = debtTx.filter(t => (t.type as string) === 'debt-charge').reduce((s, t) => s + t.amount, 0);
-        const interest = debtTx.filter(t => t.type === 'debt-interest').reduce((s, t) => s + t.amount, 0);
-        return acc + (d.startingBalance + charges - payments + interest);
-    }, 0);
+    const totalDebt = debts.reduce((acc, d) => acc + debtStats(d, transactions).current, 0);
+    const dueSoon = debts.filter(d => isCreditCard(d) && creditCardStatus(d, transactions, today).dueSoon).length;
 
     return (
         <>
@@ -200,6 +390,11 @@ export const DebtsManager: React.FC = () => {
                 <div style={{ marginTop: '0.5rem', fontSize: '0.8rem', fontWeight: 'bold', textDecoration: 'underline' }}>
                     MANAGE ACCOUNTS ({debts.length})
                 </div>
+                {dueSoon > 0 && (
+                    <div style={{ marginTop: '0.35rem', fontSize: '0.8rem', fontWeight: 900 }}>
+                        ⚠ {dueSoon} PAYMENT{dueSoon === 1 ? '' : 'S'} DUE SOON
+                    </div>
+                )}
             </div>
         </>
     );
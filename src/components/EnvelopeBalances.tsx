@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { useBudget } from '../context/BudgetContext';
+import { ArrowRight, Trash2 } from 'lucide-react';
+import { NeoSelect } from './NeoSelect';
+
+const formatMoney = (n: number) => `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Available-to-spend per envelope for a month, with manual moves between
+ * envelopes. Rendered inside the budget health section when envelope mode is on.
+ */
+export const EnvelopeBalances: React.FC<{ month: string }> = ({ month }) => {
+  const { envelopes, envelopeBalancesForMonth, moveEnvelopeFunds, deleteEnvelopeMove } = useBudget();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [amount, setAmount] = useState('');
+
+  const balances = envelopeBalancesForMonth(month)
+    .filter(b => b.available !== 0 || b.budgeted !== 0 || b.spent !== 0)
+    .sort((a, b) => a.available - b.available);
+  const moves = envelopes.moves.filter(m => m.month === month);
+  const options = balances.map(b => ({ value: b.category, label: `${b.category} (${formatMoney(b.available)})` }));
+
+  const handleMove = () => {
+    const value = Number(amount);
+    if (!from || !to || from === to) {
+      alert("Pick two different envelopes.");
+      return;
+    }
+    if (!Number.isFinite(value) || value <= 0) {
+      alert("Amount must be a positive number.");
+      return;
+    }
+    moveEnvelopeFunds(month, from, to, value);
+    setAmount('');
+  };
+
+  return (
+    <div style={{ marginTop: '1.25rem' }}>
+      <div style={{ fontWeight: 900, marginBottom: '0.5rem' }}>AVAILABLE TO SPEND (ENVELOPES)</div>
+      {balances.length === 0 ? (
+        <div style={{ opacity: 0.7, fontWeight: 700 }}>Set budget targets to fill your envelopes.</div>
+      ) : (
+        <div className="overspent-list">
+          {balances.map(b => (
+            <div key={b.category} className="overspent-row">
+              <div>
+                <div style={{ fontWeight: 900 }}>{b.category}</div>
+                <div style={{ fontWeight: 700, opacity: 0.7, fontSize: '0.8rem' }}>
+                  {formatMoney(b.rolledIn)} rolled in · {formatMoney(b.budgeted)} budgeted
+                  {b.moved !== 0 ? ` · ${b.moved > 0 ? '+' : ''}${formatMoney(b.moved)} moved` : ''} · {formatMoney(b.spent)} spent
+                </div>
+              </div>
+              <div style={{ textAlign: 'right', fontWeight: 900, color: b.available < 0 ? 'red' : 'black' }}>
+                {formatMoney(b.available)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {balances.length > 1 && (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr auto 1fr 120px auto', gap: '0.5rem', alignItems: 'center', marginTop: '1rem' }}>
+          <NeoSelect className="neo-select" value={from} onChange={setFrom} options={options} placeholder="From" />
+          <ArrowRight size={20} />
+          <NeoSelect className="neo-select" value={to} onChange={setTo} options={options} placeholder="To" />
+          <input
+            className="neo-input"
+            type="number"
+            step="0.01"
+            placeholder="0.00"
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+          />
+          <button className="neo-btn white" onClick={handleMove}>MOVE</button>
+        </div>
+      )}
+
+      {moves.length > 0 && (
+        <div style={{ display: 'grid', gap: '0.25rem', marginTop: '0.75rem', fontWeight: 700, fontSize: '0.85rem' }}>
+          {moves.map(m => (
+            <div key={m.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <span>{formatMoney(m.amount)}: {m.from} → {m.to}</span>
+              <button
+                onClick={() => deleteEnvelopeMove(m.id)}
+                title="Undo move"
+                style={{ background: 'none', border: '2px solid red', color: 'red', padding: '2px', cursor: 'pointer' }}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -22,7 +22,7 @@ const AVAILABLE_MODELS = [
 ];
 
 export const ImportModal: React.FC<ImportModalProps> = ({ open, onClose, categories }) => {
-  const { aiImportStatements, addTransaction } = useBudget();
+  const { aiImportStatements, addImportedTransactions, categorizeImported, suggestCategory, vaultEnabled } = useBudget();
   const [files, setFiles] = useState<Array<{ id: string; file: File }>>([]);
   const [preview, setPreview] = useState<ImportedTransaction[]>([]);
   const [loading, setLoading] = useState(false);
@@ -38,6 +38,12 @@ export const ImportModal: React.FC<ImportModalProps> = ({ open, onClose, categor
     return Array.from(uniq);
   }, [categories]);
 
+  // Learned suggestions for the preview rows; recomputed only when the rows change.
+  const suggestions = useMemo(
+    () => preview.map(p => suggestCategory({ description: p.description || '', amount: Number(p.amount) || 0 })),
+    [preview, suggestCategory]
+  );
+
   if (!open) return null;
 
   const makeFileId = () =>
@@ -69,7 +75,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({ open, onClose, categor
     setPreview([]);
     try {
       const result = await aiImportStatements(files.map(f => f.file), catOptions, selectedModel || undefined);
-      setPreview(result.transactions || []);
+      setPreview((result.transactions || []).map(categorizeImported));
       if (result.raw) {
         setRawResponse(typeof result.raw === 'string' ? result.raw : JSON.stringify(result.raw, null, 2));
       }
@@ -87,24 +93,25 @@ export const ImportModal: React.FC<ImportModalProps> = ({ open, onClose, categor
 
   const finalizeImport = () => {
     if (!preview.length) return;
-    preview.forEach(p => {
-      const safeAmount = Number(p.amount) || 0;
-      if (!safeAmount) return;
-      addTransaction({
+    const rows = preview
+      .filter(p => Number(p.amount))
+      .map(p => ({
         date: p.date || new Date().toISOString().split('T')[0],
         description: p.description || 'Imported',
-        amount: safeAmount,
+        amount: Number(p.amount),
         type: (p.type as TransactionType) || 'expense',
         category: p.category || 'Uncategorized',
         debtAccountId: p.debtAccountId,
         assetAccountId: p.assetAccountId,
-        recurringId: p.recurringId
-      });
-    });
+        recurringId: p.recurringId,
+        source: p.source,
+        tags: p.tags
+      }));
+    const { added, matched } = addImportedTransactions(rows);
     setPreview([]);
     setFiles([]);
     onClose();
-    alert(`Imported ${preview.length} transactions`);
+    alert(`Imported ${added} transactions${matched ? ` (${matched} matched to recurring rules)` : ''}`);
   };
 
   const updatePreview = (index: number, field: keyof ImportedTransaction, value: string | number) => {
@@ -150,6 +157,11 @@ export const ImportModal: React.FC<ImportModalProps> = ({ open, onClose, categor
           <h3 style={{ margin: 0 }}>AI STATEMENT IMPORT (PDF or CSV)</h3>
         </div>
         <p style={{ marginTop: '0.25rem', opacity: 0.8 }}>Uploads stay local; parsing runs through your OpenRouter key.</p>
+        {vaultEnabled && (
+          <p style={{ fontWeight: 900, color: 'red' }}>
+            Unavailable with end-to-end encryption: statements are parsed on our server and by OpenRouter, which would see them in the clear. Use CSV import instead.
+          </p>
+        )}
 
         <div style={{ border: '3px dashed black', padding: '1rem', marginTop: '1rem', background: '#f7f7f7', display: 'grid', gap: '0.75rem' }}>
           <label style={{ fontWeight: 900 }}>1) Choose statements (PDF or CSV)</label>
@@ -178,7 +190,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({ open, onClose, categor
               options={AVAILABLE_MODELS.map(m => ({ value: m.value, label: m.label }))}
             />
           </div>
-          <button className="neo-btn pink" onClick={runImport} disabled={loading || files.length === 0} style={{ width: '200px', justifyContent: 'center' }}>
+          <button className="neo-btn pink" onClick={runImport} disabled={loading || files.length === 0 || vaultEnabled} style={{ width: '200px', justifyContent: 'center' }}>
             {loading ? 'Processing...' : 'Run Import'}
           </button>
           {error && <div style={{ color: 'red', fontWeight: 900 }}>{error}</div>}
@@ -234,7 +246,9 @@ export const ImportModal: React.FC<ImportModalProps> = ({ open, onClose, categor
                   </tr>
                 </thead>
                 <tbody>
-                  {preview.map((p, idx) => (
+                  {preview.map((p, idx) => {
+                    const suggestion = suggestions[idx];
+                    return (
                     <tr key={idx}>
                       <td><input className="edit-input" type="date" value={p.date || ''} onChange={e => updatePreview(idx, 'date', e.target.value)} /></td>
                       <td><input className="edit-input" value={p.description || ''} onChange={e => updatePreview(idx, 'description', e.target.value)} /></td>
@@ -252,6 +266,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({ open, onClose, categor
                             { value: 'debt-charge', label: 'Debt Charge' },
                             { value: 'asset-deposit', label: 'Asset Deposit' },
                             { value: 'asset-growth', label: 'Asset Growth' },
+                            { value: 'transfer', label: 'Transfer' },
                           ]}
                         />
                       </td>
@@ -262,10 +277,18 @@ export const ImportModal: React.FC<ImportModalProps> = ({ open, onClose, categor
                           onChange={(v) => updatePreview(idx, 'category', v)}
                           options={catOptions.map(c => ({ value: c, label: c }))}
                         />
+                        {suggestion && (suggestion.category === p.category ? (
+                          <div style={{ fontSize: '0.75rem', fontWeight: 700, opacity: 0.7, marginTop: '4px' }}>Learned match · {Math.round(suggestion.confidence * 100)}%</div>
+                        ) : (
+                          <button type="button" className="neo-btn white" style={{ marginTop: '4px', padding: '0.2rem 0.4rem', fontSize: '0.75rem' }} onClick={() => updatePreview(idx, 'category', suggestion.category)}>
+                            Use {suggestion.category} ({Math.round(suggestion.confidence * 100)}%)
+                          </button>
+                        ))}
                       </td>
                       <td>{p.source || '-'}</td>
                     </tr>
-                  ))}
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
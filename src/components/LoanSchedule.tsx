@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { useBudget } from '../context/BudgetContext';
+import type { DebtAccount } from '../context/BudgetContext';
+import { addMonths, format, parseISO } from 'date-fns';
+import { amortizationSchedule, loanLedger, paymentsRemaining, scheduledBalanceOn, scheduledLoanPayment } from '../utils/amortization';
+
+const formatMoney = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// How many recent payments to show with their principal/interest split.
+const RECENT_PAYMENTS = 6;
+
+/** Actual balance vs the amortization schedule for one installment loan. */
+export const LoanSchedule: React.FC<{ debt: DebtAccount; today: string }> = ({ debt, today }) => {
+  const { transactions } = useBudget();
+  const [showSchedule, setShowSchedule] = useState(false);
+
+  if (!debt.loan) return null;
+
+  const schedule = amortizationSchedule(debt);
+  const payment = scheduledLoanPayment(debt) || 0;
+  const ledger = loanLedger(debt, transactions, today);
+  const expected = scheduledBalanceOn(debt, today);
+  const ahead = expected - ledger.balance;
+
+  const scheduledLeft = schedule.filter(row => row.date > today).length;
+  const actualLeft = paymentsRemaining(ledger.balance, debt.apr || 0, payment);
+  const monthsSaved = Number.isFinite(actualLeft) ? scheduledLeft - actualLeft : 0;
+  const payoffDate = Number.isFinite(actualLeft) ? format(addMonths(parseISO(today), actualLeft), 'MMM yyyy') : '—';
+  const recent = ledger.splits.slice(-RECENT_PAYMENTS).reverse();
+
+  return (
+    <div style={{ borderTop: '2px solid black', paddingTop: '0.5rem', display: 'grid', gap: '0.5rem', fontSize: '0.85rem' }}>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem' }}>
+        <div>Payment: <b>{formatMoney(payment)}/mo</b></div>
+        <div>Term: <b>{debt.loan.termMonths} months from {format(parseISO(debt.loan.startDate), 'MMM yyyy')}</b></div>
+        <div>Scheduled balance: <b>{formatMoney(expected)}</b></div>
+        <div>
+          {Math.abs(ahead) < 0.005
+            ? <b>ON SCHEDULE</b>
+            : ahead > 0
+              ? <>Ahead by <b style={{ color: 'var(--neo-green)' }}>{formatMoney(ahead)}</b></>
+              : <>Behind by <b style={{ color: 'var(--neo-pink)' }}>{formatMoney(-ahead)}</b></>}
+        </div>
+        <div>Paid off: <b>{payoffDate}</b></div>
+        {monthsSaved > 0 && <div>Extra payments save <b style={{ color: 'var(--neo-green)' }}>{monthsSaved} month{monthsSaved === 1 ? '' : 's'}</b></div>}
+      </div>
+
+      {ledger.ignoredInterest.length > 0 && (
+        <div style={{ color: 'var(--neo-pink)', fontWeight: 700 }}>
+          {ledger.ignoredInterest.length} manual interest entr{ledger.ignoredInterest.length === 1 ? 'y is' : 'ies are'} not counted: this loan accrues its interest every month.
+        </div>
+      )}
+
+      {recent.length > 0 && (
+        <div>
+          <div style={{ fontWeight: 900 }}>RECENT PAYMENTS</div>
+          {recent.map(s => (
+            <div key={s.transaction.id} className="loan-row">
+              <span>{s.transaction.date}</span>
+              <span>{formatMoney(s.transaction.amount)}</span>
+              <span style={{ color: 'var(--neo-pink)' }}>{formatMoney(s.interest)} int</span>
+              <span style={{ color: 'var(--neo-green)' }}>{formatMoney(s.principal)} prin</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button className="neo-btn white" style={{ padding: '0.3rem 0.6rem', fontSize: '0.8rem', justifySelf: 'start' }} onClick={() => setShowSchedule(v => !v)}>
+        {showSchedule ? 'HIDE SCHEDULE' : 'SHOW SCHEDULE'}
+      </button>
+
+      {showSchedule && (
+        <div style={{ maxHeight: '240px', overflowY: 'auto', border: '2px solid black', padding: '0.25rem 0.5rem' }}>
+          <div className="loan-row" style={{ fontWeight: 900 }}>
+            <span>#  DATE</span>
+            <span>INTEREST</span>
+            <span>PRINCIPAL</span>
+            <span>BALANCE</span>
+          </div>
+          {schedule.map(row => (
+            <div key={row.n} className="loan-row" style={{ opacity: row.date <= today ? 0.5 : 1 }}>
+              <span>{row.n}. {row.date}</span>
+              <span>{formatMoney(row.interest)}</span>
+              <span>{formatMoney(row.principal)}</span>
+              <span>{formatMoney(row.balance)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <style>{`
+        .loan-row {
+          display: grid;
+          grid-template-columns: 1.3fr 1fr 1fr 1fr;
+          gap: 0.5rem;
+          padding: 0.1rem 0;
+        }
+        .loan-row span:not(:first-child) { text-align: right; }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { useBudget } from '../context/BudgetContext';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import { Landmark, Trash2 } from 'lucide-react';
+import { format, parseISO, subMonths } from 'date-fns';
+import { balancesAsOf, netWorthChange, netWorthHistory, totalsOf } from '../utils/netWorth';
+import { monthsOfYear } from '../utils/budgets';
+
+const formatMoney = (n: number) => `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatChange = (n: number) => `${n >= 0 ? '+' : '-'}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// How many months of history the month view charts.
+const HISTORY_MONTHS = 12;
+
+/**
+ * Month-end net worth over time with the change behind the latest month.
+ * Manual snapshots replace the computed totals for the month they fall in.
+ */
+export const NetWorthChart: React.FC<{ currentMonth: string; viewMode: 'month' | 'year'; yearKey: string }> = ({ currentMonth, viewMode, yearKey }) => {
+  const { transactions, debts, assets, cashAccounts, netWorthSnapshots, addNetWorthSnapshot, deleteNetWorthSnapshot } = useBudget();
+  const [snapDate, setSnapDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [snapCash, setSnapCash] = useState('');
+  const [snapAssets, setSnapAssets] = useState('');
+  const [snapDebts, setSnapDebts] = useState('');
+  const [snapNote, setSnapNote] = useState('');
+  const [showSnapshots, setShowSnapshots] = useState(false);
+
+  // One extra leading month so the first charted month has something to compare against.
+  const months = useMemo(() => {
+    const shown = viewMode === 'year'
+      ? monthsOfYear(yearKey)
+      : Array.from({ length: HISTORY_MONTHS }, (_, i) => format(subMonths(parseISO(`${currentMonth}-01`), HISTORY_MONTHS - 1 - i), 'yyyy-MM'));
+    return [format(subMonths(parseISO(`${shown[0]}-01`), 1), 'yyyy-MM'), ...shown];
+  }, [viewMode, yearKey, currentMonth]);
+
+  const history = useMemo(
+    () => netWorthHistory(months, { debts, assets, cashAccounts }, transactions, netWorthSnapshots),
+    [months, debts, assets, cashAccounts, transactions, netWorthSnapshots]
+  );
+
+  const computedAtSnapDate = useMemo(
+    () => totalsOf(balancesAsOf(snapDate, { debts, assets, cashAccounts }, transactions)),
+    [snapDate, debts, assets, cashAccounts, transactions]
+  );
+
+  if (debts.length + assets.length + cashAccounts.length === 0) return null;
+
+  const chartData = history.slice(1).map(p => ({
+    name: format(parseISO(`${p.month}-01`), 'MMM yy'),
+    'Net Worth': Math.round(p.netWorth),
+    Assets: Math.round(p.cash + p.assets),
+    Debts: -Math.round(p.debts),
+  }));
+
+  // Month view explains the selected month; year view explains the whole year.
+  const curr = viewMode === 'year' ? history[history.length - 1] : history.find(p => p.month === currentMonth) || history[history.length - 1];
+  const prev = viewMode === 'year' ? history[0] : history[history.indexOf(curr) - 1];
+  const change = netWorthChange(prev, curr);
+
+  const handleSnapshot = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = (raw: string, fallback: number) => raw.trim() === '' ? fallback : Number(raw);
+    const snapshot = {
+      date: snapDate,
+      cash: value(snapCash, computedAtSnapDate.cash),
+      assets: value(snapAssets, computedAtSnapDate.assets),
+      debts: value(snapDebts, computedAtSnapDate.debts),
+      note: snapNote.trim() || undefined,
+    };
+    if (!snapDate || [snapshot.cash, snapshot.assets, snapshot.debts].some(n => !Number.isFinite(n))) {
+      alert("Enter a date and numeric balances (leave blank to use the computed value).");
+      return;
+    }
+    addNetWorthSnapshot(snapshot);
+    setSnapCash('');
+    setSnapAssets('');
+    setSnapDebts('');
+    setSnapNote('');
+  };
+
+  return (
+    <div className="neo-box" style={{ gridColumn: '1 / -1', marginTop: '1rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '1rem', marginBottom: '1.5rem' }}>
+        <Landmark size={28} />
+        <h3 style={{ margin: 0 }}>NET WORTH OVER TIME</h3>
+      </div>
+
+      <div style={{ width: '100%', height: 300 }}>
+        <ResponsiveContainer>
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#ccc" vertical={false} />
+            <XAxis dataKey="name" stroke="#000" tick={{ fill: 'black', fontWeight: 'bold', fontSize: '14px' }} axisLine={{ strokeWidth: 3 }} tickLine={{ strokeWidth: 2 }} />
+            <YAxis stroke="#000" tick={{ fill: 'black', fontWeight: 'bold', fontSize: '14px' }} axisLine={{ strokeWidth: 3 }} tickLine={{ strokeWidth: 2 }} />
+            <Tooltip
+              cursor={{ fill: '#eee' }}
+              contentStyle={{
+                border: '3px solid black',
+                borderRadius: '0px',
+                boxShadow: '4px 4px 0px #000',
+                fontWeight: 'bold'
+              }}
+            />
+            <Legend />
+            <Bar dataKey="Assets" fill="var(--neo-green)" stroke="#000" strokeWidth={2} />
+            <Bar dataKey="Debts" fill="var(--neo-pink)" stroke="#000" strokeWidth={2} />
+            <Line dataKey="Net Worth" stroke="black" strokeWidth={4} dot={{ r: 5, fill: 'var(--neo-yellow)', stroke: 'black', strokeWidth: 2 }} type="monotone" />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="networth-grid">
+        <div>
+          <h4 style={{ marginBottom: '0.5rem' }}>
+            {viewMode === 'year'
+              ? `CHANGE IN ${yearKey}`
+              : `${format(parseISO(`${curr.month}-01`), 'MMMM').toUpperCase()} vs ${format(parseISO(`${prev.month}-01`), 'MMMM').toUpperCase()}`}
+          </h4>
+          <div style={{ fontSize: '2rem', fontWeight: 900, color: change.netWorth < 0 ? 'red' : 'black' }}>{formatChange(change.netWorth)}</div>
+          <div style={{ display: 'grid', gap: '0.25rem', fontWeight: 700, marginTop: '0.5rem' }}>
+            <div>Cash: {formatChange(change.cash)}</div>
+            <div>Assets: {formatChange(change.assets)}</div>
+            <div>Debts: {formatChange(-change.debts)} {change.debts < 0 ? '(paid down)' : change.debts > 0 ? '(grew)' : ''}</div>
+          </div>
+          {curr.snapshot && (
+            <div style={{ marginTop: '0.5rem', fontSize: '0.8rem', opacity: 0.7, fontWeight: 700 }}>
+              Uses your snapshot from {curr.snapshot.date}.
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h4 style={{ marginBottom: '0.5rem' }}>BY ACCOUNT</h4>
+          {change.accounts.length === 0 ? (
+            <div style={{ opacity: 0.6, fontWeight: 700 }}>No account balances moved.</div>
+          ) : (
+            <div style={{ display: 'grid', gap: '0.25rem', fontWeight: 700, fontSize: '0.9rem' }}>
+              {change.accounts.map(a => (
+                <div key={`${a.kind}:${a.id}`} style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem' }}>
+                  <span>{a.name} <span style={{ opacity: 0.6 }}>({a.kind})</span></span>
+                  <span style={{ color: a.change < 0 ? 'red' : 'black' }}>{formatChange(a.change)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <button className="neo-btn white" style={{ marginTop: '1rem', padding: '0.4rem 0.7rem', fontSize: '0.8rem' }} onClick={() => setShowSnapshots(v => !v)}>
+        {showSnapshots ? 'HIDE SNAPSHOTS' : `SNAPSHOTS (${netWorthSnapshots.length})`}
+      </button>
+
+      {showSnapshots && (
+        <div style={{ marginTop: '1rem' }}>
+          <form onSubmit={handleSnapshot} className="snapshot-form">
+            <input className="neo-input" type="date" value={snapDate} onChange={e => setSnapDate(e.target.value)} />
+            <input className="neo-input" type="number" step="0.01" placeholder={`Cash ${computedAtSnapDate.cash.toFixed(2)}`} value={snapCash} onChange={e => setSnapCash(e.target.value)} />
+            <input className="neo-input" type="number" step="0.01" placeholder={`Assets ${computedAtSnapDate.assets.toFixed(2)}`} value={snapAssets} onChange={e => setSnapAssets(e.target.value)} />
+            <input className="neo-input" type="number" step="0.01" placeholder={`Debts ${computedAtSnapDate.debts.toFixed(2)}`} value={snapDebts} onChange={e => setSnapDebts(e.target.value)} />
+            <input className="neo-input" placeholder="Note (optional)" value={snapNote} onChange={e => setSnapNote(e.target.value)} />
+            <button className="neo-btn pink" type="submit">RECORD</button>
+          </form>
+          <div style={{ display: 'grid', gap: '0.25rem', marginTop: '0.75rem', fontWeight: 700, fontSize: '0.9rem' }}>
+            {[...netWorthSnapshots].sort((a, b) => b.date.localeCompare(a.date)).map(s => (
+              <div key={s.id} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                <span style={{ flex: 1 }}>
+                  {s.date}: {formatMoney(s.cash + s.assets - s.debts)}
+                  <span style={{ opacity: 0.6 }}> (cash {formatMoney(s.cash)}, assets {formatMoney(s.assets)}, debts {formatMoney(s.debts)})</span>
+                  {s.note ? ` — ${s.note}` : ''}
+                </span>
+                <button
+                  onClick={() => deleteNetWorthSnapshot(s.id)}
+                  title="Delete snapshot"
+                  style={{ background: 'none', border: '2px solid red', color: 'red', padding: '2px', cursor: 'pointer' }}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <style>{`
+        .networth-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(260px, 1fr));
+          gap: 1.5rem;
+          margin-top: 1rem;
+        }
+        .snapshot-form {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(140px, 1fr));
+          gap: 0.5rem;
+          align-items: center;
+        }
+      `}</style>
+    </div>
+  );
+};
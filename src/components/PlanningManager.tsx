@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { useBudget } from '../context/BudgetContext';
+import { ClipboardList, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { planActuals, planForMonth, planTotals } from '../utils/plan';
+
+const formatMoney = (n: number) => `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+interface PlanRow {
+  key: string;
+  label: string;
+  planned: number;
+  actual: number;
+}
+
+/** One block of the plan: planned amounts are edited in place and committed on blur/Enter. */
+const PlanSectionTable: React.FC<{
+  title: string;
+  month: string;
+  rows: PlanRow[];
+  onChange: (key: string, amount: number) => void;
+  onAdd?: (name: string) => void;
+  addPlaceholder?: string;
+}> = ({ title, month, rows, onChange, onAdd, addPlaceholder }) => {
+  const [newName, setNewName] = useState('');
+  const planned = rows.reduce((sum, r) => sum + r.planned, 0);
+  const actual = rows.reduce((sum, r) => sum + r.actual, 0);
+
+  const commit = (row: PlanRow, raw: string) => {
+    const amount = raw.trim() === '' ? 0 : Number(raw);
+    if (!Number.isFinite(amount) || amount < 0) {
+      alert("Amount must be zero or a positive number.");
+      return;
+    }
+    if (amount !== row.planned) onChange(row.key, amount);
+  };
+
+  return (
+    <div style={{ marginBottom: '1.5rem' }}>
+      <div className="plan-row plan-head">
+        <span>{title}</span>
+        <span>PLAN</span>
+        <span>ACTUAL</span>
+        <span>DIFF</span>
+      </div>
+      {rows.map(row => (
+        <div key={row.key} className="plan-row">
+          <span className="plan-label">{row.label}</span>
+          <input
+            key={`${month}:${row.key}:${row.planned}`}
+            className="neo-input plan-input"
+            type="number"
+            step="0.01"
+            min={0}
+            placeholder="0.00"
+            defaultValue={row.planned ? String(row.planned) : ''}
+            onBlur={e => commit(row, e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          />
+          <span>{formatMoney(row.actual)}</span>
+          <span style={{ color: row.actual - row.planned > 0.005 ? 'var(--neo-pink)' : undefined }}>
+            {formatMoney(row.actual - row.planned)}
+          </span>
+        </div>
+      ))}
+      {rows.length === 0 && <div style={{ opacity: 0.6, fontWeight: 700 }}>Nothing here yet.</div>}
+      <div className="plan-row plan-total">
+        <span>TOTAL</span>
+        <span>{formatMoney(planned)}</span>
+        <span>{formatMoney(actual)}</span>
+        <span>{formatMoney(actual - planned)}</span>
+      </div>
+      {onAdd && (
+        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+          <input
+            className="neo-input"
+            placeholder={addPlaceholder}
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter' && newName.trim()) { onAdd(newName.trim()); setNewName(''); } }}
+          />
+          <button className="neo-btn white" onClick={() => { if (newName.trim()) { onAdd(newName.trim()); setNewName(''); } }}>ADD</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PlanningModal: React.FC<{ onClose: () => void; initialMonth: string }> = ({ onClose, initialMonth }) => {
+  const { plans, setPlanAmount, budgetsForMonth, setMonthlyBudget, transactions, assets, debts } = useBudget();
+  const [month, setMonth] = useState(initialMonth);
+  // Names added this session that don't have an amount yet.
+  const [extraIncome, setExtraIncome] = useState<string[]>([]);
+  const [extraExpenses, setExtraExpenses] = useState<string[]>([]);
+
+  const plan = planForMonth(plans, month);
+  const targets = budgetsForMonth(month);
+  const actuals = planActuals(transactions, month);
+  const totals = planTotals(plan, targets);
+
+  const incomeKeys = Array.from(new Set([...Object.keys(plan.income), ...Object.keys(actuals.income), ...extraIncome]));
+  const expenseKeys = Array.from(new Set([...Object.keys(targets), ...Object.keys(actuals.spend), ...extraExpenses]));
+
+  const left = totals.leftToAssign;
+
+  return (
+    <div style={{
+      position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
+      background: 'rgba(0,0,0,0.8)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 999
+    }}>
+      <div className="neo-box" style={{ width: '90%', maxWidth: '800px', maxHeight: '90vh', overflowY: 'auto', background: 'var(--neo-white)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '1rem', borderBottom: '4px solid black', paddingBottom: '1rem' }}>
+          <h2 style={{ fontSize: '2rem', margin: 0 }}>PLAN — {format(parseISO(`${month}-01`), 'MMMM yyyy')}</h2>
+          <button onClick={onClose} className="icon-btn"><X size={24} /></button>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem', alignItems: 'end', marginBottom: '1.5rem' }}>
+          <div>
+            <label style={{ fontWeight: 'bold' }}>MONTH</label>
+            <input className="neo-input" type="month" value={month} onChange={e => { if (e.target.value) setMonth(e.target.value); }} />
+          </div>
+          <div className="neo-box" style={{ background: Math.abs(left) < 0.005 ? 'var(--neo-green)' : left < 0 ? '#ff6b6b' : 'var(--neo-yellow)', textAlign: 'center', padding: '0.75rem' }}>
+            <div style={{ fontWeight: 900, fontSize: '0.8rem' }}>LEFT TO ASSIGN</div>
+            <div style={{ fontWeight: 900, fontSize: '1.8rem' }}>{formatMoney(left)}</div>
+          </div>
+        </div>
+
+        <PlanSectionTable
+          title="EXPECTED INCOME"
+          month={month}
+          rows={incomeKeys.map(k => ({ key: k, label: k, planned: plan.income[k] || 0, actual: actuals.income[k] || 0 }))}
+          onChange={(k, amount) => setPlanAmount(month, 'income', k, amount)}
+          onAdd={name => setExtraIncome(prev => [...prev, name])}
+          addPlaceholder="Add income source (e.g. Business Income)"
+        />
+
+        <PlanSectionTable
+          title="EXPENSES"
+          month={month}
+          rows={expenseKeys.map(k => ({ key: k, label: k, planned: targets[k] || 0, actual: actuals.spend[k] || 0 }))}
+          onChange={(k, amount) => setMonthlyBudget(month, k, amount, 'onward')}
+          onAdd={name => setExtraExpenses(prev => [...prev, name])}
+          addPlaceholder="Add expense category"
+        />
+
+        <PlanSectionTable
+          title="SAVINGS CONTRIBUTIONS"
+          month={month}
+          rows={assets.map(a => ({ key: a.id, label: a.name, planned: plan.contributions[a.id] || 0, actual: actuals.contributions[a.id] || 0 }))}
+          onChange={(k, amount) => setPlanAmount(month, 'contributions', k, amount)}
+        />
+
+        <PlanSectionTable
+          title="DEBT PAYMENTS"
+          month={month}
+          rows={debts.map(d => ({ key: d.id, label: d.name, planned: plan.debtPayments[d.id] || 0, actual: actuals.debtPayments[d.id] || 0 }))}
+          onChange={(k, amount) => setPlanAmount(month, 'debtPayments', k, amount)}
+        />
+
+        <p style={{ fontWeight: 700, opacity: 0.7, margin: 0 }}>
+          Expense amounts are this month's budget targets and carry forward to later months. Other lines carry forward until changed.
+        </p>
+
+        <style>{`
+          .plan-row {
+            display: grid;
+            grid-template-columns: 1fr 140px 110px 110px;
+            gap: 0.75rem;
+            align-items: center;
+            font-weight: 700;
+            padding: 0.2rem 0;
+          }
+          .plan-row span:not(.plan-label) { text-align: right; }
+          .plan-head {
+            font-weight: 900;
+            border-bottom: 3px solid black;
+            margin-bottom: 0.25rem;
+          }
+          .plan-head span:first-child { text-align: left; }
+          .plan-total {
+            font-weight: 900;
+            border-top: 2px solid black;
+            margin-top: 0.25rem;
+          }
+          .plan-total span:first-child { text-align: left; }
+          .plan-label { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+          .plan-input { padding: 0.3rem 0.5rem; }
+          .icon-btn {
+            background: none; border: 2px solid black; padding: 4px; cursor: pointer;
+            box-shadow: 2px 2px 0 black; transition: transform 0.1s;
+          }
+          .icon-btn:active { transform: translate(2px, 2px); box-shadow: none; }
+        `}</style>
+      </div>
+    </div>
+  );
+};
+
+export const PlanningManager: React.FC<{ currentMonth: string }> = ({ currentMonth }) => {
+  const { plans, budgetsForMonth } = useBudget();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const totals = planTotals(planForMonth(plans, currentMonth), budgetsForMonth(currentMonth));
+
+  return (
+    <>
+      {isModalOpen && <PlanningModal onClose={() => setIsModalOpen(false)} initialMonth={currentMonth} />}
+
+      <div
+        className="neo-box"
+        style={{
+          background: 'white',
+          color: 'black',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          cursor: 'pointer'
+        }}
+        onClick={() => setIsModalOpen(true)}
+        title="Click to Plan This Month"
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <ClipboardList size={20} />
+          <h4 style={{ fontSize: '0.9rem', marginBottom: 0, opacity: 0.9 }}>LEFT TO ASSIGN</h4>
+        </div>
+        <div style={{ fontSize: '2.5rem', fontWeight: 900, marginTop: '0.5rem', color: totals.leftToAssign < 0 ? 'red' : 'black' }}>
+          {formatMoney(totals.leftToAssign)}
+        </div>
+        <div style={{ marginTop: '0.5rem', fontSize: '0.8rem', fontWeight: 'bold', textDecoration: 'underline' }}>
+          PLAN THE MONTH ({formatMoney(totals.income)} INCOME)
+        </div>
+      </div>
+    </>
+  );
+};
@@ -2,6 +2,10 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { X, KeyRound, ShieldCheck, Link2, RefreshCw, Unlink2 } from 'lucide-react';
 import { useBudget } from '../context/BudgetContext';
 import { NeoSelect } from './NeoSelect';
+import { VaultSettings } from './VaultSettings';
+import { assetStats, cashAccountStats, debtInterestSince, debtStats } from '../utils/balances';
+import { creditCardStatus, isCreditCard } from '../utils/credit';
+import type { CreditCardStatus } from '../utils/credit';
 
 interface ProfileModalProps {
   open: boolean;
@@ -24,10 +28,15 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
     transactions,
     debts,
     assets,
+    cashAccounts,
     addDebt,
     addAsset,
+    addCashAccount,
     editDebt,
     editAsset,
+    editCashAccount,
+    setAssetValuation,
+    vaultEnabled,
   } = useBudget();
   const [currentPw, setCurrentPw] = useState('');
   const [newPw, setNewPw] = useState('');
@@ -56,31 +65,20 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
   const simplefinAccountMap = useMemo(() => getSimplefinAccountMap(), [getSimplefinAccountMap, open]);
 
   const debtComputed = useMemo(() => {
-    const byId = new Map<string, { current: number; interest30: number; aprPct: number | null }>();
+    const byId = new Map<string, { current: number; interest30: number; aprPct: number | null; card: CreditCardStatus | null }>();
     const cutoff = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const today = new Date().toISOString().slice(0, 10);
 
     for (const d of debts) {
-      const debtTx = transactions.filter(t => t.debtAccountId === d.id);
-      const payments = debtTx
-        .filter(t => t.type === 'debt-payment' || (t.type as string) === 'debt')
-        .reduce((sum, t) => sum + t.amount, 0);
-      const charges = debtTx
-        .filter(t => (t.type as string) === 'debt-charge')
-        .reduce((sum, t) => sum + t.amount, 0);
-      const interest = debtTx
-        .filter(t => t.type === 'debt-interest')
-        .reduce((sum, t) => sum + t.amount, 0);
-      const current = d.startingBalance + charges - payments + interest;
-
-      const interest30 = debtTx
-        .filter(t => t.type === 'debt-interest' && t.date >= cutoff)
-        .reduce((sum, t) => sum + t.amount, 0);
+      const { current } = debtStats(d, transactions);
+      const interest30 = debtInterestSince(d, transactions, cutoff);
 
       const aprPct = (current > 0 && interest30 > 0)
         ? (interest30 / current) * 12 * 100
         : null;
 
-      byId.set(d.id, { current, interest30, aprPct });
+      const card = isCreditCard(d) ? creditCardStatus(d, transactions, today) : null;
+      byId.set(d.id, { current, interest30, aprPct, card });
     }
     return byId;
   }, [debts, transactions]);
@@ -88,26 +86,23 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
   const assetComputed = useMemo(() => {
     const byId = new Map<string, { current: number }>();
     for (const a of assets) {
-      const assetTx = transactions.filter(t => t.assetAccountId === a.id);
-      const deposits = assetTx
-        .filter(t => t.type === 'asset-deposit')
-        .reduce((sum, t) => sum + t.amount, 0);
-      const growth = assetTx
-        .filter(t => t.type === 'asset-growth')
-        .reduce((sum, t) => sum + t.amount, 0);
-      byId.set(a.id, { current: a.startingBalance + deposits + growth });
+      byId.set(a.id, { current: assetStats(a, transactions).current });
     }
     return byId;
   }, [assets, transactions]);
 
-  const updateMapEntry = (accountId: string, next: { kind?: 'cash' | 'debt' | 'asset' | 'ignore'; debtAccountId?: string; assetAccountId?: string }) => {
+  const cashComputed = new Map(cashAccounts.map(c => [c.id, { current: cashAccountStats(c, transactions).current }]));
+
+  const updateMapEntry = (accountId: string, next: { kind?: 'cash' | 'debt' | 'asset' | 'ignore'; cashAccountId?: string; debtAccountId?: string; assetAccountId?: string; recordValuations?: boolean }) => {
     const prev = simplefinAccountMap[accountId] || { kind: 'cash' as const };
     const merged = {
       ...prev,
       ...next,
       // clean irrelevant link fields
+      cashAccountId: (next.kind && next.kind !== 'cash') ? undefined : (next.cashAccountId ?? prev.cashAccountId),
       debtAccountId: (next.kind && next.kind !== 'debt') ? undefined : (next.debtAccountId ?? prev.debtAccountId),
       assetAccountId: (next.kind && next.kind !== 'asset') ? undefined : (next.assetAccountId ?? prev.assetAccountId),
+      recordValuations: (next.kind && next.kind !== 'asset') ? undefined : (next.recordValuations ?? prev.recordValuations),
     };
     setSimplefinAccountMap({ ...simplefinAccountMap, [accountId]: merged });
   };
@@ -126,7 +121,18 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
     alert(`Created + linked asset account "${name}".`);
   };
 
-  const applyStartingBalanceFromSimplefin = (kind: 'debt' | 'asset', linkedId: string, reportedBalance: string | undefined, accountName: string) => {
+  const createAndLinkCash = (accountId: string, accountName: string, reportedBalance: string | undefined, balanceDate: string | null) => {
+    const n = Number(reportedBalance);
+    const id = addCashAccount({
+      name: accountName,
+      startingBalance: Number.isFinite(n) ? n : 0,
+      startingDate: balanceDate || new Date().toISOString().slice(0, 10),
+    });
+    updateMapEntry(accountId, { kind: 'cash', cashAccountId: id });
+    alert(`Created + linked cash account "${accountName}".`);
+  };
+
+  const applyStartingBalanceFromSimplefin = (kind: 'debt' | 'asset' | 'cash', linkedId: string, reportedBalance: string | undefined, accountName: string, asOf?: string | null) => {
     if (!reportedBalance) {
       alert('No balance available from SimpleFIN for this account.');
       return;
@@ -136,21 +142,43 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
       alert('SimpleFIN balance is not a number.');
       return;
     }
-    const abs = Math.abs(n);
+    // Cash balances keep their sign (overdrafts); debts/assets are stored as magnitudes.
+    const abs = kind === 'cash' ? n : Math.abs(n);
     const ok = confirm(
       `Set starting balance for "${accountName}" to $${abs.toFixed(2)}?\n\n` +
       `This is useful for ongoing tracking, but if you imported historical transactions, you may need to reconcile (balances might not match perfectly).`
     );
     if (!ok) return;
 
-    if (kind === 'debt') {
-      editDebt(linkedId, { name: debts.find(d => d.id === linkedId)?.name || accountName, startingBalance: abs });
+    if (kind === 'cash') {
+      const c = cashAccounts.find(x => x.id === linkedId);
+      editCashAccount(linkedId, {
+        name: c?.name || accountName,
+        startingBalance: abs,
+        startingDate: asOf || c?.startingDate || new Date().toISOString().slice(0, 10),
+      });
+    } else if (kind === 'debt') {
+      const d = debts.find(x => x.id === linkedId);
+      editDebt(linkedId, { ...d, name: d?.name || accountName, startingBalance: abs });
     } else {
-      editAsset(linkedId, { name: assets.find(a => a.id === linkedId)?.name || accountName, startingBalance: abs });
+      const a = assets.find(x => x.id === linkedId);
+      editAsset(linkedId, { ...a, name: a?.name || accountName, startingBalance: abs });
     }
     alert('Starting balance updated.');
   };
 
+  // Investment/property balances move without transactions, so the reported balance is a valuation, not a starting point.
+  const recordValuationFromSimplefin = (assetId: string, reportedBalance: string | undefined, asOf: string | null) => {
+    const n = Number(reportedBalance);
+    if (!Number.isFinite(n)) {
+      alert('SimpleFIN did not report a usable balance for this account.');
+      return;
+    }
+    const date = asOf || new Date().toISOString().slice(0, 10);
+    setAssetValuation(assetId, { date, value: Math.abs(n), source: 'simplefin' });
+    alert(`Recorded a $${Math.abs(n).toFixed(2)} valuation as of ${date}.`);
+  };
+
   const handlePasswordSave = async (e: React.FormEvent) => {
     e.preventDefault();
     setSaving(true);
@@ -195,7 +223,8 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
     setSimplefinBusy(false);
     const errText = result.errors.length ? `\n\nServer messages:\n- ${result.errors.join('\n- ')}` : '';
     const metaText = result.meta ? `\n\nMeta:\n${JSON.stringify(result.meta, null, 2)}` : '';
-    alert(`Fetched ${result.fetched} from SimpleFIN. Added ${result.added} new.${errText}${metaText}`);
+    const matchedText = result.matched ? ` Matched ${result.matched} to recurring rules.` : '';
+    alert(`Fetched ${result.fetched} from SimpleFIN. Added ${result.added} new.${matchedText}${errText}${metaText}`);
   };
 
   const handleApplyAccountMap = () => {
@@ -261,6 +290,8 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
             </button>
           </form>
 
+          <VaultSettings />
+
           <form onSubmit={handleKeySave} className="neo-box" style={{ border: '3px dashed black', background: '#f2fbff' }}>
             <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.75rem' }}>
               <ShieldCheck size={18} />
@@ -294,19 +325,24 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
               Paste a SimpleFIN Setup Token (base64) or claim URL. You can generate a token from{' '}
               <a href="https://bridge.simplefin.org/simplefin/create" target="_blank" rel="noreferrer">bridge.simplefin.org</a>.
             </p>
+            {vaultEnabled && (
+              <p style={{ fontSize: '0.85rem', fontWeight: 900, marginTop: 0 }}>
+                Unavailable with end-to-end encryption: SimpleFIN data is fetched and read on our server, which would see your bank data in the clear. Import CSV exports from your bank instead.
+              </p>
+            )}
             <input
               type="password"
               className="neo-input"
               value={simplefinToken}
               onChange={e => setSimplefinToken(e.target.value)}
               placeholder="Paste setup token / claim URL"
-              disabled={!user || simplefinBusy || simplefinConnected}
+              disabled={!user || simplefinBusy || simplefinConnected || vaultEnabled}
             />
             <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginTop: '0.75rem' }}>
               <button
                 type="submit"
                 className="neo-btn"
-                disabled={simplefinBusy || !user || simplefinConnected || !simplefinToken.trim()}
+                disabled={simplefinBusy || !user || simplefinConnected || vaultEnabled || !simplefinToken.trim()}
                 style={{ background: '#B6FF00' }}
               >
                 {simplefinBusy ? 'Working...' : 'Connect'}
@@ -344,7 +380,7 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
               <button
                 type="button"
                 className="neo-btn pink"
-                disabled={simplefinBusy || !user || !simplefinConnected}
+                disabled={simplefinBusy || !user || !simplefinConnected || vaultEnabled}
                 onClick={handleSimplefinSync}
                 style={{ justifyContent: 'center' }}
               >
@@ -382,6 +418,7 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
                         const balDate = typeof a.balanceDate === 'number' ? new Date(a.balanceDate * 1000).toISOString().slice(0, 10) : null;
                         const linkedDebt = entry.kind === 'debt' && entry.debtAccountId ? debtComputed.get(entry.debtAccountId) : null;
                         const linkedAsset = entry.kind === 'asset' && entry.assetAccountId ? assetComputed.get(entry.assetAccountId) : null;
+                        const linkedCash = entry.kind === 'cash' && entry.cashAccountId ? cashComputed.get(entry.cashAccountId) : null;
                         return (
                           <div key={a.id} style={{ border: '2px solid black', padding: '0.75rem' }}>
                             <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
@@ -392,18 +429,33 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
                               <span><b>Reported balance:</b> {typeof bal === 'string' ? bal : '—'}</span>
                               <span><b>As-of:</b> {balDate || '—'}</span>
                             </div>
-                            {(linkedDebt || linkedAsset) && (
+                            {(linkedDebt || linkedAsset || linkedCash) && (
                               <div style={{ marginTop: '0.35rem', fontSize: '0.85rem', opacity: 0.9, display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
                                 {linkedDebt && (
                                   <>
                                     <span><b>Estimated current (from history):</b> ${linkedDebt.current.toFixed(2)}</span>
                                     <span><b>Interest (30d):</b> ${linkedDebt.interest30.toFixed(2)}</span>
                                     <span><b>Est APR:</b> {linkedDebt.aprPct == null ? '—' : `${linkedDebt.aprPct.toFixed(1)}%`}</span>
+                                    {linkedDebt.card?.utilization != null && (
+                                      <span><b>Utilization:</b> {(linkedDebt.card.utilization * 100).toFixed(0)}%</span>
+                                    )}
+                                    {linkedDebt.card?.cycleStart && (
+                                      <span><b>Cycle charges:</b> ${linkedDebt.card.cycleCharges.toFixed(2)}</span>
+                                    )}
+                                    {linkedDebt.card?.dueDate && (
+                                      <span><b>Due:</b> {linkedDebt.card.dueDate}</span>
+                                    )}
+                                    {linkedDebt.card?.warnings.map(w => (
+                                      <span key={w} style={{ color: 'red', fontWeight: 900 }}>⚠ {w}</span>
+                                    ))}
                                   </>
                                 )}
                                 {linkedAsset && (
                                   <span><b>Estimated current (from history):</b> ${linkedAsset.current.toFixed(2)}</span>
                                 )}
+                                {linkedCash && (
+                                  <span><b>Estimated current (from history):</b> ${linkedCash.current.toFixed(2)}</span>
+                                )}
                               </div>
                             )}
 
@@ -421,6 +473,33 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
                                 ]}
                               />
 
+                              {entry.kind === 'cash' && (
+                                <>
+                                  <label style={{ fontWeight: 900, fontSize: '0.8rem' }}>Link to Cash Account</label>
+                                  <NeoSelect
+                                    className="neo-select"
+                                    value={entry.cashAccountId || ''}
+                                    onChange={(v) => updateMapEntry(a.id, { cashAccountId: v })}
+                                    options={[
+                                      { value: '', label: '-- Untracked Cash --' },
+                                      ...cashAccounts.map(c => ({ value: c.id, label: c.name })),
+                                    ]}
+                                  />
+                                  {entry.cashAccountId && (
+                                    <button
+                                      type="button"
+                                      className="neo-btn white"
+                                      onClick={() => applyStartingBalanceFromSimplefin('cash', entry.cashAccountId || '', bal, a.name, balDate)}
+                                    >
+                                      Set Cash Starting Balance from SimpleFIN
+                                    </button>
+                                  )}
+                                  <button type="button" className="neo-btn white" onClick={() => createAndLinkCash(a.id, a.name, bal, balDate)}>
+                                    Create Cash Account
+                                  </button>
+                                </>
+                              )}
+
                               {entry.kind === 'debt' && (
                                 <>
                                   <label style={{ fontWeight: 900, fontSize: '0.8rem' }}>Link to Debt Account</label>
@@ -469,6 +548,25 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ open, onClose }) =>
                                       Set Asset Starting Balance from SimpleFIN
                                     </button>
                                   )}
+                                  {entry.assetAccountId && (
+                                    <button
+                                      type="button"
+                                      className="neo-btn white"
+                                      onClick={() => recordValuationFromSimplefin(entry.assetAccountId || '', bal, balDate)}
+                                    >
+                                      Record Valuation from SimpleFIN
+                                    </button>
+                                  )}
+                                  {entry.assetAccountId && (
+                                    <label style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', fontWeight: 700, fontSize: '0.85rem' }}>
+                                      <input
+                                        type="checkbox"
+                                        checked={!!entry.recordValuations}
+                                        onChange={e => updateMapEntry(a.id, { recordValuations: e.target.checked })}
+                                      />
+                                      Record a valuation on every sync
+                                    </label>
+                                  )}
                                   <button type="button" className="neo-btn white" onClick={() => createAndLinkAsset(a.id, a.name)}>
                                     Create Asset Account
                                   </button>
@@ -1,8 +1,13 @@
 import React, { useMemo, useState } from 'react';
 import { useBudget } from '../context/BudgetContext';
-import type { RecurringRule, TransactionType } from '../context/BudgetContext';
+import type { RecurrenceFrequency, RecurringRule, TransactionType } from '../context/BudgetContext';
 import { Repeat, Plus, Trash2, Edit2, X } from 'lucide-react';
 import { NeoSelect } from './NeoSelect';
+import { addMonths, format, parseISO } from 'date-fns';
+import { describeSchedule, effectiveOccurrences, FREQUENCY_OPTIONS, ruleAnchorDate } from '../utils/recurrence';
+import type { Occurrence } from '../utils/recurrence';
+import { alertKey, detectRecurringSeries, ruleFromSeries } from '../utils/subscriptions';
+import type { DetectedSeries } from '../utils/subscriptions';
 
 const CATEGORIES = [
   "Rent & Utilities",
@@ -24,9 +29,36 @@ const CATEGORIES = [
 ];
 
 type RecurringForm = Omit<RecurringRule, 'id'>;
+type EndMode = 'never' | 'date' | 'count';
+
+// How many upcoming occurrences each rule lists for per-occurrence changes.
+const UPCOMING_COUNT = 4;
+
+const FREQUENCY_LABELS = Object.fromEntries(FREQUENCY_OPTIONS.map(o => [o.value, o.label]));
+
+const describeSeries = (s: DetectedSeries) =>
+  `${s.frequency === 'every-n-days' ? `Every ${s.intervalDays} days` : FREQUENCY_LABELS[s.frequency]} · ${s.count} charges since ${s.firstDate}`
+  + (s.amountVariance > 0.01 ? ` · ±${Math.round(s.amountVariance * 100)}%` : '');
+
+const formatMoney = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
 const RecurringModal: React.FC<{ onClose: () => void; defaultStartMonth: string }> = ({ onClose, defaultStartMonth }) => {
-  const { recurring, addRecurring, editRecurring, deleteRecurring, toggleRecurring, debts, assets } = useBudget();
+  const {
+    recurring, addRecurring, editRecurring, deleteRecurring, toggleRecurring, debts, assets, transactions,
+    setRecurrenceException, clearRecurrenceException, endRecurringSeries, dismissedSeries, dismissSeries
+  } = useBudget();
+
+  const [today] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const detected = useMemo(
+    () => detectRecurringSeries(transactions, recurring, today),
+    [transactions, recurring, today]
+  );
+  // Proposals are dismissed per merchant, alerts per price rise or stop.
+  const proposals = detected.filter(s => !s.ruleId && !s.stopped && !dismissedSeries.includes(s.key));
+  const alerts = detected.filter(s => {
+    const key = alertKey(s);
+    return key !== null && !dismissedSeries.includes(key);
+  });
 
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -39,9 +71,12 @@ const RecurringModal: React.FC<{ onClose: () => void; defaultStartMonth: string
     category: 'Uncategorized',
     dayOfMonth: 1,
     startMonth: defaultStartMonth,
+    frequency: 'monthly',
+    anchorDate: `${defaultStartMonth}-01`,
     debtAccountId: undefined,
     assetAccountId: undefined
   });
+  const [endMode, setEndMode] = useState<EndMode>('never');
 
   const isDebtRelated = form.type === 'debt-payment' || form.type === 'debt-interest' || (form.type as string) === 'debt-charge';
   const isAssetRelated = form.type === 'asset-deposit' || form.type === 'asset-growth';
@@ -55,9 +90,12 @@ const RecurringModal: React.FC<{ onClose: () => void; defaultStartMonth: string
       category: 'Uncategorized',
       dayOfMonth: 1,
       startMonth: defaultStartMonth,
+      frequency: 'monthly',
+      anchorDate: `${defaultStartMonth}-01`,
       debtAccountId: undefined,
       assetAccountId: undefined
     });
+    setEndMode('never');
   };
 
   const openCreate = () => {
@@ -76,20 +114,55 @@ const RecurringModal: React.FC<{ onClose: () => void; defaultStartMonth: string
       category: r.category,
       dayOfMonth: r.dayOfMonth,
       startMonth: r.startMonth || defaultStartMonth,
+      frequency: r.frequency || 'monthly',
+      anchorDate: ruleAnchorDate(r),
+      intervalDays: r.intervalDays,
+      secondDayOfMonth: r.secondDayOfMonth,
+      endDate: r.endDate,
+      occurrenceCount: r.occurrenceCount,
+      exceptions: r.exceptions,
       debtAccountId: r.debtAccountId,
       assetAccountId: r.assetAccountId
     });
+    setEndMode(r.endDate ? 'date' : r.occurrenceCount ? 'count' : 'never');
     setIsFormOpen(true);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!form.description || !Number.isFinite(form.amount) || form.amount <= 0) return;
-    if (!Number.isFinite(form.dayOfMonth) || form.dayOfMonth < 1 || form.dayOfMonth > 31) return;
-    if (!form.startMonth || form.startMonth.length !== 7) return;
+    if (!form.anchorDate || form.anchorDate.length !== 10) return;
+
+    const frequency = form.frequency || 'monthly';
+    const isSemiMonthly = frequency === 'semi-monthly';
+    const validDay = (d?: number) => Number.isFinite(d) && (d as number) >= 1 && (d as number) <= 31;
+    if (isSemiMonthly && (!validDay(form.dayOfMonth) || !validDay(form.secondDayOfMonth))) {
+      alert("Pick two days of the month between 1 and 31.");
+      return;
+    }
+    if (frequency === 'every-n-days' && !(Number(form.intervalDays) >= 1)) {
+      alert("Interval must be at least 1 day.");
+      return;
+    }
+    if (endMode === 'date' && (!form.endDate || form.endDate < form.anchorDate)) {
+      alert("End date must be on or after the first date.");
+      return;
+    }
+    if (endMode === 'count' && !(Number(form.occurrenceCount) >= 1)) {
+      alert("Occurrence count must be at least 1.");
+      return;
+    }
 
     const payload: RecurringForm = {
       ...form,
+      frequency,
+      // Keep the legacy month/day fields in step with the anchor for older clients.
+      startMonth: form.anchorDate.slice(0, 7),
+      dayOfMonth: isSemiMonthly ? form.dayOfMonth : Number(form.anchorDate.slice(8, 10)),
+      intervalDays: frequency === 'every-n-days' ? Number(form.intervalDays) : undefined,
+      secondDayOfMonth: isSemiMonthly ? form.secondDayOfMonth : undefined,
+      endDate: endMode === 'date' ? form.endDate : undefined,
+      occurrenceCount: endMode === 'count' ? Number(form.occurrenceCount) : undefined,
       // Normalize link fields based on type
       debtAccountId: isDebtRelated ? form.debtAccountId : undefined,
       assetAccountId: isAssetRelated ? form.assetAccountId : undefined
@@ -103,6 +176,33 @@ const RecurringModal: React.FC<{ onClose: () => void; defaultStartMonth: string
     resetForm();
   };
 
+  const upcomingFor = (r: RecurringRule): Occurrence[] => {
+    const from = `${defaultStartMonth}-01`;
+    const to = format(addMonths(parseISO(from), 12), 'yyyy-MM-dd');
+    return effectiveOccurrences(r, from, to).slice(0, UPCOMING_COUNT);
+  };
+
+  const changeOccurrence = (r: RecurringRule, o: Occurrence) => {
+    const amountInput = prompt(`Amount for ${o.occurrence}:`, String(o.amount));
+    if (amountInput === null) return;
+    const amount = Number(amountInput);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      alert("Amount must be a positive number.");
+      return;
+    }
+    const dateInput = prompt("Date (YYYY-MM-DD):", o.date);
+    if (dateInput === null) return;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateInput)) {
+      alert("Date must be in YYYY-MM-DD format.");
+      return;
+    }
+    setRecurrenceException(r.id, {
+      date: o.occurrence,
+      amount: amount !== r.amount ? amount : undefined,
+      moveTo: dateInput !== o.occurrence ? dateInput : undefined
+    });
+  };
+
   return (
     <div style={{
       position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
@@ -125,25 +225,107 @@ const RecurringModal: React.FC<{ onClose: () => void; defaultStartMonth: string
               <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '1rem' }}>
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
                   <div>
-                    <label style={{ fontWeight: 'bold' }}>START MONTH</label>
+                    <label style={{ fontWeight: 'bold' }}>FREQUENCY</label>
+                    <NeoSelect
+                      className="neo-select"
+                      value={form.frequency || 'monthly'}
+                      onChange={(v) => setForm(prev => ({
+                        ...prev,
+                        frequency: v as RecurrenceFrequency,
+                        intervalDays: v === 'every-n-days' ? (prev.intervalDays || 30) : prev.intervalDays,
+                        secondDayOfMonth: v === 'semi-monthly' ? (prev.secondDayOfMonth || 15) : prev.secondDayOfMonth,
+                      }))}
+                      options={FREQUENCY_OPTIONS}
+                    />
+                  </div>
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>FIRST DATE</label>
                     <input
                       className="neo-input"
-                      type="month"
-                      value={form.startMonth}
-                      onChange={e => setForm(prev => ({ ...prev, startMonth: e.target.value }))}
+                      type="date"
+                      value={form.anchorDate || ''}
+                      onChange={e => setForm(prev => ({ ...prev, anchorDate: e.target.value }))}
                     />
                   </div>
+                </div>
+
+                {form.frequency === 'every-n-days' && (
                   <div>
-                    <label style={{ fontWeight: 'bold' }}>DAY OF MONTH (1–31)</label>
+                    <label style={{ fontWeight: 'bold' }}>EVERY (DAYS)</label>
                     <input
                       className="neo-input"
                       type="number"
                       min={1}
-                      max={31}
-                      value={form.dayOfMonth}
-                      onChange={e => setForm(prev => ({ ...prev, dayOfMonth: Number(e.target.value) }))}
+                      value={form.intervalDays || ''}
+                      onChange={e => setForm(prev => ({ ...prev, intervalDays: Number(e.target.value) }))}
+                    />
+                  </div>
+                )}
+
+                {form.frequency === 'semi-monthly' && (
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                    <div>
+                      <label style={{ fontWeight: 'bold' }}>FIRST DAY (1–31)</label>
+                      <input
+                        className="neo-input"
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={form.dayOfMonth}
+                        onChange={e => setForm(prev => ({ ...prev, dayOfMonth: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <div>
+                      <label style={{ fontWeight: 'bold' }}>SECOND DAY (1–31)</label>
+                      <input
+                        className="neo-input"
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={form.secondDayOfMonth || ''}
+                        onChange={e => setForm(prev => ({ ...prev, secondDayOfMonth: Number(e.target.value) }))}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>ENDS</label>
+                    <NeoSelect
+                      className="neo-select"
+                      value={endMode}
+                      onChange={(v) => setEndMode(v as EndMode)}
+                      options={[
+                        { value: 'never', label: 'Never' },
+                        { value: 'date', label: 'On Date' },
+                        { value: 'count', label: 'After N Times' },
+                      ]}
                     />
                   </div>
+                  {endMode === 'date' && (
+                    <div>
+                      <label style={{ fontWeight: 'bold' }}>END DATE</label>
+                      <input
+                        className="neo-input"
+                        type="date"
+                        value={form.endDate || ''}
+                        onChange={e => setForm(prev => ({ ...prev, endDate: e.target.value }))}
+                      />
+                    </div>
+                  )}
+                  {endMode === 'count' && (
+                    <div>
+                      <label style={{ fontWeight: 'bold' }}>OCCURRENCES</label>
+                      <input
+                        className="neo-input"
+                        type="number"
+                        min={1}
+                        value={form.occurrenceCount || ''}
+                        onChange={e => setForm(prev => ({ ...prev, occurrenceCount: Number(e.target.value) }))}
+                      />
+                    </div>
+                  )}
                 </div>
 
                 <div>
@@ -263,6 +445,57 @@ const RecurringModal: React.FC<{ onClose: () => void; defaultStartMonth: string
           )}
         </div>
 
+        {(proposals.length > 0 || alerts.length > 0) && (
+          <div className="neo-box" style={{ border: '4px solid black', background: '#f9f9f9', marginBottom: '1.5rem' }}>
+            <h4 style={{ marginTop: 0 }}>DETECTED FROM HISTORY</h4>
+            <div className="occurrence-list" style={{ borderTop: 'none', marginTop: 0, paddingTop: 0 }}>
+              {proposals.map(s => (
+                <div key={`new-${s.key}`} className="detected-row">
+                  <div>
+                    <div>{s.description} · {formatMoney(s.amount)}</div>
+                    <div style={{ opacity: 0.7 }}>{describeSeries(s)} · next {s.nextExpected}</div>
+                  </div>
+                  <div style={{ display: 'flex', gap: '0.25rem' }}>
+                    <button className="occurrence-btn" onClick={() => addRecurring(ruleFromSeries(s))}>ADD RULE</button>
+                    <button className="occurrence-btn" onClick={() => dismissSeries(s.key)}>DISMISS</button>
+                  </div>
+                </div>
+              ))}
+              {alerts.map(s => {
+                const rule = recurring.find(r => r.id === s.ruleId);
+                return (
+                  <div key={`alert-${s.key}`} className="detected-row">
+                    <div>
+                      <div style={{ color: 'var(--neo-pink)' }}>
+                        {s.stopped
+                          ? `STOPPED? ${s.description} — last charged ${s.lastDate}`
+                          : `PRICE UP: ${s.description} ${formatMoney(s.priceIncrease!.from)} → ${formatMoney(s.priceIncrease!.to)}`}
+                      </div>
+                      <div style={{ opacity: 0.7 }}>{s.category}{rule ? ` · rule: ${rule.description}` : ''}</div>
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.25rem' }}>
+                      {rule && s.stopped && rule.enabled && (
+                        <button
+                          className="occurrence-btn"
+                          onClick={() => { if (confirm(`End "${rule.description}" from ${s.nextExpected}?`)) endRecurringSeries(rule.id, s.nextExpected); }}
+                        >
+                          END RULE
+                        </button>
+                      )}
+                      {rule && !s.stopped && s.priceIncrease && rule.amount !== s.priceIncrease.to && (
+                        <button className="occurrence-btn" onClick={() => editRecurring(rule.id, { ...rule, amount: s.priceIncrease!.to })}>
+                          UPDATE AMOUNT
+                        </button>
+                      )}
+                      <button className="occurrence-btn" onClick={() => dismissSeries(alertKey(s)!)}>DISMISS</button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         <div className="rules-stack">
           {recurring.map(r => (
             <div key={r.id} className="neo-box" style={{ background: 'white', border: '3px solid black' }}>
@@ -270,7 +503,7 @@ const RecurringModal: React.FC<{ onClose: () => void; defaultStartMonth: string
                 <div>
                   <div style={{ fontWeight: 900, fontSize: '1.1rem' }}>{r.description}</div>
                   <div style={{ opacity: 0.75, fontWeight: 700, marginTop: '0.25rem' }}>
-                    ${r.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} · {r.type.toUpperCase()} · {r.category} · Day {r.dayOfMonth} · Start {r.startMonth}
+                    ${r.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} · {r.type.toUpperCase()} · {r.category} · {describeSchedule(r)}
                   </div>
                   {(r.debtAccountId || r.assetAccountId) && (
                     <div style={{ opacity: 0.75, fontWeight: 700, marginTop: '0.25rem' }}>
@@ -291,6 +524,34 @@ const RecurringModal: React.FC<{ onClose: () => void; defaultStartMonth: string
                   <button onClick={() => { if (confirm("Delete this recurring rule?")) deleteRecurring(r.id); }} className="icon-btn trash" title="Delete"><Trash2 size={16} /></button>
                 </div>
               </div>
+
+              <div className="occurrence-list">
+                {upcomingFor(r).map(o => (
+                  <div key={o.occurrence} className="occurrence-row">
+                    <span>{o.date}{o.date !== o.occurrence ? ` (moved from ${o.occurrence})` : ''}</span>
+                    <span style={{ color: o.overridden ? 'var(--neo-pink)' : undefined }}>{formatMoney(o.amount)}</span>
+                    <div style={{ display: 'flex', gap: '0.25rem' }}>
+                      <button className="occurrence-btn" onClick={() => setRecurrenceException(r.id, { date: o.occurrence, skip: true })}>SKIP</button>
+                      <button className="occurrence-btn" onClick={() => changeOccurrence(r, o)}>CHANGE</button>
+                      <button
+                        className="occurrence-btn"
+                        onClick={() => { if (confirm(`End this series before ${o.occurrence}? Entries already generated from this date on are removed.`)) endRecurringSeries(r.id, o.occurrence); }}
+                      >
+                        END HERE
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {(r.exceptions || []).slice().sort((a, b) => a.date.localeCompare(b.date)).map(ex => (
+                  <div key={`ex-${ex.date}`} className="occurrence-row" style={{ opacity: 0.7 }}>
+                    <span>{ex.date}</span>
+                    <span>
+                      {ex.skip ? 'Skipped' : [ex.moveTo && `→ ${ex.moveTo}`, ex.amount != null && formatMoney(ex.amount)].filter(Boolean).join(' · ')}
+                    </span>
+                    <button className="occurrence-btn" onClick={() => clearRecurrenceException(r.id, ex.date)}>RESTORE</button>
+                  </div>
+                ))}
+              </div>
             </div>
           ))}
           {recurring.length === 0 && (
@@ -309,6 +570,31 @@ const RecurringModal: React.FC<{ onClose: () => void; defaultStartMonth: string
           }
           .icon-btn:active { transform: translate(2px, 2px); box-shadow: none; }
           .icon-btn.trash { color: red; border-color: red; box-shadow: 2px 2px 0 red; }
+          .occurrence-list {
+            border-top: 2px solid black;
+            margin-top: 0.75rem;
+            padding-top: 0.5rem;
+            display: grid;
+            gap: 0.25rem;
+            font-size: 0.85rem;
+            font-weight: 700;
+          }
+          .occurrence-row {
+            display: grid;
+            grid-template-columns: 1fr auto auto;
+            gap: 0.75rem;
+            align-items: center;
+          }
+          .detected-row {
+            display: grid;
+            grid-template-columns: 1fr auto;
+            gap: 0.75rem;
+            align-items: center;
+          }
+          .occurrence-btn {
+            background: white; border: 2px solid black; padding: 2px 6px;
+            font-weight: 900; font-size: 0.7rem; cursor: pointer;
+          }
         `}</style>
       </div>
     </div>
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { useBudget } from '../context/BudgetContext';
+import type { Transaction } from '../context/BudgetContext';
+import { Repeat, Check, Link2, SkipForward } from 'lucide-react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { pendingOccurrences } from '../utils/recurrence';
+import type { PendingOccurrence } from '../utils/recurrence';
+
+// Unlinked transactions within this many days of an occurrence are offered as matches.
+const MATCH_WINDOW_DAYS = 7;
+const MAX_CANDIDATES = 5;
+
+const formatMoney = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const keyOf = (p: PendingOccurrence) => `${p.rule.id}:${p.occurrence}`;
+
+const matchCandidates = (p: PendingOccurrence, txs: Transaction[]): Transaction[] =>
+  txs
+    .filter(t => !t.recurringId && t.type !== 'transfer')
+    .filter(t => Math.abs(differenceInCalendarDays(parseISO(t.date), parseISO(p.date))) <= MATCH_WINDOW_DAYS)
+    .sort((a, b) => Math.abs(a.amount - p.amount) - Math.abs(b.amount - p.amount))
+    .slice(0, MAX_CANDIDATES);
+
+/**
+ * Projected recurring entries for the period being viewed. They stay pending
+ * until confirmed, matched to an existing transaction, or skipped.
+ */
+export const RecurringQueue: React.FC<{ from: string; to: string }> = ({ from, to }) => {
+  const { recurring, transactions, confirmRecurring, matchRecurring, setRecurrenceException } = useBudget();
+  const [matchingKey, setMatchingKey] = useState<string | null>(null);
+  const [today] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+  const pending = useMemo(
+    () => pendingOccurrences(recurring, transactions, from, to),
+    [recurring, transactions, from, to]
+  );
+  const due = pending.filter(p => p.date <= today);
+
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="neo-box" style={{ marginBottom: '2rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap', borderBottom: '4px solid black', paddingBottom: '0.5rem', marginBottom: '1rem' }}>
+        <h3 style={{ margin: 0, display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <Repeat size={20} /> RECURRING — PENDING ({pending.length})
+        </h3>
+        {due.length > 0 && (
+          <button
+            className="neo-btn"
+            style={{ background: 'var(--neo-cyan)', padding: '0.4rem 0.7rem', fontSize: '0.8rem' }}
+            onClick={() => due.forEach(p => confirmRecurring(p.rule.id, p))}
+          >
+            <Check size={16} /> CONFIRM ALL DUE ({due.length})
+          </button>
+        )}
+      </div>
+
+      <div className="queue-stack">
+        {pending.map(p => {
+          const key = keyOf(p);
+          const isDue = p.date <= today;
+          const candidates = matchingKey === key ? matchCandidates(p, transactions) : [];
+          return (
+            <div key={key}>
+              <div className="queue-row">
+                <span className="queue-badge" style={{ background: isDue ? 'var(--neo-pink)' : 'white' }}>{isDue ? 'DUE' : 'UPCOMING'}</span>
+                <span>{p.date}</span>
+                <span className="queue-desc">{p.rule.description}</span>
+                <b>{formatMoney(p.amount)}</b>
+                <div style={{ display: 'flex', gap: '0.25rem' }}>
+                  <button className="icon-btn" title="Confirm" onClick={() => confirmRecurring(p.rule.id, p)}><Check size={16} /></button>
+                  <button className="icon-btn" title="Match to existing transaction" onClick={() => setMatchingKey(matchingKey === key ? null : key)}><Link2 size={16} /></button>
+                  <button className="icon-btn" title="Skip this occurrence" onClick={() => setRecurrenceException(p.rule.id, { date: p.occurrence, skip: true })}><SkipForward size={16} /></button>
+                </div>
+              </div>
+              {matchingKey === key && (
+                <div className="queue-matches">
+                  {candidates.map(t => (
+                    <button
+                      key={t.id}
+                      className="queue-match"
+                      onClick={() => { matchRecurring(p.rule.id, p.occurrence, t.id); setMatchingKey(null); }}
+                    >
+                      <span>{t.date}</span>
+                      <span className="queue-desc">{t.description}</span>
+                      <b>{formatMoney(t.amount)}</b>
+                    </button>
+                  ))}
+                  {candidates.length === 0 && (
+                    <div style={{ opacity: 0.6 }}>No unlinked transactions within {MATCH_WINDOW_DAYS} days.</div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <style>{`
+        .queue-stack {
+          display: grid;
+          gap: 0.5rem;
+          font-weight: 700;
+        }
+        .queue-row {
+          display: grid;
+          grid-template-columns: 90px 100px 1fr auto auto;
+          gap: 0.75rem;
+          align-items: center;
+        }
+        .queue-badge {
+          border: 2px solid black;
+          padding: 2px 6px;
+          font-size: 0.7rem;
+          font-weight: 900;
+          text-align: center;
+        }
+        .queue-desc { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .queue-matches {
+          display: grid;
+          gap: 0.25rem;
+          margin: 0.5rem 0 0.5rem 100px;
+          font-size: 0.85rem;
+        }
+        .queue-match {
+          display: grid;
+          grid-template-columns: 100px 1fr auto;
+          gap: 0.75rem;
+          text-align: left;
+          background: #f9f9f9;
+          border: 2px solid black;
+          padding: 4px 8px;
+          font-weight: 700;
+          cursor: pointer;
+        }
+        .icon-btn {
+          background: none; border: 2px solid black; padding: 4px; cursor: pointer;
+          box-shadow: 2px 2px 0 black; transition: transform 0.1s;
+        }
+        .icon-btn:active { transform: translate(2px, 2px); box-shadow: none; }
+      `}</style>
+    </div>
+  );
+};
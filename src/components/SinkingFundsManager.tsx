@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { useBudget } from '../context/BudgetContext';
+import { PiggyBank, Plus, Trash2, Edit2, X, RotateCw } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { NeoSelect } from './NeoSelect';
+import { nextSinkingFundCycle, sinkingFundStatus } from '../utils/sinkingFunds';
+import type { SinkingFund } from '../utils/sinkingFunds';
+
+const CATEGORIES = [
+  "Rent & Utilities",
+  "Food/Beverages/Groceries",
+  "Transportation/Gas",
+  "Personal Subscription",
+  "Business Subscription",
+  "Personal Purchase",
+  "Business Purchase",
+  "Entertainment/Fun",
+  "Interest / Fees",
+  "Health",
+  "Travel",
+  "Loan Payments",
+  "Donation",
+  "Coffee Shops",
+  "Other"
+];
+
+const formatMoney = (n: number) => `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const SinkingFundsModal: React.FC<{ onClose: () => void; today: string }> = ({ onClose, today }) => {
+  const { sinkingFunds, transactions, assets, addSinkingFund, editSinkingFund, deleteSinkingFund, addSinkingFundContribution } = useBudget();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [category, setCategory] = useState('');
+  const [assetAccountId, setAssetAccountId] = useState('');
+  const [setAside, setSetAside] = useState<Record<string, string>>({});
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setTarget('');
+    setDueDate('');
+    setCategory('');
+    setAssetAccountId('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(target);
+    if (!name || !dueDate || !Number.isFinite(amount) || amount <= 0) {
+      alert("Name, a positive target and a due date are required.");
+      return;
+    }
+    if (!category && !assetAccountId) {
+      alert("Link the fund to a category or an asset account so spending can draw it down.");
+      return;
+    }
+
+    const fields = { name, targetAmount: amount, dueDate, category: category || undefined, assetAccountId: assetAccountId || undefined };
+    const existing = sinkingFunds.find(f => f.id === editingId);
+    if (existing) {
+      editSinkingFund(existing.id, { ...existing, ...fields });
+    } else {
+      addSinkingFund({ ...fields, startDate: today, contributions: [] });
+    }
+    resetForm();
+    setIsFormOpen(false);
+  };
+
+  const startEdit = (f: SinkingFund) => {
+    setEditingId(f.id);
+    setName(f.name);
+    setTarget(f.targetAmount.toString());
+    setDueDate(f.dueDate);
+    setCategory(f.category || '');
+    setAssetAccountId(f.assetAccountId || '');
+    setIsFormOpen(true);
+  };
+
+  const contribute = (f: SinkingFund) => {
+    const amount = Number(setAside[f.id]);
+    if (!Number.isFinite(amount) || amount === 0) {
+      alert("Enter an amount to set aside (negative to take money back out).");
+      return;
+    }
+    addSinkingFundContribution(f.id, amount, today);
+    setSetAside(prev => ({ ...prev, [f.id]: '' }));
+  };
+
+  const rollOver = (f: SinkingFund) => {
+    const { id, ...rest } = nextSinkingFundCycle(f);
+    editSinkingFund(id, rest);
+  };
+
+  const categoryOptions = Array.from(new Set([...CATEGORIES, ...sinkingFunds.map(f => f.category).filter((c): c is string => !!c)]))
+    .map(c => ({ value: c, label: c }));
+
+  return (
+    <div style={{
+      position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
+      background: 'rgba(0,0,0,0.8)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 999
+    }}>
+      <div className="neo-box" style={{ width: '90%', maxWidth: '650px', maxHeight: '90vh', overflowY: 'auto', background: 'var(--neo-white)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '1rem', borderBottom: '4px solid black', paddingBottom: '1rem' }}>
+          <h2 style={{ fontSize: '2rem', margin: 0 }}>SINKING FUNDS</h2>
+          <button onClick={onClose} className="icon-btn"><X size={24} /></button>
+        </div>
+
+        <div style={{ marginBottom: '2rem' }}>
+          {!isFormOpen ? (
+            <button
+              className="neo-btn"
+              onClick={() => { resetForm(); setIsFormOpen(true); }}
+              style={{ background: '#ffd6a5', width: '100%', justifyContent: 'center' }}
+            >
+              <Plus size={24} /> ADD SINKING FUND
+            </button>
+          ) : (
+            <div className="neo-box" style={{ border: '4px solid black', background: '#f9f9f9' }}>
+              <h4 style={{ marginTop: 0 }}>{editingId ? 'EDIT FUND' : 'NEW FUND'}</h4>
+              <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '1rem' }}>
+                <div>
+                  <label style={{ fontWeight: 'bold' }}>NAME</label>
+                  <input className="neo-input" placeholder="e.g. Car Registration, Summer Holiday" value={name} onChange={e => setName(e.target.value)} />
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>TARGET ($)</label>
+                    <input className="neo-input" type="number" step="0.01" placeholder="0.00" value={target} onChange={e => setTarget(e.target.value)} />
+                  </div>
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>DUE DATE</label>
+                    <input className="neo-input" type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} />
+                  </div>
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>DRAWN DOWN BY CATEGORY</label>
+                    <NeoSelect className="neo-select" value={category} onChange={setCategory} options={[{ value: '', label: 'None' }, ...categoryOptions]} />
+                  </div>
+                  <div>
+                    <label style={{ fontWeight: 'bold' }}>SAVED IN ACCOUNT</label>
+                    <NeoSelect
+                      className="neo-select"
+                      value={assetAccountId}
+                      onChange={setAssetAccountId}
+                      options={[{ value: '', label: 'None (set aside by hand)' }, ...assets.map(a => ({ value: a.id, label: a.name }))]}
+                    />
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: '1rem' }}>
+                  <button className="neo-btn pink" type="submit" style={{ flex: 1, justifyContent: 'center' }}>
+                    {editingId ? 'UPDATE' : 'CREATE'}
+                  </button>
+                  <button className="neo-btn white" type="button" onClick={() => setIsFormOpen(false)} style={{ flex: 1, justifyContent: 'center' }}>
+                    CANCEL
+                  </button>
+                </div>
+              </form>
+            </div>
+          )}
+        </div>
+
+        <div className="stack">
+          {[...sinkingFunds].sort((a, b) => a.dueDate.localeCompare(b.dueDate)).map(f => {
+            const status = sinkingFundStatus(f, transactions, today);
+            const progress = Math.min(100, Math.max(0, (status.balance / f.targetAmount) * 100));
+            const asset = assets.find(a => a.id === f.assetAccountId);
+            return (
+              <div key={f.id} className="neo-box" style={{ background: 'white', display: 'flex', flexDirection: 'column', gap: '0.5rem', border: '3px solid black' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <h3 style={{ margin: 0 }}>{f.name}</h3>
+                  <div style={{ display: 'flex', gap: '5px' }}>
+                    <button onClick={() => rollOver(f)} className="icon-btn" title="Roll over to next year"><RotateCw size={16} /></button>
+                    <button onClick={() => startEdit(f)} className="icon-btn" title="Edit"><Edit2 size={16} /></button>
+                    <button onClick={() => { if (confirm("Delete this sinking fund?")) deleteSinkingFund(f.id); }} className="icon-btn trash" title="Delete"><Trash2 size={16} /></button>
+                  </div>
+                </div>
+
+                <div style={{ fontWeight: 700, opacity: 0.75, fontSize: '0.85rem' }}>
+                  Due {format(parseISO(f.dueDate), 'MMM d, yyyy')}
+                  {f.category ? ` · draws from ${f.category}` : ''}
+                  {asset ? ` · saved in ${asset.name}` : ''}
+                </div>
+
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', fontWeight: 900 }}>
+                  <span style={{ fontSize: '1.5rem', color: status.balance < 0 ? 'red' : 'black' }}>{formatMoney(status.balance)}</span>
+                  <span>of {formatMoney(f.targetAmount)}</span>
+                </div>
+                <div className="fund-bar"><div style={{ width: `${progress}%` }} /></div>
+
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', fontSize: '0.85rem', gap: '0.5rem', opacity: 0.8 }}>
+                  <div>Contributed: <b style={{ color: 'var(--neo-green)' }}>+{formatMoney(status.contributed)}</b></div>
+                  <div>Spent: <b style={{ color: 'var(--neo-pink)' }}>-{formatMoney(status.drawn)}</b></div>
+                </div>
+
+                {status.overdue ? (
+                  <div style={{ fontWeight: 900, color: 'red' }}>
+                    PAST DUE — roll it over once the bill is paid.
+                  </div>
+                ) : (
+                  <div style={{ fontWeight: 900 }}>
+                    {status.remaining > 0
+                      ? `SET ASIDE ${formatMoney(status.monthlySetAside)}/MO FOR ${status.monthsLeft} MONTH${status.monthsLeft === 1 ? '' : 'S'}`
+                      : 'FULLY FUNDED'}
+                  </div>
+                )}
+
+                {!asset && (
+                  <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <input
+                      className="neo-input"
+                      type="number"
+                      step="0.01"
+                      placeholder={status.monthlySetAside > 0 ? status.monthlySetAside.toFixed(2) : '0.00'}
+                      value={setAside[f.id] || ''}
+                      onChange={e => setSetAside(prev => ({ ...prev, [f.id]: e.target.value }))}
+                    />
+                    <button className="neo-btn white" onClick={() => contribute(f)}>SET ASIDE</button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {sinkingFunds.length === 0 && (
+            <p style={{ textAlign: 'center', opacity: 0.5 }}>No sinking funds yet. Plan for the big annual bills.</p>
+          )}
+        </div>
+
+        <style>{`
+          .stack {
+            display: grid;
+            gap: 1rem;
+          }
+          .fund-bar {
+            height: 14px;
+            border: 3px solid black;
+            background: #f0f0f0;
+          }
+          .fund-bar div {
+            height: 100%;
+            background: #ffd6a5;
+          }
+          .icon-btn {
+            background: none; border: 2px solid black; padding: 4px; cursor: pointer;
+            box-shadow: 2px 2px 0 black; transition: transform 0.1s;
+          }
+          .icon-btn:active { transform: translate(2px, 2px); box-shadow: none; }
+          .icon-btn.trash { color: red; border-color: red; box-shadow: 2px 2px 0 red; }
+        `}</style>
+      </div>
+    </div>
+  );
+};
+
+export const SinkingFundsManager: React.FC = () => {
+  const { sinkingFunds, transactions } = useBudget();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [today] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+  const monthly = sinkingFunds.reduce((sum, f) => {
+    const status = sinkingFundStatus(f, transactions, today);
+    return status.overdue ? sum : sum + status.monthlySetAside;
+  }, 0);
+
+  return (
+    <>
+      {isModalOpen && <SinkingFundsModal onClose={() => setIsModalOpen(false)} today={today} />}
+
+      <div
+        className="neo-box"
+        style={{
+          background: '#ffd6a5',
+          color: 'black',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          cursor: 'pointer'
+        }}
+        onClick={() => setIsModalOpen(true)}
+        title="Click to Manage Sinking Funds"
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <PiggyBank size={20} />
+          <h4 style={{ fontSize: '0.9rem', marginBottom: 0, opacity: 0.9 }}>SINKING FUNDS / MONTH</h4>
+        </div>
+        <div style={{ fontSize: '2.5rem', fontWeight: 900, marginTop: '0.5rem' }}>
+          {formatMoney(monthly)}
+        </div>
+        <div style={{ marginTop: '0.5rem', fontSize: '0.8rem', fontWeight: 'bold', textDecoration: 'underline' }}>
+          MANAGE FUNDS ({sinkingFunds.length})
+        </div>
+      </div>
+    </>
+  );
+};
@@ -3,7 +3,16 @@ import type { Transaction } from '../context/BudgetContext';
 import { useBudget } from '../context/BudgetContext';
 import { DebtsManager } from './DebtsManager';
 import { AssetsManager } from './AssetsManager';
+import { CashAccountsManager } from './CashAccountsManager';
 import { RecurringManager } from './RecurringManager';
+import { CategoryRulesManager } from './CategoryRulesManager';
+import { BudgetTargetsManager } from './BudgetTargetsManager';
+import { PlanningManager } from './PlanningManager';
+import { SinkingFundsManager } from './SinkingFundsManager';
+import { EnvelopeBalances } from './EnvelopeBalances';
+import { isSpend, sumByCategory } from '../utils/transactions';
+import { summarizeCashflow } from '../utils/cashflow';
+import { budgetsForMonths, monthsOfYear } from '../utils/budgets';
 
 interface SummaryCardsProps {
     transactions: Transaction[];
@@ -13,70 +22,28 @@ interface SummaryCardsProps {
 }
 
 export const SummaryCards: React.FC<SummaryCardsProps> = ({ transactions, currentMonth, viewMode = 'month', currentYear }) => {
-    const { categoryBudgets } = useBudget();
+    const { categoryBudgets, budgetHistory, envelopes } = useBudget();
 
     const periodKey = viewMode === 'year' ? (currentYear || currentMonth.slice(0, 4)) : currentMonth;
     const tx = useMemo(() => {
         return transactions.filter(t => t.date.startsWith(periodKey));
     }, [transactions, periodKey]);
 
-    const cashflow = useMemo(() => {
-    const isTransferDesc = (desc: string) => {
-      const d = (desc || '').toLowerCase();
-      return d.includes('transfer to') || d.includes('transfer from') || d.includes('trf to') || d.includes('trf fr') || d.includes('overdraft transfer');
-    };
-
-        const income = tx.filter(t => t.type === 'income').reduce((acc, t) => acc + t.amount, 0);
-
-    // Budget spend: cash expenses + credit card charges + debt interest
-    const spend = tx
-      .filter(t => (t.type === 'expense' && !isTransferDesc(t.description)) || (t.type as string) === 'debt-charge' || t.type === 'debt-interest')
-      .reduce((acc, t) => acc + t.amount, 0);
-
-        // Debt Payments (Outflow)
-        const debtPayments = tx
-            .filter(t => t.type === 'debt' || t.type === 'debt-payment')
-            .reduce((acc, t) => acc + t.amount, 0);
-
-    // If a debt account has charges in-period, treat its payments as transfers (avoid double-counting against spend).
-    const chargedDebtIds = new Set(
-      tx.filter(t => (t.type as string) === 'debt-charge' || t.type === 'debt-interest')
-        .map(t => t.debtAccountId)
-        .filter((x): x is string => Boolean(x))
-    );
-    const debtPaymentsLoanOnly = tx
-      .filter(t => (t.type === 'debt' || t.type === 'debt-payment') && (!t.debtAccountId || !chargedDebtIds.has(t.debtAccountId)))
-      .reduce((acc, t) => acc + t.amount, 0);
-
-        // Savings / Asset Deposits (Outflow from Cash, Inflow to Net Worth)
-        const savings = tx
-            .filter(t => t.type === 'asset-deposit')
-            .reduce((acc, t) => acc + t.amount, 0);
-
-    // "Cash Left" = Income - (Budget Spend + Savings Transfers + Loan-only debt payments)
-    // Credit-card payments are not treated as spend if the underlying charges are already counted.
-    const cashLeft = income - (spend + savings + debtPaymentsLoanOnly);
+    const cashflow = useMemo(() => summarizeCashflow(tx), [tx]);
 
-        // Rates (avoid division by 0)
-        const savingsRate = income > 0 ? savings / income : 0;
-        const debtPayoffRate = income > 0 ? debtPayments / income : 0;
-
-    return { income, spend, debtPayments, savings, cashLeft, savingsRate, debtPayoffRate };
-    }, [tx]);
+    // Year view sums each month's own targets, so mid-year budget changes are reflected.
+    const periodBudgets = useMemo(
+        () => budgetsForMonths(categoryBudgets, budgetHistory, viewMode === 'year' ? monthsOfYear(periodKey) : [currentMonth]),
+        [categoryBudgets, budgetHistory, viewMode, periodKey, currentMonth]
+    );
 
     const budgetHealth = useMemo(() => {
         // Only compare "expense" types to category budgets (keeps it intuitive)
-        const spendByCategory: Record<string, number> = {};
-        tx
-            .filter(t => (t.type === 'expense' && !((t.description || '').toLowerCase().includes('transfer'))) || (t.type as string) === 'debt-charge' || t.type === 'debt-interest')
-            .forEach(t => {
-                spendByCategory[t.category] = (spendByCategory[t.category] || 0) + t.amount;
-            });
+        const spendByCategory = sumByCategory(tx.filter(isSpend));
 
         const overspent = Object.entries(spendByCategory)
             .map(([category, actual]) => {
-                const budgetMultiplier = viewMode === 'year' ? 12 : 1;
-                const budget = (categoryBudgets[category] ?? 0) * budgetMultiplier;
+                const budget = periodBudgets[category] ?? 0;
                 const overBy = budget > 0 ? actual - budget : 0;
                 return { category, actual, budget, overBy };
             })
@@ -85,7 +52,7 @@ export const SummaryCards: React.FC<SummaryCardsProps> = ({ transactions, curren
             .slice(0, 3);
 
         return { overspent };
-    }, [tx, categoryBudgets, viewMode]);
+    }, [tx, periodBudgets]);
 
     // Standard Monthly Cards
     const cards = [
@@ -161,15 +128,27 @@ export const SummaryCards: React.FC<SummaryCardsProps> = ({ transactions, curren
                         </div>
                     )}
                 </div>
+
+                {envelopes.enabled && viewMode === 'month' && <EnvelopeBalances month={currentMonth} />}
             </div>
 
             <div className="managers-grid">
+                {/* Checking / Cash Balances (Managed via Modal) */}
+                <CashAccountsManager />
                 {/* The Total Outstanding Debt Card (Managed via Modal) */}
                 <DebtsManager />
                 {/* The Total Assets Card (Managed via Modal) */}
                 <AssetsManager />
+                {/* Month-by-month Category Targets */}
+                <BudgetTargetsManager currentMonth={currentMonth} />
+                {/* Zero-based Monthly Plan */}
+                <PlanningManager currentMonth={currentMonth} />
+                {/* Saving Up for Irregular Bills */}
+                <SinkingFundsManager />
                 {/* Recurring Rules */}
                 <RecurringManager currentMonth={currentMonth} />
+                {/* Auto-categorization Rules */}
+                <CategoryRulesManager />
             </div>
 
             <style>{`
@@ -0,0 +1,141 @@
+import React from 'react';
+import { useBudget } from '../context/BudgetContext';
+import { X } from 'lucide-react';
+import { conflictKey, recordHash } from '../utils/sync';
+import type { SyncConflict } from '../utils/sync';
+
+const COLLECTION_LABELS: Record<string, string> = {
+  transactions: 'Transaction',
+  debts: 'Debt',
+  assets: 'Asset',
+  cashAccounts: 'Cash account',
+  recurring: 'Recurring rule',
+  sinkingFunds: 'Sinking fund',
+  netWorthSnapshots: 'Net worth snapshot',
+};
+
+const SETTINGS_LABELS: Record<string, string> = {
+  categoryBudgets: 'Default budgets',
+  budgetHistory: 'Monthly budgets',
+  envelopes: 'Envelope settings',
+  plans: 'Monthly plans',
+  categoryRules: 'Category rules',
+  dismissedSeries: 'Dismissed subscriptions',
+};
+
+// Fields shown per conflict before the rest are summarized.
+const MAX_FIELDS = 8;
+
+// Arrays (e.g. the category rule list) compare item by item.
+const asObject = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? value as Record<string, unknown> : {};
+
+const describe = (c: SyncConflict): string => {
+  if (c.collection === 'settings') return SETTINGS_LABELS[c.id] || c.id;
+  const r = asObject(c.local ?? c.remote);
+  const label = COLLECTION_LABELS[c.collection] || c.collection;
+  if (c.collection === 'transactions') return `${label}: ${r.date} ${r.description} ($${Number(r.amount || 0).toFixed(2)})`;
+  return `${label}: ${r.name ?? r.pattern ?? r.date ?? c.id}`;
+};
+
+const preview = (value: unknown): string => {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+// Top-level fields whose values differ between the two copies.
+const changedFields = (c: SyncConflict): string[] => {
+  const mine = asObject(c.local);
+  const theirs = asObject(c.remote);
+  return [...new Set([...Object.keys(mine), ...Object.keys(theirs)])]
+    .filter(k => recordHash(mine[k]) !== recordHash(theirs[k]));
+};
+
+/** Records changed both here and on another device, with a choice of which copy to keep. */
+export const SyncConflictsModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { syncConflicts, resolveSyncConflict } = useBudget();
+
+  const resolveAll = (keep: 'mine' | 'theirs') => {
+    syncConflicts.forEach(c => resolveSyncConflict(c, keep));
+  };
+
+  return (
+    <div style={{
+      position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
+      background: 'rgba(0,0,0,0.8)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 999
+    }}>
+      <div className="neo-box" style={{ width: '90%', maxWidth: '750px', maxHeight: '90vh', overflowY: 'auto', background: 'var(--neo-white)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '1rem', borderBottom: '4px solid black', paddingBottom: '1rem' }}>
+          <h2 style={{ fontSize: '2rem', margin: 0 }}>SYNC CONFLICTS</h2>
+          <button onClick={onClose} className="icon-btn"><X size={24} /></button>
+        </div>
+
+        {syncConflicts.length === 0 ? (
+          <p style={{ fontWeight: 700 }}>All conflicts resolved.</p>
+        ) : (
+          <>
+            <p style={{ fontWeight: 700, marginTop: 0 }}>
+              These records were changed on this device and on another one since they last synced. Choose which copy to keep.
+            </p>
+            <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+              <button className="neo-btn pink" onClick={() => resolveAll('mine')}>KEEP ALL MINE</button>
+              <button className="neo-btn white" onClick={() => resolveAll('theirs')}>KEEP ALL CLOUD</button>
+            </div>
+
+            <div style={{ display: 'grid', gap: '1rem' }}>
+              {syncConflicts.map(c => {
+                const fields = changedFields(c);
+                return (
+                  <div key={conflictKey(c)} style={{ border: '3px solid black', padding: '0.75rem', display: 'grid', gap: '0.5rem' }}>
+                    <div style={{ fontWeight: 900 }}>{describe(c)}</div>
+                    {c.remoteUpdatedAt && (
+                      <div style={{ fontSize: '0.8rem', opacity: 0.7 }}>Cloud copy saved {new Date(c.remoteUpdatedAt).toLocaleString()}</div>
+                    )}
+
+                    {c.local === undefined || c.remote === undefined ? (
+                      <div style={{ fontWeight: 700 }}>
+                        {c.local === undefined ? 'Deleted on this device, edited on another.' : 'Edited on this device, deleted on another.'}
+                      </div>
+                    ) : (
+                      <div className="conflict-fields">
+                        <b>FIELD</b><b>MINE</b><b>CLOUD</b>
+                        {fields.slice(0, MAX_FIELDS).map(k => (
+                          <React.Fragment key={k}>
+                            <span>{k}</span>
+                            <span>{preview(asObject(c.local)[k])}</span>
+                            <span>{preview(asObject(c.remote)[k])}</span>
+                          </React.Fragment>
+                        ))}
+                        {fields.length > MAX_FIELDS && <span style={{ gridColumn: '1 / -1', opacity: 0.7 }}>…and {fields.length - MAX_FIELDS} more</span>}
+                      </div>
+                    )}
+
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                      <button className="neo-btn pink" style={{ padding: '0.3rem 0.6rem', fontSize: '0.8rem' }} onClick={() => resolveSyncConflict(c, 'mine')}>
+                        {c.local === undefined ? 'KEEP DELETED' : 'KEEP MINE'}
+                      </button>
+                      <button className="neo-btn white" style={{ padding: '0.3rem 0.6rem', fontSize: '0.8rem' }} onClick={() => resolveSyncConflict(c, 'theirs')}>
+                        {c.remote === undefined ? 'DELETE IT' : 'KEEP CLOUD'}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        <style>{`
+          .conflict-fields {
+            display: grid;
+            grid-template-columns: auto 1fr 1fr;
+            gap: 0.25rem 0.75rem;
+            font-size: 0.85rem;
+            word-break: break-all;
+          }
+        `}</style>
+      </div>
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import type { Transaction, TransactionType } from '../context/BudgetContext';
 import { Trash2, Edit2 } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { TransactionModal } from './TransactionModal';
+import { accountRefLabel } from '../utils/transactions';
 
 interface TransactionListProps {
     transactions: Transaction[];
@@ -11,7 +12,7 @@ interface TransactionListProps {
 }
 
 export const TransactionList: React.FC<TransactionListProps> = ({ transactions, emptyLabel = 'NO DATA' }) => {
-    const { deleteTransaction, editTransaction } = useBudget();
+    const { deleteTransaction, editTransaction, debts, assets, cashAccounts } = useBudget();
     const [editingTx, setEditingTx] = useState<Transaction | null>(null);
 
     if (transactions.length === 0) {
@@ -48,6 +49,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({ transactions,
         if ((t as string) === 'debt-charge') return 'DEBT CHG';
         if (t === 'asset-deposit') return 'SAVE';
         if (t === 'asset-growth') return 'GROW';
+        if (t === 'transfer') return 'XFER';
         return '';
     };
 
@@ -59,6 +61,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({ transactions,
         if ((t as string) === 'debt-charge') return 'var(--neo-pink)';
         if (t === 'asset-deposit') return '#00F0FF'; // Cyan
         if (t === 'asset-growth') return 'var(--neo-green)';
+        if (t === 'transfer') return '#888';
         return 'black';
     };
 
@@ -98,11 +101,24 @@ export const TransactionList: React.FC<TransactionListProps> = ({ transactions,
                                             {t.description}
                                             {t.debtAccountId && <span className="pill pink">Linked Debt</span>}
                                             {t.assetAccountId && <span className="pill cyan">Linked Asset</span>}
+                                            {t.splits && t.splits.length > 0 && <span className="pill">Split</span>}
+                                            {t.tags?.map(tag => <span key={tag} className="pill">#{tag}</span>)}
+                                            {t.type === 'transfer' && (
+                                                <span className="pill">{accountRefLabel(t.fromAccount, debts, assets, cashAccounts)} → {accountRefLabel(t.toAccount, debts, assets, cashAccounts)}</span>
+                                            )}
                                         </div>
                                     </td>
 
                                     <td>
-                                        <span className="badge">{t.category}</span>
+                                        {t.splits && t.splits.length > 0 ? (
+                                            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', alignItems: 'flex-start' }}>
+                                                {t.splits.map((sp, idx) => (
+                                                    <span key={idx} className="badge">{sp.category} · ${sp.amount.toFixed(2)}</span>
+                                                ))}
+                                            </div>
+                                        ) : (
+                                            <span className="badge">{t.category}</span>
+                                        )}
                                     </td>
 
                                     <td style={{ textAlign: 'right' }}>
@@ -112,7 +128,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({ transactions,
                                             fontSize: '1.1rem',
                                             display: 'flex', flexDirection: 'column', alignItems: 'flex-end'
                                         }}>
-                                            <span>{t.type === 'expense' || t.type === 'debt-payment' || t.type === 'debt' || (t.type as string) === 'debt-charge' || t.type === 'asset-deposit' ? '-' : '+'}${t.amount.toFixed(2)}</span>
+                                            <span>{t.type === 'transfer' ? '⇄' : t.type === 'expense' || t.type === 'debt-payment' || t.type === 'debt' || (t.type as string) === 'debt-charge' || t.type === 'asset-deposit' ? '-' : '+'}${t.amount.toFixed(2)}</span>
                                             <span style={{ fontSize: '0.6rem', opacity: 0.6 }}>{getTypeLabel(t.type)}</span>
                                         </div>
                                     </td>
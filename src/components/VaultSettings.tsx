@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { useBudget } from '../context/BudgetContext';
+
+// Short passphrases are the weak point of a passphrase-derived key.
+const MIN_PASSPHRASE_LENGTH = 12;
+
+/** Turns on end-to-end encryption of the cloud copy, or unlocks it on this device. */
+export const VaultSettings: React.FC = () => {
+  const { user, vaultEnabled, vaultLocked, enableVault, unlockVault, lockVault } = useBudget();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [remember, setRemember] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (vaultLocked) {
+      setBusy(true);
+      const ok = await unlockVault(passphrase, remember);
+      setBusy(false);
+      if (ok) setPassphrase('');
+      return;
+    }
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      alert(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      alert("The passphrases don't match.");
+      return;
+    }
+    if (!confirm(
+      'Turn on end-to-end encryption?\n\n' +
+      'The passphrase never leaves your devices. If you forget it, your cloud data cannot be recovered, not even by us.\n\n' +
+      'SimpleFIN and AI statement import will be turned off, and this cannot be undone.'
+    )) return;
+    setBusy(true);
+    const ok = await enableVault(passphrase, remember);
+    setBusy(false);
+    if (ok) {
+      setPassphrase('');
+      setConfirmation('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="neo-box" style={{ border: '3px dashed black', background: '#fff4fb' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.75rem' }}>
+        <Lock size={18} />
+        <strong>End-to-End Encryption</strong>
+        <span className="badge" style={{ marginLeft: 'auto' }}>
+          {vaultLocked ? 'Locked' : vaultEnabled ? 'On' : 'Off'}
+        </span>
+      </div>
+
+      {vaultEnabled && !vaultLocked ? (
+        <>
+          <p style={{ fontSize: '0.85rem', opacity: 0.8, marginTop: 0 }}>
+            Your cloud copy is encrypted with a key derived from your passphrase on this device. The server only stores ciphertext.
+          </p>
+          <button type="button" className="neo-btn white" onClick={lockVault}>
+            Lock On This Device
+          </button>
+        </>
+      ) : (
+        <>
+          <p style={{ fontSize: '0.85rem', opacity: 0.8, marginTop: 0 }}>
+            {vaultLocked
+              ? 'This vault is encrypted. Enter its passphrase to load and sync it on this device.'
+              : 'Encrypt transactions, accounts, recurring rules and budgets in your browser before they are synced. The server only keeps ciphertext.'}
+          </p>
+          <label style={{ fontWeight: 900, fontSize: '0.8rem' }}>Passphrase</label>
+          <input
+            type="password"
+            className="neo-input"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            placeholder="Vault passphrase"
+            disabled={!user || busy}
+            required
+          />
+          {!vaultLocked && (
+            <>
+              <label style={{ fontWeight: 900, fontSize: '0.8rem', marginTop: '0.75rem' }}>Confirm Passphrase</label>
+              <input
+                type="password"
+                className="neo-input"
+                value={confirmation}
+                onChange={e => setConfirmation(e.target.value)}
+                placeholder="Repeat passphrase"
+                disabled={!user || busy}
+                required
+              />
+            </>
+          )}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', marginTop: '0.75rem' }}>
+            <input type="checkbox" checked={remember} onChange={e => setRemember(e.target.checked)} disabled={!user || busy} />
+            Remember on this device (otherwise you'll enter the passphrase again after a reload)
+          </label>
+          <button type="submit" className="neo-btn pink" disabled={busy || !user} style={{ marginTop: '0.75rem' }}>
+            {busy ? 'Working...' : vaultLocked ? 'Unlock' : 'Turn On Encryption'}
+          </button>
+        </>
+      )}
+    </form>
+  );
+};
@@ -1,8 +1,42 @@
 /* eslint-disable react-refresh/only-export-components */
-import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import Papa from 'papaparse';
+import { isTransferDescription, migrateLegacyTransfers } from '../utils/transactions';
+import { applyCategoryRules, DEFAULT_CATEGORY_RULES, findMatchingRule } from '../utils/rules';
+import { dayBefore } from '../utils/recurrence';
+import type { Occurrence } from '../utils/recurrence';
+import { reconcileWithRecurring } from '../utils/reconcile';
+import { budgetsForMonth as budgetsForMonthIn, copyPreviousMonthBudgets, setBudgetInHistory } from '../utils/budgets';
+import type { BudgetHistory, BudgetLimits, BudgetScope } from '../utils/budgets';
+import { DEFAULT_ENVELOPES, envelopeBalances } from '../utils/envelopes';
+import type { EnvelopeBalance, EnvelopeSettings } from '../utils/envelopes';
+import { planForMonth, setPlanLine } from '../utils/plan';
+import type { PlanHistory, PlanSection } from '../utils/plan';
+import type { SinkingFund } from '../utils/sinkingFunds';
+import type { NetWorthSnapshot } from '../utils/netWorth';
+import { applyToList, conflictFrom, conflictKey, EMPTY_SYNC_BASE, localChanges, mergeConflicts, mergeRemote, recordPushed, recordRewritten, resolveConflictBase, toRecordSet } from '../utils/sync';
+import type { RecordChange, RecordSet, RemoteRecord, SettingsKey, SyncBase, SyncConflict } from '../utils/sync';
+import { createVault, forgetVaultKey, loadRememberedVaultKey, openRecord, openVault, rememberVaultKey, sealChange, VaultIntegrityError } from '../utils/vault';
+import type { VaultParams } from '../utils/vault';
+import { categorizeImport, CONFIDENT_SUGGESTION, suggestCategory as suggestFromModel, trainCategoryModel } from '../utils/classifier';
+import type { CategorySuggestion } from '../utils/classifier';
+
+export type TransactionType = 'income' | 'expense' | 'debt-payment' | 'debt-interest' | 'debt-charge' | 'asset-deposit' | 'asset-growth' | 'transfer';
+
+export type AccountKind = 'cash' | 'debt' | 'asset';
+
+// One side of a transfer. `id` is omitted for untracked accounts (e.g. cash not tied to a CashAccount).
+export interface AccountRef {
+  kind: AccountKind;
+  id?: string;
+}
 
-export type TransactionType = 'income' | 'expense' | 'debt-payment' | 'debt-interest' | 'debt-charge' | 'asset-deposit' | 'asset-growth';
+export interface TransactionSplit {
+  category: string;
+  amount: number;
+  debtAccountId?: string;
+  assetAccountId?: string;
+}
 
 export interface Transaction {
   id: string;
@@ -14,24 +48,92 @@ export interface Transaction {
   debtAccountId?: string;
   assetAccountId?: string; // Link to Asset
   recurringId?: string; // If generated from a recurring rule
+  recurrenceDate?: string; // Scheduled date of the occurrence this fulfils (survives date edits)
   source?: string;
   externalId?: string;
   simplefinAccountId?: string;
   simplefinAccountName?: string;
+  cashAccountId?: string; // Checking/cash account the money moved through
+  tags?: string[];
+  splits?: TransactionSplit[]; // Category breakdown; line amounts sum to `amount`
+  fromAccount?: AccountRef; // type 'transfer' only
+  toAccount?: AccountRef; // type 'transfer' only
+}
+
+// Installment loan terms; the rate is the account's `apr`.
+export interface LoanTerms {
+  principal: number; // original amount borrowed
+  termMonths: number;
+  startDate: string; // YYYY-MM-DD first scheduled payment
 }
 
 export interface DebtAccount {
   id: string;
   name: string;
   startingBalance: number;
+  apr?: number; // percent, e.g. 19.99
+  minimumPayment?: number;
+  dueDay?: number; // 1-31, payment due day
+  creditLimit?: number; // cards only
+  statementClosingDay?: number; // 1-31, cards only
+  loan?: LoanTerms; // set for amortizing loans; interest accrues automatically every month
+}
+
+export interface SavingsGoal {
+  label: string; // e.g. Emergency Fund, Down Payment
+  targetAmount: number;
+  targetDate: string; // YYYY-MM-DD
+}
+
+// Market value of an asset on a date (brokerage statement, home appraisal).
+export interface AssetValuation {
+  date: string; // YYYY-MM-DD
+  value: number;
+  source?: 'manual' | 'simplefin';
 }
 
 export interface AssetAccount {
   id: string;
   name: string;
   startingBalance: number;
+  goal?: SavingsGoal;
+  valuations?: AssetValuation[]; // at most one per date
+}
+
+export interface CashAccount {
+  id: string;
+  name: string;
+  startingBalance: number;
+  startingDate: string; // YYYY-MM-DD; balance as of this day, earlier transactions are ignored
 }
 
+// User-editable auto-categorization. Conditions are ANDed; rules are tried in list order.
+export interface CategoryRule {
+  id: string;
+  enabled: boolean;
+  pattern: string; // matched against the description; substring unless isRegex
+  isRegex: boolean;
+  minAmount?: number;
+  maxAmount?: number;
+  simplefinAccountId?: string;
+  // Actions (unset = leave as-is)
+  category?: string;
+  type?: TransactionType;
+  debtAccountId?: string;
+  assetAccountId?: string;
+  tags?: string[];
+}
+
+// Per-occurrence change to a recurring series, keyed by the scheduled date.
+export interface RecurrenceException {
+  date: string; // YYYY-MM-DD scheduled occurrence
+  skip?: boolean; // also recorded when a generated entry is deleted, so it isn't recreated
+  amount?: number;
+  moveTo?: string; // YYYY-MM-DD
+}
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'semi-monthly' | 'monthly' | 'quarterly' | 'yearly' | 'every-n-days';
+
 export interface RecurringRule {
   id: string;
   enabled: boolean;
@@ -39,15 +141,24 @@ export interface RecurringRule {
   amount: number;
   type: TransactionType;
   category: string;
-  dayOfMonth: number; // 1-31
+  dayOfMonth: number; // 1-31; monthly/quarterly/yearly day, first day for semi-monthly
   startMonth: string; // YYYY-MM (inclusive)
+  frequency?: RecurrenceFrequency; // default 'monthly'
+  anchorDate?: string; // YYYY-MM-DD first occurrence; older rules derive it from startMonth + dayOfMonth
+  intervalDays?: number; // 'every-n-days' only
+  secondDayOfMonth?: number; // 'semi-monthly' only
+  endDate?: string; // YYYY-MM-DD inclusive
+  occurrenceCount?: number; // stop after this many occurrences
+  exceptions?: RecurrenceException[];
   debtAccountId?: string;
   assetAccountId?: string;
 }
 
+// The password never leaves the login form; requests carry the session token instead.
 interface User {
   email: string;
-  key: string;
+  token: string;
+  expiresAt?: string;
   openRouterKey?: string;
 }
 
@@ -60,11 +171,34 @@ interface BudgetContextType {
   transactions: Transaction[];
   debts: DebtAccount[];
   assets: AssetAccount[]; // New
+  cashAccounts: CashAccount[];
   recurring: RecurringRule[];
+  categoryRules: CategoryRule[];
+  dismissedSeries: string[]; // dismissed subscription proposals (merchant keys) and alerts (alertKey)
   user: User | null;
   categoryBudgets: Record<string, number>;
+  budgetHistory: BudgetHistory;
+  budgetsForMonth: (yyyyMM: string) => BudgetLimits;
+  setMonthlyBudget: (yyyyMM: string, category: string, limit: number, scope: BudgetScope) => void;
+  copyBudgetsFromPreviousMonth: (yyyyMM: string) => void;
+  envelopes: EnvelopeSettings;
+  setEnvelopeMode: (enabled: boolean, startMonth: string) => void;
+  moveEnvelopeFunds: (month: string, from: string, to: string, amount: number) => void;
+  deleteEnvelopeMove: (id: string) => void;
+  envelopeBalancesForMonth: (yyyyMM: string) => EnvelopeBalance[];
+  plans: PlanHistory;
+  setPlanAmount: (yyyyMM: string, section: PlanSection, key: string, amount: number) => void;
+  sinkingFunds: SinkingFund[];
+  addSinkingFund: (f: Omit<SinkingFund, 'id'>) => void;
+  editSinkingFund: (id: string, updated: Omit<SinkingFund, 'id'>) => void;
+  deleteSinkingFund: (id: string) => void;
+  addSinkingFundContribution: (id: string, amount: number, date: string) => void;
+  netWorthSnapshots: NetWorthSnapshot[];
+  addNetWorthSnapshot: (s: Omit<NetWorthSnapshot, 'id'>) => void;
+  deleteNetWorthSnapshot: (id: string) => void;
 
   addTransaction: (t: Omit<Transaction, 'id'>) => void;
+  addImportedTransactions: (txs: Omit<Transaction, 'id'>[]) => { added: number; matched: number };
   editTransaction: (id: string, updated: Omit<Transaction, 'id'>) => void;
   deleteTransaction: (id: string) => void;
 
@@ -75,12 +209,31 @@ interface BudgetContextType {
   addAsset: (a: Omit<AssetAccount, 'id'>) => string; // New
   editAsset: (id: string, updated: Omit<AssetAccount, 'id'>) => void; // New
   deleteAsset: (id: string) => void; // New
+  setAssetValuation: (assetId: string, valuation: AssetValuation) => void;
+  deleteAssetValuation: (assetId: string, date: string) => void;
+
+  addCashAccount: (c: Omit<CashAccount, 'id'>) => string;
+  editCashAccount: (id: string, updated: Omit<CashAccount, 'id'>) => void;
+  deleteCashAccount: (id: string) => void;
 
   addRecurring: (r: Omit<RecurringRule, 'id'>) => void;
   editRecurring: (id: string, updated: Omit<RecurringRule, 'id'>) => void;
   deleteRecurring: (id: string) => void;
   toggleRecurring: (id: string, enabled: boolean) => void;
-  generateRecurringForMonth: (yyyyMM: string) => void;
+  setRecurrenceException: (ruleId: string, exception: RecurrenceException) => void;
+  clearRecurrenceException: (ruleId: string, occurrence: string) => void;
+  endRecurringSeries: (ruleId: string, occurrence: string) => void;
+  confirmRecurring: (ruleId: string, occurrence: Occurrence) => void;
+  matchRecurring: (ruleId: string, occurrence: string, transactionId: string) => void;
+  dismissSeries: (key: string) => void;
+
+  addCategoryRule: (r: Omit<CategoryRule, 'id'>) => void;
+  editCategoryRule: (id: string, updated: Omit<CategoryRule, 'id'>) => void;
+  deleteCategoryRule: (id: string) => void;
+  moveCategoryRule: (id: string, direction: -1 | 1) => void;
+  applyCategoryRulesToExisting: () => { updated: number };
+  suggestCategory: (t: Pick<Transaction, 'description' | 'amount'>) => CategorySuggestion | null;
+  categorizeImported: <T extends Omit<Transaction, 'id'>>(t: T) => T;
 
   setCategoryBudget: (category: string, limit: number) => void;
   importCSV: (file: File) => Promise<void>;
@@ -89,6 +242,14 @@ interface BudgetContextType {
   loadFromCloud: (email: string, pw: string) => Promise<boolean>;
   logout: () => void;
   isSyncing: boolean;
+  syncError: string | null;
+  syncConflicts: SyncConflict[];
+  resolveSyncConflict: (conflict: SyncConflict, keep: 'mine' | 'theirs') => void;
+  vaultEnabled: boolean; // the cloud copy is end-to-end encrypted
+  vaultLocked: boolean; // encrypted, but this device doesn't have the key yet
+  enableVault: (passphrase: string, remember: boolean) => Promise<boolean>;
+  unlockVault: (passphrase: string, remember: boolean) => Promise<boolean>; // `remember` keeps the key on this device across reloads
+  lockVault: () => void;
   updatePassword: (currentPw: string, newPw: string) => Promise<boolean>;
   saveOpenRouterKey: (key: string) => Promise<boolean>;
   aiImportStatements: (files: File[], categoriesHint: string[], model?: string) => Promise<ImportResult>;
@@ -96,7 +257,7 @@ interface BudgetContextType {
   simplefinStatus: () => Promise<boolean>;
   simplefinClaim: (setupTokenOrClaimUrl: string) => Promise<boolean>;
   simplefinDisconnect: () => Promise<boolean>;
-  simplefinSync: (daysBack?: number, includePending?: boolean) => Promise<{ added: number; fetched: number; errors: string[]; meta?: unknown }>;
+  simplefinSync: (daysBack?: number, includePending?: boolean) => Promise<{ added: number; matched: number; fetched: number; errors: string[]; meta?: unknown }>;
 
   getSimplefinAccounts: () => Array<{ id: string; name: string; balance?: string; balanceDate?: number }>;
   getSimplefinAccountMap: () => Record<string, SimplefinAccountMapping>;
@@ -107,8 +268,10 @@ interface BudgetContextType {
 type SimplefinAccountKind = 'cash' | 'debt' | 'asset' | 'ignore';
 type SimplefinAccountMapping = {
   kind: SimplefinAccountKind;
+  cashAccountId?: string;
   debtAccountId?: string;
   assetAccountId?: string;
+  recordValuations?: boolean; // asset only: save the reported balance as a valuation on each sync
 };
 
 export interface ImportedTransaction extends Omit<Transaction, 'id'> {
@@ -123,6 +286,122 @@ export interface ImportResult {
 
 const BudgetContext = createContext<BudgetContextType | undefined>(undefined);
 
+// Settings at these values are treated as unset when syncing.
+const SETTINGS_DEFAULTS: Record<SettingsKey, unknown> = {
+  categoryBudgets: {},
+  budgetHistory: {},
+  envelopes: DEFAULT_ENVELOPES,
+  plans: {},
+  categoryRules: DEFAULT_CATEGORY_RULES,
+  dismissedSeries: [],
+};
+
+// Drops every link from a transaction to a deleted debt or asset account. Transfer legs fall
+// back to plain cash, like legs of a deleted cash account, so the row stays editable.
+const unlinkAccount = (t: Transaction, kind: 'debt' | 'asset', id: string): Transaction => {
+  const field = kind === 'debt' ? 'debtAccountId' : 'assetAccountId';
+  const unlinkRef = (ref?: AccountRef) => (ref?.kind === kind && ref.id === id) ? { kind: 'cash' as const } : ref;
+  const linked = t[field] === id || t.fromAccount?.id === id || t.toAccount?.id === id || t.splits?.some(s => s[field] === id);
+  if (!linked) return t;
+  return {
+    ...t,
+    [field]: t[field] === id ? undefined : t[field],
+    fromAccount: unlinkRef(t.fromAccount),
+    toAccount: unlinkRef(t.toAccount),
+    splits: t.splits?.map(s => s[field] === id ? { ...s, [field]: undefined } : s),
+  };
+};
+
+const loadSyncBase = (): SyncBase => {
+  const saved = localStorage.getItem('budget_sync_base');
+  return saved ? JSON.parse(saved) : EMPTY_SYNC_BASE;
+};
+
+const saveSyncBase = (base: SyncBase) => {
+  localStorage.setItem('budget_sync_base', JSON.stringify(base));
+};
+
+const authHeaders = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+// The server no longer accepts the session (expired, logged out elsewhere or password changed).
+class SessionExpiredError extends Error {}
+
+// Exchanges email + password for a session token; `create` opens the account if it doesn't exist.
+const openSession = async (email: string, password: string, create: boolean): Promise<{ token: string; expiresAt: string }> => {
+  const res = await fetch('/api/profile?action=login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password, create })
+  });
+  if (!res.ok) throw new Error(await res.text());
+  return res.json() as Promise<{ token: string; expiresAt: string }>;
+};
+
+// The cloud vault is end-to-end encrypted and this device hasn't been given the passphrase.
+class VaultLockedError extends Error {}
+
+const VAULT_LOCKED_MESSAGE = 'This vault is end-to-end encrypted. Enter its passphrase in PROFILE to sync this device.';
+
+const rejectedMessage = (count: number) =>
+  `The cloud refused ${count} change${count === 1 ? '' : 's'} from this device. ${count === 1 ? 'It stays' : 'They stay'} here and will be sent again on the next sync.`;
+
+/**
+ * Pulls the records other devices changed since our last sync, then pushes
+ * the records changed here. Each pushed record is checked against the version
+ * it was based on, so a write another device made in between comes back as a
+ * conflict for that record only. With a vault key, records are decrypted as
+ * they arrive and encrypted before they leave. Returns the remote changes to
+ * apply locally, records changed on both sides, how many changes the server
+ * rejected (they stay pending here), and whether the cloud copy is encrypted.
+ */
+const syncRecords = async (
+  token: string,
+  local: RecordSet,
+  pending: SyncConflict[],
+  key: CryptoKey | null
+): Promise<{ apply: RemoteRecord[]; conflicts: SyncConflict[]; rejected: number; encrypted: boolean }> => {
+  const open = (list: RemoteRecord[]) => (key ? Promise.all(list.map(r => openRecord(key, r))) : Promise.resolve(list));
+
+  const start = loadSyncBase();
+  const res = await fetch(`/api/sync?since=${start.revision}`, { headers: authHeaders(token) });
+  if (res.status === 401) throw new SessionExpiredError(await res.text());
+  if (!res.ok) throw new Error(await res.text());
+  const pulled = await res.json() as { revision: number; records: RemoteRecord[]; encrypted?: boolean };
+  const encrypted = Boolean(pulled.encrypted);
+  // Nothing is merged or pushed until the vault is unlocked here.
+  if (encrypted && !key) throw new VaultLockedError(VAULT_LOCKED_MESSAGE);
+
+  const merged = mergeRemote(local, start, await open(pulled.records), pulled.revision);
+  let base = merged.base;
+  let conflicts = merged.conflicts;
+  let rejected = 0;
+
+  const changes = localChanges(merged.records, base, new Set([...pending, ...conflicts].map(conflictKey)));
+  if (changes.length > 0) {
+    const post = await fetch('/api/sync', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders(token) },
+      body: JSON.stringify({ changes: key ? await Promise.all(changes.map(c => sealChange(key, c))) : changes })
+    });
+    if (post.status === 401) throw new SessionExpiredError(await post.text());
+    if (!post.ok) throw new Error(await post.text());
+
+    const result = await post.json() as {
+      applied: Array<{ collection: string; id: string; version: number }>;
+      conflicts: RemoteRecord[];
+      rejected?: Array<{ collection: string; id: string }>;
+    };
+    // The base tracks plaintext hashes, so it moves forward from the unencrypted changes.
+    // Only applied changes move it; rejected ones stay pending and are sent again next time.
+    base = recordPushed(base, changes, result.applied);
+    rejected = result.rejected?.length || 0;
+    conflicts = mergeConflicts(conflicts, (await open(result.conflicts)).map(r => conflictFrom(r, merged.records)));
+  }
+
+  saveSyncBase(base);
+  return { apply: merged.apply, conflicts, rejected, encrypted };
+};
+
 export const useBudget = () => {
   const context = useContext(BudgetContext);
   if (!context) {
@@ -134,7 +413,7 @@ export const useBudget = () => {
 export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [transactions, setTransactions] = useState<Transaction[]>(() => {
     const saved = localStorage.getItem('budget_transactions');
-    return saved ? JSON.parse(saved) : [];
+    return saved ? migrateLegacyTransfers(JSON.parse(saved)) : [];
   });
 
   const [categoryBudgets, setCategoryBudgets] = useState<Record<string, number>>(() => {
@@ -142,6 +421,32 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     return saved ? JSON.parse(saved) : {};
   });
 
+  // Month-versioned targets; `categoryBudgets` stays as the baseline for months before the first entry.
+  const [budgetHistory, setBudgetHistory] = useState<BudgetHistory>(() => {
+    const saved = localStorage.getItem('budget_monthly_limits');
+    return saved ? JSON.parse(saved) : {};
+  });
+
+  const [envelopes, setEnvelopes] = useState<EnvelopeSettings>(() => {
+    const saved = localStorage.getItem('budget_envelopes');
+    return saved ? JSON.parse(saved) : DEFAULT_ENVELOPES;
+  });
+
+  const [plans, setPlans] = useState<PlanHistory>(() => {
+    const saved = localStorage.getItem('budget_plans');
+    return saved ? JSON.parse(saved) : {};
+  });
+
+  const [sinkingFunds, setSinkingFunds] = useState<SinkingFund[]>(() => {
+    const saved = localStorage.getItem('budget_sinking_funds');
+    return saved ? JSON.parse(saved) : [];
+  });
+
+  const [netWorthSnapshots, setNetWorthSnapshots] = useState<NetWorthSnapshot[]>(() => {
+    const saved = localStorage.getItem('budget_net_worth_snapshots');
+    return saved ? JSON.parse(saved) : [];
+  });
+
   const [debts, setDebts] = useState<DebtAccount[]>(() => {
     const saved = localStorage.getItem('budget_debts');
     return saved ? JSON.parse(saved) : [];
@@ -152,18 +457,58 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     return saved ? JSON.parse(saved) : [];
   });
 
+  const [cashAccounts, setCashAccounts] = useState<CashAccount[]>(() => {
+    const saved = localStorage.getItem('budget_cash_accounts');
+    return saved ? JSON.parse(saved) : [];
+  });
+
   const [recurring, setRecurring] = useState<RecurringRule[]>(() => {
     const saved = localStorage.getItem('budget_recurring');
     return saved ? JSON.parse(saved) : [];
   });
 
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>(() => {
+    const saved = localStorage.getItem('budget_category_rules');
+    return saved ? JSON.parse(saved) : DEFAULT_CATEGORY_RULES;
+  });
+
+  const [dismissedSeries, setDismissedSeries] = useState<string[]>(() => {
+    const saved = localStorage.getItem('budget_dismissed_series');
+    return saved ? JSON.parse(saved) : [];
+  });
+
   const [user, setUser] = useState<User | null>(() => {
     const saved = localStorage.getItem('budget_user');
-    return saved ? JSON.parse(saved) : null;
+    const parsed = saved ? JSON.parse(saved) : null;
+    // Logins saved before session tokens kept the raw password; drop them and ask for a fresh login.
+    if (parsed && !parsed.token) {
+      localStorage.removeItem('budget_user');
+      return null;
+    }
+    return parsed;
   });
 
   const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>(() => {
+    const saved = localStorage.getItem('budget_sync_conflicts');
+    return saved ? JSON.parse(saved) : [];
+  });
   const syncTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // One auto-sync at a time; a run that comes due meanwhile is replayed once it finishes.
+  const syncInFlightRef = useRef(false);
+  const syncSkippedRef = useRef(false);
+  const [syncReplay, setSyncReplay] = useState(0);
+
+  // Transactions as of the last commit, for callbacks that may run before a re-render.
+  const transactionsRef = useRef(transactions);
+  useEffect(() => {
+    transactionsRef.current = transactions;
+  }, [transactions]);
+
+  // Key for an encrypted vault. It lives in memory unless the user asked this device to remember it.
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null);
+  const [vaultEnabled, setVaultEnabled] = useState<boolean>(() => localStorage.getItem('budget_vault_enabled') === 'true');
 
   const [simplefinAccounts, setSimplefinAccounts] = useState<Array<{ id: string; name: string; balance?: string; balanceDate?: number }>>(() => {
     const saved = localStorage.getItem('simplefin_accounts');
@@ -174,14 +519,72 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     return saved ? JSON.parse(saved) : {};
   });
 
+  // Writes records pulled from the cloud into local state.
+  const applyRemoteRecords = useCallback((records: RemoteRecord[]) => {
+    if (records.length === 0) return;
+    const of = (collection: string) => records.filter(r => r.collection === collection);
+    const incomingTxs = of('transactions');
+    if (incomingTxs.length > 0) setTransactions(prev => migrateLegacyTransfers(applyToList(prev, incomingTxs)));
+    setDebts(prev => applyToList(prev, of('debts')));
+    setAssets(prev => applyToList(prev, of('assets')));
+    setCashAccounts(prev => applyToList(prev, of('cashAccounts')));
+    setRecurring(prev => applyToList(prev, of('recurring')));
+    setSinkingFunds(prev => applyToList(prev, of('sinkingFunds')));
+    setNetWorthSnapshots(prev => applyToList(prev, of('netWorthSnapshots')));
+    for (const r of of('settings')) {
+      // A deleted setting means it was reset to its default on another device.
+      const value = r.deleted ? SETTINGS_DEFAULTS[r.id as SettingsKey] : r.record;
+      if (r.id === 'categoryBudgets') setCategoryBudgets(value as Record<string, number>);
+      if (r.id === 'budgetHistory') setBudgetHistory(value as BudgetHistory);
+      if (r.id === 'envelopes') setEnvelopes(value as EnvelopeSettings);
+      if (r.id === 'plans') setPlans(value as PlanHistory);
+      if (r.id === 'categoryRules') setCategoryRules(value as CategoryRule[]);
+      if (r.id === 'dismissedSeries') setDismissedSeries(value as string[]);
+    }
+  }, []);
+
+  const userEmail = user?.email;
+
+  // Forgets the signed-in account on this device; the next account starts from a clean merge.
+  const endSession = useCallback(() => {
+    setUser(null);
+    localStorage.removeItem('budget_user');
+    localStorage.removeItem('budget_sync_base');
+    if (userEmail) forgetVaultKey(userEmail).catch(e => console.error("Could not forget the vault key", e));
+    setSyncConflicts([]);
+    setSyncError(null);
+    setVaultKey(null);
+    setVaultEnabled(false);
+  }, [userEmail]);
+
+  // Picks up the key this device remembered for the signed-in account, if any.
+  useEffect(() => {
+    if (!userEmail) return;
+    let current = true;
+    loadRememberedVaultKey(userEmail)
+      .then(key => { if (current && key) setVaultKey(key); })
+      .catch(e => console.error("Could not load the vault key", e));
+    return () => { current = false; };
+  }, [userEmail]);
+
   useEffect(() => {
     localStorage.setItem('budget_transactions', JSON.stringify(transactions));
     localStorage.setItem('budget_debts', JSON.stringify(debts));
     localStorage.setItem('budget_assets', JSON.stringify(assets));
+    localStorage.setItem('budget_cash_accounts', JSON.stringify(cashAccounts));
     localStorage.setItem('budget_limits', JSON.stringify(categoryBudgets));
+    localStorage.setItem('budget_monthly_limits', JSON.stringify(budgetHistory));
+    localStorage.setItem('budget_envelopes', JSON.stringify(envelopes));
+    localStorage.setItem('budget_plans', JSON.stringify(plans));
+    localStorage.setItem('budget_sinking_funds', JSON.stringify(sinkingFunds));
+    localStorage.setItem('budget_net_worth_snapshots', JSON.stringify(netWorthSnapshots));
     localStorage.setItem('budget_recurring', JSON.stringify(recurring));
+    localStorage.setItem('budget_category_rules', JSON.stringify(categoryRules));
+    localStorage.setItem('budget_dismissed_series', JSON.stringify(dismissedSeries));
     localStorage.setItem('simplefin_accounts', JSON.stringify(simplefinAccounts));
     localStorage.setItem('simplefin_account_map', JSON.stringify(simplefinAccountMap));
+    localStorage.setItem('budget_sync_conflicts', JSON.stringify(syncConflicts));
+    localStorage.setItem('budget_vault_enabled', String(vaultEnabled));
 
     // Auto-sync logic
     if (user) {
@@ -189,43 +592,76 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
       setIsSyncing(true);
       syncTimeoutRef.current = setTimeout(async () => {
+        if (syncInFlightRef.current) {
+          syncSkippedRef.current = true;
+          return;
+        }
+        syncInFlightRef.current = true;
         try {
-          const payload = {
-            email: user.email,
-            password: user.key,
-            transactions,
-            debts,
-            assets, // Sync assets
-            categoryBudgets,
-            recurring
-          };
-
-          const res = await fetch('/api/sync', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload)
-          });
-          if (!res.ok) console.error("Auto-sync failed", await res.text());
+          const records = toRecordSet({
+            transactions, debts, assets, cashAccounts, recurring, sinkingFunds, netWorthSnapshots,
+            categoryBudgets, budgetHistory, envelopes, plans, categoryRules, dismissedSeries
+          }, SETTINGS_DEFAULTS);
+          const { apply, conflicts, rejected, encrypted } = await syncRecords(user.token, records, syncConflicts, vaultKey);
+          applyRemoteRecords(apply);
+          setVaultEnabled(encrypted);
+          if (conflicts.length > 0) setSyncConflicts(prev => mergeConflicts(prev, conflicts));
+          setSyncError(rejected > 0 ? rejectedMessage(rejected) : null);
         } catch (e) {
-          console.error("Auto-sync error", e);
+          if (e instanceof SessionExpiredError) {
+            endSession();
+            alert("Your cloud session has ended. Log in again to keep syncing.");
+          } else if (e instanceof VaultLockedError) {
+            setVaultEnabled(true);
+            setSyncError(e.message);
+          } else if (e instanceof VaultIntegrityError) {
+            setSyncError(`Sync stopped: ${e.message}. The cloud copy may have been tampered with.`);
+          } else {
+            console.error("Auto-sync error", e);
+          }
         } finally {
+          syncInFlightRef.current = false;
           setIsSyncing(false);
+          if (syncSkippedRef.current) {
+            syncSkippedRef.current = false;
+            setSyncReplay(n => n + 1);
+          }
         }
       }, 2000);
     }
-  }, [transactions, user, debts, assets, categoryBudgets, recurring, simplefinAccounts, simplefinAccountMap]);
+  }, [transactions, user, debts, assets, cashAccounts, categoryBudgets, budgetHistory, envelopes, plans, sinkingFunds, netWorthSnapshots, recurring, categoryRules, dismissedSeries, simplefinAccounts, simplefinAccountMap, syncConflicts, vaultKey, vaultEnabled, syncReplay, applyRemoteRecords, endSession]);
 
   const addTransaction = (t: Omit<Transaction, 'id'>) => {
     const newTransaction = { ...t, id: crypto.randomUUID() };
     setTransactions(prev => [...prev, newTransaction]);
   };
 
+  // Imported rows that fulfil a recurring occurrence get linked to it and replace its projected entry.
+  // Reconciled inside the updater: imports land after awaits and FileReader callbacks, when `transactions` may be stale.
+  // The returned counts come from that run if React applies it right away, else from this render's list.
+  const addImportedTransactions = (txs: Omit<Transaction, 'id'>[]): { added: number; matched: number } => {
+    if (txs.length === 0) return { added: 0, matched: 0 };
+    const rows = txs.map(t => ({ ...t, id: crypto.randomUUID() }));
+    // Reconciled once, against the latest committed transactions, so the counts match what gets stored.
+    const result = reconcileWithRecurring(rows, transactionsRef.current, recurring);
+    setTransactions(prev => [...prev.filter(t => !result.replaced.has(t.id)), ...result.transactions]);
+    return { added: result.transactions.length, matched: result.matched };
+  };
+
   const editTransaction = (id: string, updated: Omit<Transaction, 'id'>) => {
     setTransactions(prev => prev.map(t => t.id === id ? { ...updated, id } : t));
   };
 
   const deleteTransaction = (id: string) => {
+    const target = transactions.find(t => t.id === id);
     setTransactions(prev => prev.filter(t => t.id !== id));
+    // Tombstone the occurrence so generation doesn't bring it back.
+    if (target?.recurringId) {
+      const occurrence = target.recurrenceDate || target.date;
+      setRecurring(prev => prev.map(r => r.id === target.recurringId
+        ? { ...r, exceptions: [...(r.exceptions || []).filter(e => e.date !== occurrence), { date: occurrence, skip: true }] }
+        : r));
+    }
   };
 
   const addDebt = (d: Omit<DebtAccount, 'id'>) => {
@@ -240,7 +676,7 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
   const deleteDebt = (id: string) => {
     setDebts(prev => prev.filter(d => d.id !== id));
-    setTransactions(prev => prev.map(t => t.debtAccountId === id ? { ...t, debtAccountId: undefined } : t));
+    setTransactions(prev => prev.map(t => unlinkAccount(t, 'debt', id)));
     setRecurring(prev => prev.map(r => r.debtAccountId === id ? { ...r, debtAccountId: undefined } : r));
   };
 
@@ -256,8 +692,46 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
   const deleteAsset = (id: string) => {
     setAssets(prev => prev.filter(a => a.id !== id));
-    setTransactions(prev => prev.map(t => t.assetAccountId === id ? { ...t, assetAccountId: undefined } : t));
+    setTransactions(prev => prev.map(t => unlinkAccount(t, 'asset', id)));
     setRecurring(prev => prev.map(r => r.assetAccountId === id ? { ...r, assetAccountId: undefined } : r));
+    setSinkingFunds(prev => prev.map(f => f.assetAccountId === id ? { ...f, assetAccountId: undefined } : f));
+  };
+
+  const setAssetValuation = (assetId: string, valuation: AssetValuation) => {
+    setAssets(prev => prev.map(a => a.id === assetId
+      ? { ...a, valuations: [...(a.valuations || []).filter(v => v.date !== valuation.date), valuation] }
+      : a));
+  };
+
+  const deleteAssetValuation = (assetId: string, date: string) => {
+    setAssets(prev => prev.map(a => a.id === assetId
+      ? { ...a, valuations: (a.valuations || []).filter(v => v.date !== date) }
+      : a));
+  };
+
+  const addCashAccount = (c: Omit<CashAccount, 'id'>) => {
+    const id = crypto.randomUUID();
+    setCashAccounts(prev => [...prev, { ...c, id }]);
+    return id;
+  };
+
+  const editCashAccount = (id: string, updated: Omit<CashAccount, 'id'>) => {
+    setCashAccounts(prev => prev.map(c => c.id === id ? { ...updated, id } : c));
+  };
+
+  const deleteCashAccount = (id: string) => {
+    const unlinkRef = (ref?: AccountRef) => (ref?.kind === 'cash' && ref.id === id) ? { kind: 'cash' as const } : ref;
+    setCashAccounts(prev => prev.filter(c => c.id !== id));
+    setTransactions(prev => prev.map(t => (t.cashAccountId === id || t.fromAccount?.id === id || t.toAccount?.id === id)
+      ? { ...t, cashAccountId: t.cashAccountId === id ? undefined : t.cashAccountId, fromAccount: unlinkRef(t.fromAccount), toAccount: unlinkRef(t.toAccount) }
+      : t));
+    setSimplefinAccountMapState(prev => {
+      const next = { ...prev };
+      for (const [k, m] of Object.entries(next)) {
+        if (m.cashAccountId === id) next[k] = { ...m, cashAccountId: undefined };
+      }
+      return next;
+    });
   };
 
   const addRecurring = (r: Omit<RecurringRule, 'id'>) => {
@@ -276,57 +750,198 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     setRecurring(prev => prev.map(r => r.id === id ? { ...r, enabled } : r));
   };
 
-  const generateRecurringForMonth = (yyyyMM: string) => {
-    // Ensure we only generate once per recurring rule per month
-    const [yStr, mStr] = yyyyMM.split('-');
-    const year = Number(yStr);
-    const monthIndex = Number(mStr) - 1;
-    if (!Number.isFinite(year) || !Number.isFinite(monthIndex) || monthIndex < 0 || monthIndex > 11) return;
+  const setRecurrenceException = (ruleId: string, exception: RecurrenceException) => {
+    setRecurring(prev => prev.map(r => r.id === ruleId
+      ? { ...r, exceptions: [...(r.exceptions || []).filter(e => e.date !== exception.date), exception] }
+      : r));
+    // Bring an already-generated entry in line with the exception.
+    const isOccurrence = (t: Transaction) => t.recurringId === ruleId && (t.recurrenceDate || t.date) === exception.date;
+    setTransactions(prev => exception.skip
+      ? prev.filter(t => !isOccurrence(t))
+      : prev.map(t => isOccurrence(t)
+        ? { ...t, recurrenceDate: exception.date, amount: exception.amount ?? t.amount, date: exception.moveTo || t.date }
+        : t));
+  };
+
+  const clearRecurrenceException = (ruleId: string, occurrence: string) => {
+    setRecurring(prev => prev.map(r => r.id === ruleId
+      ? { ...r, exceptions: (r.exceptions || []).filter(e => e.date !== occurrence) }
+      : r));
+  };
 
-    const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
+  // Ends the series before `occurrence` and drops entries already generated from it onward.
+  const endRecurringSeries = (ruleId: string, occurrence: string) => {
+    setRecurring(prev => prev.map(r => r.id === ruleId ? { ...r, endDate: dayBefore(occurrence), occurrenceCount: undefined } : r));
+    setTransactions(prev => prev.filter(t => !(t.recurringId === ruleId && (t.recurrenceDate || t.date) >= occurrence)));
+  };
+
+  // Hides a detected subscription proposal or alert, on every device.
+  const dismissSeries = (key: string) => {
+    setDismissedSeries(prev => prev.includes(key) ? prev : [...prev, key]);
+  };
+
+  // Turns a pending projected occurrence into a real transaction.
+  const confirmRecurring = (ruleId: string, occurrence: Occurrence) => {
+    const rule = recurring.find(r => r.id === ruleId);
+    if (!rule) return;
 
     setTransactions(prev => {
-      const alreadyExists = (ruleId: string) =>
-        prev.some(t => t.recurringId === ruleId && t.date.startsWith(yyyyMM));
-
-      const toAdd: Transaction[] = [];
-      for (const rule of recurring) {
-        if (!rule.enabled) continue;
-        if (rule.startMonth && yyyyMM < rule.startMonth) continue;
-        if (alreadyExists(rule.id)) continue;
-
-        const day = Math.min(Math.max(1, rule.dayOfMonth), daysInMonth);
-        const date = `${yyyyMM}-${String(day).padStart(2, '0')}`;
-
-        toAdd.push({
-          id: crypto.randomUUID(),
-          date,
-          description: rule.description,
-          amount: rule.amount,
-          type: rule.type,
-          category: rule.category || 'Uncategorized',
-          debtAccountId: rule.debtAccountId,
-          assetAccountId: rule.assetAccountId,
-          recurringId: rule.id
-        });
+      if (prev.some(t => t.recurringId === ruleId && t.recurrenceDate === occurrence.occurrence)) return prev;
+      return [...prev, {
+        id: crypto.randomUUID(),
+        date: occurrence.date,
+        description: rule.description,
+        amount: occurrence.amount,
+        type: rule.type,
+        category: rule.category || 'Uncategorized',
+        debtAccountId: rule.debtAccountId,
+        assetAccountId: rule.assetAccountId,
+        recurringId: rule.id,
+        recurrenceDate: occurrence.occurrence
+      }];
+    });
+  };
+
+  // Marks an existing (usually imported) transaction as fulfilling an occurrence.
+  const matchRecurring = (ruleId: string, occurrence: string, transactionId: string) => {
+    const rule = recurring.find(r => r.id === ruleId);
+    if (!rule) return;
+
+    setTransactions(prev => prev.map(t => t.id === transactionId
+      ? {
+        ...t,
+        recurringId: rule.id,
+        recurrenceDate: occurrence,
+        category: (!t.category || t.category === 'Uncategorized' || t.category === 'Other') ? rule.category : t.category,
+        debtAccountId: t.debtAccountId || rule.debtAccountId,
+        assetAccountId: t.assetAccountId || rule.assetAccountId
       }
+      : t));
+  };
+
+  const addCategoryRule = (r: Omit<CategoryRule, 'id'>) => {
+    setCategoryRules(prev => [...prev, { ...r, id: crypto.randomUUID() }]);
+  };
+
+  const editCategoryRule = (id: string, updated: Omit<CategoryRule, 'id'>) => {
+    setCategoryRules(prev => prev.map(r => r.id === id ? { ...updated, id } : r));
+  };
+
+  const deleteCategoryRule = (id: string) => {
+    setCategoryRules(prev => prev.filter(r => r.id !== id));
+  };
 
-      if (toAdd.length === 0) return prev;
-      return [...prev, ...toAdd];
+  const moveCategoryRule = (id: string, direction: -1 | 1) => {
+    setCategoryRules(prev => {
+      const idx = prev.findIndex(r => r.id === id);
+      const target = idx + direction;
+      if (idx === -1 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[idx], next[target]] = [next[target], next[idx]];
+      return next;
     });
   };
 
+  // Retrained whenever transactions change, so edits made in the app teach future imports.
+  const categoryModel = useMemo(() => trainCategoryModel(transactions), [transactions]);
+
+  const suggestCategory = useCallback(
+    (t: Pick<Transaction, 'description' | 'amount'>) => suggestFromModel(categoryModel, t),
+    [categoryModel]
+  );
+
+  const categorizeImported = <T extends Omit<Transaction, 'id'>>(t: T): T => categorizeImport(t, categoryRules, categoryModel);
+
+  // Re-runs the rules over stored transactions. Split transactions keep their per-line categories.
+  const applyCategoryRulesToExisting = (): { updated: number } => {
+    let updated = 0;
+    const next = transactions.map(t => {
+      if (t.splits && t.splits.length > 0) return t;
+      const ruled = applyCategoryRules(t, categoryRules);
+      if (JSON.stringify(ruled) === JSON.stringify(t)) return t;
+      updated++;
+      return ruled;
+    });
+    if (updated > 0) setTransactions(next);
+    return { updated };
+  };
 
+  // Sets the target from this month on; the flat baseline is ignored once any month has its own entry.
   const setCategoryBudget = (category: string, limit: number) => {
-    setCategoryBudgets(prev => ({ ...prev, [category]: limit }));
+    const month = new Date().toISOString().slice(0, 7);
+    setBudgetHistory(prev => setBudgetInHistory(categoryBudgets, prev, month, category, limit, 'onward'));
+  };
+
+  const budgetsForMonth = (yyyyMM: string) => budgetsForMonthIn(categoryBudgets, budgetHistory, yyyyMM);
+
+  const setMonthlyBudget = (yyyyMM: string, category: string, limit: number, scope: BudgetScope) => {
+    setBudgetHistory(prev => setBudgetInHistory(categoryBudgets, prev, yyyyMM, category, limit, scope));
+  };
+
+  const copyBudgetsFromPreviousMonth = (yyyyMM: string) => {
+    setBudgetHistory(prev => copyPreviousMonthBudgets(categoryBudgets, prev, yyyyMM));
+  };
+
+  // Rollover starts at `startMonth`; earlier leftovers are not back-filled.
+  const setEnvelopeMode = (enabled: boolean, startMonth: string) => {
+    setEnvelopes(prev => ({ ...prev, enabled, startMonth: enabled ? (prev.startMonth || startMonth) : prev.startMonth }));
+  };
+
+  const moveEnvelopeFunds = (month: string, from: string, to: string, amount: number) => {
+    setEnvelopes(prev => ({ ...prev, moves: [...prev.moves, { id: crypto.randomUUID(), month, from, to, amount }] }));
+  };
+
+  const deleteEnvelopeMove = (id: string) => {
+    setEnvelopes(prev => ({ ...prev, moves: prev.moves.filter(m => m.id !== id) }));
+  };
+
+  const envelopeBalancesForMonth = (yyyyMM: string) =>
+    envelopeBalances(envelopes, categoryBudgets, budgetHistory, transactions, yyyyMM);
+
+  const setPlanAmount = (yyyyMM: string, section: PlanSection, key: string, amount: number) => {
+    setPlans(prev => setPlanLine(prev, yyyyMM, section, key, amount));
+  };
+
+  const addSinkingFund = (f: Omit<SinkingFund, 'id'>) => {
+    setSinkingFunds(prev => [...prev, { ...f, id: crypto.randomUUID() }]);
+  };
+
+  const editSinkingFund = (id: string, updated: Omit<SinkingFund, 'id'>) => {
+    setSinkingFunds(prev => prev.map(f => f.id === id ? { ...updated, id } : f));
+  };
+
+  const deleteSinkingFund = (id: string) => {
+    setSinkingFunds(prev => prev.filter(f => f.id !== id));
+  };
+
+  const addSinkingFundContribution = (id: string, amount: number, date: string) => {
+    setSinkingFunds(prev => prev.map(f => f.id === id
+      ? { ...f, contributions: [...f.contributions, { id: crypto.randomUUID(), date, amount }] }
+      : f));
+  };
+
+  const addNetWorthSnapshot = (snapshot: Omit<NetWorthSnapshot, 'id'>) => {
+    setNetWorthSnapshots(prev => [...prev, { ...snapshot, id: crypto.randomUUID() }]);
+  };
+
+  const deleteNetWorthSnapshot = (id: string) => {
+    setNetWorthSnapshots(prev => prev.filter(s => s.id !== id));
   };
 
   const clearAll = () => {
     setTransactions([]);
     setDebts([]);
     setAssets([]);
+    setCashAccounts([]);
     setCategoryBudgets({});
+    setBudgetHistory({});
+    setEnvelopes(DEFAULT_ENVELOPES);
+    setPlans({});
+    setSinkingFunds([]);
+    setNetWorthSnapshots([]);
     setRecurring([]);
+    setCategoryRules(DEFAULT_CATEGORY_RULES);
+    setDismissedSeries([]);
   };
 
   const importCSV = (file: File): Promise<void> => {
@@ -348,6 +963,24 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
             const headerRowIndex = rows.findIndex(r => r.includes("Date of Transaction"));
             const budgetHeaderRow = rows.findIndex(r => r.includes("Budget Target"));
 
+            // Parse Income / Contribution targets (sections headed by a name column and a target column)
+            const parseTargets = (targetHeader: string, nameOffset: number): Record<string, number> => {
+              const out: Record<string, number> = {};
+              const headerRow = rows.findIndex(r => r.some(c => c.trim() === targetHeader));
+              if (headerRow === -1) return out;
+              const targetColIdx = rows[headerRow].findIndex(c => c.trim() === targetHeader);
+              const nameColIdx = targetColIdx - nameOffset;
+              for (let i = headerRow + 1; i < rows.length; i++) {
+                const name = (rows[i][nameColIdx] || '').trim();
+                if (!name || name.toUpperCase() === 'TOTAL') break;
+                const val = parseFloat((rows[i][targetColIdx] || '').replace(/[$,]/g, ''));
+                if (!isNaN(val) && val > 0) out[name] = val;
+              }
+              return out;
+            };
+            const incomeTargets = parseTargets('Income Target', 2);
+            const contributionTargets = parseTargets('Contribution Target', 4);
+
             // Parse Budgets
             if (budgetHeaderRow !== -1) {
               const bHeader = rows[budgetHeaderRow];
@@ -455,9 +1088,45 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
               }
             }
 
-            setTransactions(prev => [...prev, ...parsed]);
+            addImportedTransactions(parsed.map(t => categorizeImported({ ...t, source: t.source || file.name })));
+
+            // The sheet's month is the one most of its transactions fall in.
+            const monthCounts = new Map<string, number>();
+            for (const t of parsed) monthCounts.set(t.date.slice(0, 7), (monthCounts.get(t.date.slice(0, 7)) || 0) + 1);
+            const sheetMonth = [...monthCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || new Date().toISOString().slice(0, 7);
+
+            // Budget targets apply from the sheet's month onward.
             if (Object.keys(newBudgets).length > 0) {
-              setCategoryBudgets(prev => ({ ...prev, ...newBudgets }));
+              setBudgetHistory(prev => Object.entries(newBudgets).reduce(
+                (history, [category, limit]) => setBudgetInHistory(categoryBudgets, history, sheetMonth, category, limit, 'onward'),
+                prev
+              ));
+            }
+
+            // Income and contribution targets become the plan for the sheet's month.
+            if (Object.keys(incomeTargets).length > 0 || Object.keys(contributionTargets).length > 0) {
+              // Contribution targets name savings accounts; create any we don't track yet.
+              const newAssets: AssetAccount[] = [];
+              const contributions: Record<string, number> = {};
+              for (const [name, amount] of Object.entries(contributionTargets)) {
+                const match = [...assets, ...newAssets].find(a => a.name.trim().toLowerCase() === name.toLowerCase());
+                const asset = match || { id: crypto.randomUUID(), name, startingBalance: 0 };
+                if (!match) newAssets.push(asset);
+                contributions[asset.id] = amount;
+              }
+              if (newAssets.length > 0) setAssets(prev => [...prev, ...newAssets]);
+
+              setPlans(prev => {
+                const current = planForMonth(prev, sheetMonth);
+                return {
+                  ...prev,
+                  [sheetMonth]: {
+                    ...current,
+                    income: { ...current.income, ...incomeTargets },
+                    contributions: { ...current.contributions, ...contributions }
+                  }
+                };
+              });
             }
             resolve();
           } catch (e) {
@@ -472,27 +1141,40 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     });
   };
 
-  const syncToCloud = async (email: string, pw: string): Promise<boolean> => {
+  const currentRecords = () => toRecordSet({
+    transactions, debts, assets, cashAccounts, recurring, sinkingFunds, netWorthSnapshots,
+    categoryBudgets, budgetHistory, envelopes, plans, categoryRules, dismissedSeries
+  }, SETTINGS_DEFAULTS);
+
+  // Logs in, merges this device with the account, and only then remembers the session.
+  // An encrypted vault stays signed in but unmerged until it is unlocked with its passphrase.
+  const signInAndSync = async (email: string, pw: string, create: boolean) => {
+    const session = await openSession(email, pw, create);
+    let conflicts: SyncConflict[] = [];
     try {
-      const payload = {
-        email,
-        password: pw,
-        transactions,
-        debts,
-        assets, // Sync
-        categoryBudgets,
-        recurring
-      };
-      const res = await fetch('/api/sync', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload)
-      });
-      if (!res.ok) throw new Error(await res.text());
+      const result = await syncRecords(session.token, currentRecords(), syncConflicts, vaultKey);
+      applyRemoteRecords(result.apply);
+      conflicts = result.conflicts;
+      if (conflicts.length > 0) setSyncConflicts(prev => mergeConflicts(prev, conflicts));
+      setSyncError(result.rejected > 0 ? rejectedMessage(result.rejected) : null);
+      setVaultEnabled(result.encrypted);
+    } catch (e) {
+      if (!(e instanceof VaultLockedError)) throw e;
+      setVaultEnabled(true);
+      setSyncError(e.message);
+      alert("Signed in. This vault is end-to-end encrypted: enter its passphrase in PROFILE to load it on this device.");
+    }
 
-      const newUser: User = { email, key: pw, openRouterKey: user?.openRouterKey };
-      setUser(newUser);
-      localStorage.setItem('budget_user', JSON.stringify(newUser));
+    const newUser: User = { email, token: session.token, expiresAt: session.expiresAt, openRouterKey: user?.openRouterKey };
+    setUser(newUser);
+    localStorage.setItem('budget_user', JSON.stringify(newUser));
+    return conflicts;
+  };
+
+  // Merges local data into the account, creating it if it doesn't exist yet.
+  const syncToCloud = async (email: string, pw: string): Promise<boolean> => {
+    try {
+      await signInAndSync(email, pw, true);
       return true;
     } catch (e) {
       alert("Sync failed: " + e);
@@ -500,36 +1182,115 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     }
   };
 
+  // Merges an existing account's data into this device; records edited on both sides are left for review.
   const loadFromCloud = async (email: string, pw: string): Promise<boolean> => {
     try {
-      const res = await fetch(`/api/sync?email=${encodeURIComponent(email)}&password=${encodeURIComponent(pw)}`);
-      if (!res.ok) throw new Error(await res.text());
-
-      const data = await res.json();
+      const conflicts = await signInAndSync(email, pw, false);
+      if (conflicts.length > 0) {
+        alert(`${conflicts.length} record${conflicts.length === 1 ? ' was' : 's were'} changed both here and in the cloud. Review them under SYNC CONFLICTS.`);
+      }
+      return true;
+    } catch (e) {
+      alert("Load failed: " + e);
+      return false;
+    }
+  };
 
-      if (confirm(`Overwrite local data with Cloud Data? (Last Updated: ${data.lastUpdated})`)) {
-        if (data.transactions) setTransactions(data.transactions);
-        if (data.debts) setDebts(data.debts);
-        if (data.assets) setAssets(data.assets);
-        if (data.categoryBudgets) setCategoryBudgets(data.categoryBudgets);
-        if (data.recurring) setRecurring(data.recurring);
+  const resolveSyncConflict = (conflict: SyncConflict, keep: 'mine' | 'theirs') => {
+    saveSyncBase(resolveConflictBase(loadSyncBase(), conflict, keep));
+    if (keep === 'theirs') {
+      applyRemoteRecords([{
+        collection: conflict.collection,
+        id: conflict.id,
+        version: conflict.remoteVersion,
+        record: conflict.remote,
+        deleted: conflict.remote === undefined
+      }]);
+    }
+    // Dropping the conflict re-runs auto-sync, which pushes the kept local copy.
+    setSyncConflicts(prev => prev.filter(c => conflictKey(c) !== conflictKey(conflict)));
+  };
 
-        const newUser: User = { email, key: pw, openRouterKey: user?.openRouterKey };
-        setUser(newUser);
-        localStorage.setItem('budget_user', JSON.stringify(newUser));
-        return true;
-      }
+  // Encrypts the cloud copy from now on. There is no way back, and no way in without the passphrase.
+  const enableVault = async (passphrase: string, remember: boolean): Promise<boolean> => {
+    if (!user) {
+      alert("Please log in first.");
+      return false;
+    }
+    if (!passphrase) return false;
+    try {
+      const { params, key } = await createVault(passphrase);
+      // The server swaps every record for ciphertext in the same write that turns encryption on,
+      // so seal the records exactly as it holds them now.
+      const res = await fetch('/api/sync?since=0', { headers: authHeaders(user.token) });
+      if (!res.ok) throw new Error(await res.text());
+      const { records } = await res.json() as { records: RemoteRecord[] };
+      const changes: RecordChange[] = records.map(r => ({ collection: r.collection, id: r.id, baseVersion: r.version, record: r.record }));
+      const post = await fetch('/api/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(user.token) },
+        body: JSON.stringify({ vault: params, changes: await Promise.all(changes.map(c => sealChange(key, c))) })
+      });
+      if (!post.ok) throw new Error(await post.text());
+      const result = await post.json() as { applied: Array<{ collection: string; id: string; version: number }> };
+      saveSyncBase(recordRewritten(loadSyncBase(), changes, result.applied));
+      if (remember) await rememberVaultKey(user.email, key);
+      setVaultKey(key);
+      setVaultEnabled(true);
+      setSyncError(null);
+      alert("Encryption turned on. Everything in the cloud is now encrypted.");
+      return true;
+    } catch (e) {
+      alert("Could not turn on encryption: " + e);
+      return false;
+    }
+  };
 
+  const unlockVault = async (passphrase: string, remember: boolean): Promise<boolean> => {
+    if (!user) {
+      alert("Please log in first.");
       return false;
+    }
+    if (!passphrase) return false;
+    try {
+      const res = await fetch('/api/profile', { headers: authHeaders(user.token) });
+      if (!res.ok) throw new Error(await res.text());
+      const { vault } = await res.json() as { vault: VaultParams | null };
+      if (!vault) {
+        alert("This vault isn't encrypted.");
+        setVaultEnabled(false);
+        return false;
+      }
+      const key = await openVault(passphrase, vault);
+      if (!key) {
+        alert("Wrong passphrase");
+        return false;
+      }
+      if (remember) await rememberVaultKey(user.email, key);
+      // Setting the key re-runs auto-sync, which now pulls and decrypts the vault.
+      setVaultKey(key);
+      setVaultEnabled(true);
+      setSyncError(null);
+      return true;
     } catch (e) {
-      alert("Load failed: " + e);
+      alert("Unlock failed: " + e);
       return false;
     }
   };
 
+  // Drops the key from this device; the cloud copy stays encrypted.
+  const lockVault = () => {
+    setVaultKey(null);
+    if (user) forgetVaultKey(user.email).catch(e => console.error("Could not forget the vault key", e));
+  };
+
   const logout = () => {
-    setUser(null);
-    localStorage.removeItem('budget_user');
+    if (user) {
+      // Revoke the token server-side too; logging out locally shouldn't wait on the network.
+      fetch('/api/profile?action=logout', { method: 'POST', headers: authHeaders(user.token) })
+        .catch(e => console.error("Logout request failed", e));
+    }
+    endSession();
   };
 
   const updatePassword = async (currentPw: string, newPw: string): Promise<boolean> => {
@@ -541,15 +1302,16 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     try {
       const res = await fetch('/api/profile?action=change-password', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders(user.token) },
         body: JSON.stringify({
-          email: user.email,
           oldPassword: currentPw,
           newPassword: newPw
         })
       });
       if (!res.ok) throw new Error(await res.text());
-      const updated: User = { ...user, key: newPw };
+      // Changing the password ends every other session; this device gets a fresh one.
+      const session = await res.json() as { token: string; expiresAt: string };
+      const updated: User = { ...user, token: session.token, expiresAt: session.expiresAt };
       setUser(updated);
       localStorage.setItem('budget_user', JSON.stringify(updated));
       alert("Password updated");
@@ -569,10 +1331,8 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     try {
       const res = await fetch('/api/profile?action=save-openrouter-key', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders(user.token) },
         body: JSON.stringify({
-          email: user.email,
-          password: user.key,
           openRouterKey: key
         })
       });
@@ -594,7 +1354,7 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       return false;
     }
     try {
-      const res = await fetch(`/api/simplefin?action=status&email=${encodeURIComponent(user.email)}&password=${encodeURIComponent(user.key)}`);
+      const res = await fetch('/api/simplefin?action=status', { headers: authHeaders(user.token) });
       if (!res.ok) throw new Error(await res.text());
       const data = await res.json() as { hasSimplefin?: boolean };
       return Boolean(data?.hasSimplefin);
@@ -613,10 +1373,8 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     try {
       const res = await fetch('/api/simplefin?action=claim', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders(user.token) },
         body: JSON.stringify({
-          email: user.email,
-          password: user.key,
           token: setupTokenOrClaimUrl.trim(),
         })
       });
@@ -637,11 +1395,8 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     try {
       const res = await fetch('/api/simplefin?action=disconnect', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          email: user.email,
-          password: user.key,
-        })
+        headers: { 'Content-Type': 'application/json', ...authHeaders(user.token) },
+        body: JSON.stringify({})
       });
       if (!res.ok) throw new Error(await res.text());
       alert("SimpleFIN disconnected");
@@ -652,18 +1407,16 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     }
   };
 
-  const simplefinSync = async (daysBack = 60, includePending = false): Promise<{ added: number; fetched: number; errors: string[]; meta?: unknown }> => {
+  const simplefinSync = async (daysBack = 60, includePending = false): Promise<{ added: number; matched: number; fetched: number; errors: string[]; meta?: unknown }> => {
     if (!user) {
       alert("Please log in first.");
-      return { added: 0, fetched: 0, errors: ["Not logged in"] };
+      return { added: 0, matched: 0, fetched: 0, errors: ["Not logged in"] };
     }
     try {
       const res = await fetch('/api/simplefin?action=sync', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders(user.token) },
         body: JSON.stringify({
-          email: user.email,
-          password: user.key,
           daysBack,
           includePending,
         })
@@ -703,27 +1456,24 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           }
           return next;
         });
-      }
 
-      const categorizeByRules = (desc: string): string => {
-        const d = (desc || '').toLowerCase();
-        if (d.includes('interest') || d.includes('fee')) return 'Interest / Fees';
-        if (d.includes('rent') || d.includes('greystar') || d.includes('bilt rent')) return 'Rent & Utilities';
-        if (d.includes('doordash') || d.includes('uber eats') || d.includes('restaurant') || d.includes('chick-fil-a') || d.includes('taco') || d.includes('coffee') || d.includes('starbucks') || d.includes('cava') || d.includes('panera') || d.includes('wendy') || d.includes('mcdonald')) return 'Food/Beverages/Groceries';
-        if (d.includes('instacart') || d.includes('wegmans')) return 'Food/Beverages/Groceries';
-        if (d.includes('exxon') || d.includes('gas') || d.includes('shell')) return 'Transportation/Gas';
-        if (d.includes('spotify') || d.includes('visible') || d.includes('verizon') || d.includes('prime') || d.includes('namesilo') || d.includes('lookify') || d.includes('artlist')) return 'Personal Subscription';
-        if (d.includes('openai')) return 'Business Subscription';
-        if (d.includes('amazon') || d.includes('target')) return 'Personal Purchase';
-        return 'Other';
-      };
+        // Reported balances of linked investment accounts become valuation snapshots when opted in.
+        for (const a of accounts) {
+          const mapped = simplefinAccountMap[a.id];
+          const value = Math.abs(Number(a.balance));
+          if (mapped?.kind !== 'asset' || !mapped.assetAccountId || !mapped.recordValuations || a.balance == null || !Number.isFinite(value)) continue;
+          const date = typeof a.balanceDate === 'number'
+            ? new Date(a.balanceDate * 1000).toISOString().slice(0, 10)
+            : new Date().toISOString().slice(0, 10);
+          setAssetValuation(mapped.assetAccountId, { date, value, source: 'simplefin' });
+        }
+      }
 
-      const applyMap = (t: ImportedTransaction & { externalId?: string; simplefinAccountId?: string; simplefinAccountName?: string }): ImportedTransaction & { externalId?: string; simplefinAccountId?: string; simplefinAccountName?: string } => {
+      const mapAccount = (t: ImportedTransaction & { externalId?: string; simplefinAccountId?: string; simplefinAccountName?: string }): ImportedTransaction & { externalId?: string; simplefinAccountId?: string; simplefinAccountName?: string } => {
         const mapped = (t.simplefinAccountId && simplefinAccountMap[t.simplefinAccountId]) ? simplefinAccountMap[t.simplefinAccountId] : null;
         if (mapped?.kind === 'ignore') return { ...t, amount: 0 };
 
-        // Ensure we always have a category.
-        const nextCategory = (!t.category || t.category === 'Uncategorized') ? categorizeByRules(t.description || '') : t.category;
+        const nextCategory = t.category || 'Uncategorized';
 
         if (mapped?.kind === 'debt') {
           const d = (t.description || '').toLowerCase();
@@ -751,7 +1501,26 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           };
         }
 
-        return { ...t, category: nextCategory };
+        const cashAccountId = mapped?.kind === 'cash' ? mapped.cashAccountId : undefined;
+        if (isTransferDescription(t.description || '')) {
+          const own: AccountRef = { kind: 'cash', id: cashAccountId };
+          const other: AccountRef = { kind: 'cash' };
+          return {
+            ...t,
+            type: 'transfer',
+            category: 'Transfer',
+            fromAccount: t.type === 'income' ? other : own,
+            toAccount: t.type === 'income' ? own : other,
+          };
+        }
+
+        return { ...t, category: nextCategory, cashAccountId };
+      };
+
+      // Account mapping sets the defaults; learned categories, then rules, fill in what it left uncategorized. Ensure we always have a category.
+      const applyMap = (t: ImportedTransaction & { externalId?: string; simplefinAccountId?: string; simplefinAccountName?: string }) => {
+        const ruled = categorizeImported(mapAccount(t));
+        return (!ruled.category || ruled.category === 'Uncategorized') ? { ...ruled, category: 'Other' } : ruled;
       };
 
       const fingerprint = (t: { date: string; description: string; amount: number; type: string; category: string }) => {
@@ -792,20 +1561,22 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         debtAccountId: t.debtAccountId,
         assetAccountId: t.assetAccountId,
         recurringId: t.recurringId,
+        fromAccount: t.fromAccount,
+        toAccount: t.toAccount,
+        cashAccountId: t.cashAccountId,
         source: t.source,
         externalId: t.externalId,
         simplefinAccountId: t.simplefinAccountId,
-        simplefinAccountName: t.simplefinAccountName
+        simplefinAccountName: t.simplefinAccountName,
+        tags: t.tags
       }));
 
-      if (toAdd.length > 0) {
-        setTransactions(prev => [...prev, ...toAdd]);
-      }
+      const { added, matched } = addImportedTransactions(toAdd);
 
-      return { added: toAdd.length, fetched: incoming.length, errors, meta };
+      return { added, matched, fetched: incoming.length, errors, meta };
     } catch (e) {
       alert("SimpleFIN sync failed: " + e);
-      return { added: 0, fetched: 0, errors: [String(e)] };
+      return { added: 0, matched: 0, fetched: 0, errors: [String(e)] };
     }
   };
 
@@ -816,17 +1587,11 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   };
 
   const applySimplefinAccountMapToExisting = (): { updated: number } => {
-    const categorizeByRules = (desc: string): string => {
-      const d = (desc || '').toLowerCase();
-      if (d.includes('interest') || d.includes('fee')) return 'Interest / Fees';
-      if (d.includes('rent') || d.includes('greystar') || d.includes('bilt rent')) return 'Rent & Utilities';
-      if (d.includes('doordash') || d.includes('uber eats') || d.includes('restaurant') || d.includes('chick-fil-a') || d.includes('taco') || d.includes('coffee') || d.includes('starbucks') || d.includes('cava') || d.includes('panera') || d.includes('wendy') || d.includes('mcdonald')) return 'Food/Beverages/Groceries';
-      if (d.includes('instacart') || d.includes('wegmans')) return 'Food/Beverages/Groceries';
-      if (d.includes('exxon') || d.includes('gas') || d.includes('shell')) return 'Transportation/Gas';
-      if (d.includes('spotify') || d.includes('visible') || d.includes('verizon') || d.includes('prime') || d.includes('namesilo') || d.includes('lookify') || d.includes('artlist')) return 'Personal Subscription';
-      if (d.includes('openai')) return 'Business Subscription';
-      if (d.includes('amazon') || d.includes('target')) return 'Personal Purchase';
-      return 'Other';
+    // Only fills in missing categories; use "apply rules" to re-run the full rule actions.
+    const fillCategory = (t: Transaction): string => {
+      const suggestion = suggestCategory(t);
+      if (suggestion && suggestion.confidence >= CONFIDENT_SUGGESTION) return suggestion.category;
+      return findMatchingRule(categoryRules, t)?.category || 'Other';
     };
 
     let updated = 0;
@@ -836,7 +1601,7 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       if (!mapped) {
         if (!t.category || t.category === 'Uncategorized') {
           updated++;
-          return { ...t, category: categorizeByRules(t.description || '') };
+          return { ...t, category: fillCategory(t) };
         }
         return t;
       }
@@ -845,7 +1610,7 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         return { ...t, category: t.category || 'Uncategorized' }; // leave; user can delete if desired
       }
 
-      const nextCategory = (!t.category || t.category === 'Uncategorized') ? categorizeByRules(t.description || '') : t.category;
+      const nextCategory = (!t.category || t.category === 'Uncategorized') ? fillCategory(t) : t.category;
       if (mapped.kind === 'debt') {
         const d = (t.description || '').toLowerCase();
         const isInterest = d.includes('interest') || d.includes('fee');
@@ -865,9 +1630,19 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         return { ...t, category: isGrowth ? 'Interest / Fees' : nextCategory, type: nextType, assetAccountId: mapped.assetAccountId || t.assetAccountId };
       }
 
-      if (!t.category || t.category === 'Uncategorized') {
+      const cashAccountId = mapped.cashAccountId;
+      if (t.type === 'expense' && isTransferDescription(t.description || '')) {
+        updated++;
+        return { ...t, type: 'transfer', category: 'Transfer', fromAccount: { kind: 'cash', id: cashAccountId }, toAccount: { kind: 'cash' } };
+      }
+      // Transfers converted from this account's debits: the untracked "from" side is this account.
+      if (t.type === 'transfer' && cashAccountId && t.toAccount?.id !== cashAccountId && t.fromAccount?.kind === 'cash' && !t.fromAccount.id) {
+        updated++;
+        return { ...t, fromAccount: { kind: 'cash', id: cashAccountId } };
+      }
+      if (!t.category || t.category === 'Uncategorized' || t.cashAccountId !== cashAccountId) {
         updated++;
-        return { ...t, category: nextCategory };
+        return { ...t, category: nextCategory, cashAccountId };
       }
       return t;
     }));
@@ -879,8 +1654,6 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     if (!files || files.length === 0) throw new Error("No files provided");
 
     const form = new FormData();
-    form.append('email', user.email);
-    form.append('password', user.key);
     if (user.openRouterKey) form.append('openRouterKey', user.openRouterKey);
     form.append('categories', JSON.stringify(categoriesHint || []));
     if (model) form.append('model', model);
@@ -888,6 +1661,7 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
     const res = await fetch('/api/import', {
       method: 'POST',
+      headers: authHeaders(user.token),
       body: form
     });
     if (!res.ok) {
@@ -902,10 +1676,33 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       transactions,
       debts,
       assets,
+      cashAccounts,
       recurring,
+      categoryRules,
+      dismissedSeries,
       user,
       categoryBudgets,
+      budgetHistory,
+      budgetsForMonth,
+      setMonthlyBudget,
+      copyBudgetsFromPreviousMonth,
+      envelopes,
+      setEnvelopeMode,
+      moveEnvelopeFunds,
+      deleteEnvelopeMove,
+      envelopeBalancesForMonth,
+      plans,
+      setPlanAmount,
+      sinkingFunds,
+      addSinkingFund,
+      editSinkingFund,
+      deleteSinkingFund,
+      addSinkingFundContribution,
+      netWorthSnapshots,
+      addNetWorthSnapshot,
+      deleteNetWorthSnapshot,
       addTransaction,
+      addImportedTransactions,
       editTransaction,
       deleteTransaction,
       addDebt,
@@ -914,11 +1711,28 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       addAsset,
       editAsset,
       deleteAsset,
+      setAssetValuation,
+      deleteAssetValuation,
+      addCashAccount,
+      editCashAccount,
+      deleteCashAccount,
       addRecurring,
       editRecurring,
       deleteRecurring,
       toggleRecurring,
-      generateRecurringForMonth,
+      setRecurrenceException,
+      clearRecurrenceException,
+      endRecurringSeries,
+      confirmRecurring,
+      matchRecurring,
+      dismissSeries,
+      addCategoryRule,
+      editCategoryRule,
+      deleteCategoryRule,
+      moveCategoryRule,
+      applyCategoryRulesToExisting,
+      suggestCategory,
+      categorizeImported,
       setCategoryBudget,
       importCSV,
       clearAll,
@@ -926,6 +1740,14 @@ export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       loadFromCloud,
       logout,
       isSyncing,
+      syncError,
+      syncConflicts,
+      resolveSyncConflict,
+      vaultEnabled,
+      vaultLocked: vaultEnabled && !vaultKey,
+      enableVault,
+      unlockVault,
+      lockVault,
       updatePassword,
       saveOpenRouterKey,
       aiImportStatements,
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { amortizationSchedule, loanLedger, scheduledBalanceOn } from './amortization';
+import type { DebtAccount, Transaction } from '../context/BudgetContext';
+
+// $12,000 over 12 months at 6%: $1,032.80 a month, $60 interest in month one.
+const loan: DebtAccount = {
+  id: 'car',
+  name: 'Car loan',
+  startingBalance: 12000,
+  apr: 6,
+  loan: { principal: 12000, termMonths: 12, startDate: '2025-01-15' },
+};
+
+const payment = (date: string, amount: number, id = date): Transaction =>
+  ({ id, date, description: 'Loan payment', amount, type: 'debt-payment', category: 'Debt', debtAccountId: 'car' }) as Transaction;
+
+const onSchedule = (count: number) =>
+  amortizationSchedule(loan).slice(0, count).map(row => payment(row.date, row.payment));
+
+describe('loanLedger', () => {
+  it('matches the schedule when every payment is made on time', () => {
+    const ledger = loanLedger(loan, onSchedule(3), '2025-03-20');
+    expect(ledger.balance).toBeCloseTo(scheduledBalanceOn(loan, '2025-03-20'), 6);
+    expect(ledger.splits[0].interest).toBeCloseTo(60, 6);
+    expect(ledger.splits[0].principal).toBeCloseTo(amortizationSchedule(loan)[0].principal, 6);
+  });
+
+  it('keeps accruing interest through a skipped month', () => {
+    const ledger = loanLedger(loan, onSchedule(1), '2025-02-20');
+    const afterFirst = ledger.splits[0].balance;
+    expect(ledger.balance).toBeCloseTo(afterFirst * 1.005, 6);
+    expect(ledger.balance).toBeGreaterThan(scheduledBalanceOn(loan, '2025-02-20'));
+  });
+
+  it('shows negative amortization when a payment does not cover the interest', () => {
+    const ledger = loanLedger(loan, [payment('2025-01-15', 20)], '2025-01-20');
+    expect(ledger.splits[0]).toMatchObject({ interest: 20, principal: 0 });
+    expect(ledger.balance).toBeCloseTo(12040, 6);
+  });
+
+  it('carries unpaid interest into the next payment', () => {
+    const ledger = loanLedger(loan, [payment('2025-01-15', 20), payment('2025-02-15', 200)], '2025-02-20');
+    expect(ledger.splits[1].interest).toBeCloseTo(40 + 12040 * 0.005, 6);
+  });
+
+  it('does not accrue before the loan starts', () => {
+    expect(loanLedger(loan, [], '2025-01-14')).toMatchObject({ balance: 12000, interest: 0 });
+  });
+
+  it('leaves manual interest entries out instead of counting interest twice', () => {
+    const manual = { ...payment('2025-01-31', 60, 'manual'), type: 'debt-interest' } as Transaction;
+    const ledger = loanLedger(loan, [...onSchedule(1), manual], '2025-01-31');
+    expect(ledger.interest).toBeCloseTo(60, 6);
+    expect(ledger.ignoredInterest).toEqual([manual]);
+  });
+});
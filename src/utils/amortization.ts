@@ -0,0 +1,146 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import type { DebtAccount, Transaction } from '../context/BudgetContext';
+import { amountForDebt } from './transactions';
+
+const EPSILON = 0.005;
+
+export interface AmortizationRow {
+  n: number; // 1-based payment number
+  date: string; // YYYY-MM-DD
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number; // after this payment
+}
+
+export interface LoanPaymentSplit {
+  transaction: Transaction;
+  interest: number;
+  principal: number;
+  balance: number; // after this payment
+}
+
+export interface LoanLedger {
+  splits: LoanPaymentSplit[]; // oldest first
+  payments: number;
+  charges: number;
+  interest: number; // accrued monthly since the loan started
+  balance: number;
+  ignoredInterest: Transaction[]; // manual interest entries, left out because the loan accrues its own
+}
+
+// Fixed monthly payment that retires `principal` over `termMonths` at `aprPct`.
+export const loanPayment = (principal: number, aprPct: number, termMonths: number): number => {
+  if (termMonths <= 0) return principal;
+  const r = aprPct / 100 / 12;
+  if (r === 0) return principal / termMonths;
+  return principal * r / (1 - Math.pow(1 + r, -termMonths));
+};
+
+// Scheduled monthly payment for an amortizing debt, or undefined for revolving accounts.
+export const scheduledLoanPayment = (debt: DebtAccount): number | undefined =>
+  debt.loan ? loanPayment(debt.loan.principal, debt.apr || 0, debt.loan.termMonths) : undefined;
+
+export const amortizationSchedule = (debt: DebtAccount): AmortizationRow[] => {
+  if (!debt.loan) return [];
+  const { principal, termMonths, startDate } = debt.loan;
+  const r = (debt.apr || 0) / 100 / 12;
+  const payment = loanPayment(principal, debt.apr || 0, termMonths);
+  const rows: AmortizationRow[] = [];
+  let balance = principal;
+
+  for (let n = 1; n <= termMonths && balance > EPSILON; n++) {
+    const interest = balance * r;
+    const toPrincipal = Math.min(balance, payment - interest);
+    balance -= toPrincipal;
+    rows.push({
+      n,
+      date: format(addMonths(parseISO(startDate), n - 1), 'yyyy-MM-dd'),
+      payment: toPrincipal + interest,
+      interest,
+      principal: toPrincipal,
+      balance: Math.max(0, balance),
+    });
+  }
+  return rows;
+};
+
+// Scheduled balance after the payments due on or before `date`.
+export const scheduledBalanceOn = (debt: DebtAccount, date: string): number => {
+  const past = amortizationSchedule(debt).filter(row => row.date <= date);
+  return past.length ? past[past.length - 1].balance : debt.loan?.principal ?? 0;
+};
+
+// Payments left at the scheduled amount to clear `balance` (Infinity if they don't cover interest).
+export const paymentsRemaining = (balance: number, aprPct: number, payment: number): number => {
+  if (balance <= EPSILON) return 0;
+  const r = aprPct / 100 / 12;
+  if (r === 0) return Math.ceil(balance / payment);
+  if (payment <= balance * r) return Infinity;
+  return Math.ceil(-Math.log(1 - balance * r / payment) / Math.log(1 + r));
+};
+
+/**
+ * Replays an amortizing loan's activity up to `asOf`. Interest accrues on the
+ * balance once a month from the loan's start date, paid or not, so missed and
+ * short payments show up as a growing balance. Each payment goes to accrued
+ * interest first, then principal.
+ */
+export const loanLedger = (debt: DebtAccount, txs: Transaction[], asOf = format(new Date(), 'yyyy-MM-dd')): LoanLedger => {
+  const r = (debt.apr || 0) / 100 / 12;
+  const ignoredInterest: Transaction[] = [];
+  const events = txs
+    .map(t => {
+      if (t.type === 'transfer') {
+        if (t.toAccount?.kind === 'debt' && t.toAccount.id === debt.id) return { t, kind: 'payment' as const, amount: t.amount };
+        if (t.fromAccount?.kind === 'debt' && t.fromAccount.id === debt.id) return { t, kind: 'charge' as const, amount: t.amount };
+        return null;
+      }
+      const amount = amountForDebt(t, debt.id);
+      if (!amount) return null;
+      if (t.type === 'debt-payment' || t.type === 'debt') return { t, kind: 'payment' as const, amount };
+      if (t.type === 'debt-charge') return { t, kind: 'charge' as const, amount };
+      if (t.type === 'debt-interest') ignoredInterest.push(t);
+      return null;
+    })
+    .filter((e): e is NonNullable<typeof e> => e !== null)
+    .sort((a, b) => a.t.date.localeCompare(b.t.date));
+
+  let balance = debt.startingBalance;
+  let payments = 0;
+  let charges = 0;
+  let interest = 0;
+  let unpaidInterest = 0;
+  let accruals = 0;
+  const splits: LoanPaymentSplit[] = [];
+
+  // Interest for each month whose due date (start date + n months) is on or before `date`,
+  // picking up after the months already accrued.
+  const accrueThrough = (date: string) => {
+    if (!debt.loan || r === 0) return;
+    const start = parseISO(debt.loan.startDate);
+    for (let due = format(addMonths(start, accruals), 'yyyy-MM-dd'); due <= date; due = format(addMonths(start, ++accruals), 'yyyy-MM-dd')) {
+      const accrued = Math.max(0, balance) * r;
+      interest += accrued;
+      unpaidInterest += accrued;
+      balance += accrued;
+    }
+  };
+
+  for (const e of events) {
+    accrueThrough(e.t.date);
+    if (e.kind === 'charge') {
+      charges += e.amount;
+      balance += e.amount;
+    } else {
+      const toInterest = Math.min(e.amount, unpaidInterest);
+      unpaidInterest -= toInterest;
+      payments += e.amount;
+      balance -= e.amount;
+      splits.push({ transaction: e.t, interest: toInterest, principal: e.amount - toInterest, balance });
+    }
+  }
+  accrueThrough(asOf);
+
+  return { splits, payments, charges, interest, balance, ignoredInterest };
+};
@@ -0,0 +1,139 @@
+import type { AssetAccount, AssetValuation, CashAccount, DebtAccount, Transaction } from '../context/BudgetContext';
+import { amountForAsset, amountForDebt, cashDelta } from './transactions';
+import { loanLedger } from './amortization';
+
+export interface DebtStats {
+  current: number;
+  payments: number;
+  charges: number;
+  interest: number;
+}
+
+export interface AssetStats {
+  current: number;
+  deposits: number;
+  growth: number;
+  withdrawals: number;
+}
+
+export interface CashLedgerEntry {
+  transaction: Transaction;
+  delta: number;
+  balance: number; // after this transaction
+}
+
+export interface CashAccountStats {
+  current: number;
+  inflows: number;
+  outflows: number;
+  ledger: CashLedgerEntry[]; // oldest first
+}
+
+/**
+ * Running balance of a debt account. Transfers into the account pay it down;
+ * transfers out of it (cash advances, balance transfers) add to it. Amortizing
+ * loans also accrue interest every month (see loanLedger).
+ */
+export const debtStats = (debt: DebtAccount, txs: Transaction[]): DebtStats => {
+  if (debt.loan) {
+    const { balance, payments, charges, interest } = loanLedger(debt, txs);
+    return { current: balance, payments, charges, interest };
+  }
+
+  let payments = 0;
+  let charges = 0;
+  let interest = 0;
+
+  for (const t of txs) {
+    if (t.type === 'transfer') {
+      if (t.toAccount?.kind === 'debt' && t.toAccount.id === debt.id) payments += t.amount;
+      if (t.fromAccount?.kind === 'debt' && t.fromAccount.id === debt.id) charges += t.amount;
+      continue;
+    }
+    const amt = amountForDebt(t, debt.id);
+    if (!amt) continue;
+    if (t.type === 'debt-payment' || t.type === 'debt') payments += amt;
+    else if (t.type === 'debt-charge') charges += amt;
+    else if (t.type === 'debt-interest') interest += amt;
+  }
+
+  return { current: debt.startingBalance + charges + interest - payments, payments, charges, interest };
+};
+
+// Interest posted to a debt account on or after `sinceDate` (YYYY-MM-DD).
+export const debtInterestSince = (debt: DebtAccount, txs: Transaction[], sinceDate: string): number =>
+  txs
+    .filter(t => t.type === 'debt-interest' && t.date >= sinceDate)
+    .reduce((sum, t) => sum + amountForDebt(t, debt.id), 0);
+
+// How one transaction moves an asset account: money in, recorded growth, money out.
+export const assetFlow = (t: Transaction, assetId: string): { deposit: number; growth: number; withdrawal: number } => {
+  const flow = { deposit: 0, growth: 0, withdrawal: 0 };
+  if (t.type === 'transfer') {
+    if (t.toAccount?.kind === 'asset' && t.toAccount.id === assetId) flow.deposit += t.amount;
+    if (t.fromAccount?.kind === 'asset' && t.fromAccount.id === assetId) flow.withdrawal += t.amount;
+    return flow;
+  }
+  const amt = amountForAsset(t, assetId);
+  if (t.type === 'asset-deposit') flow.deposit = amt;
+  else if (t.type === 'asset-growth') flow.growth = amt;
+  return flow;
+};
+
+// Latest valuation on or before `asOf` (or overall when omitted).
+export const latestValuation = (asset: AssetAccount, asOf?: string): AssetValuation | undefined =>
+  (asset.valuations || [])
+    .filter(v => !asOf || v.date <= asOf)
+    .reduce<AssetValuation | undefined>((latest, v) => (!latest || v.date > latest.date ? v : latest), undefined);
+
+/**
+ * Running balance of an asset account, including transfers in and out of it.
+ * A valuation snapshot resets the balance on its date; only later activity
+ * moves it from there. Pass `asOf` to ignore valuations after that day.
+ */
+export const assetStats = (asset: AssetAccount, txs: Transaction[], asOf?: string): AssetStats => {
+  const valuation = latestValuation(asset, asOf);
+  let deposits = 0;
+  let growth = 0;
+  let withdrawals = 0;
+  let sinceValuation = 0;
+
+  for (const t of txs) {
+    const flow = assetFlow(t, asset.id);
+    deposits += flow.deposit;
+    growth += flow.growth;
+    withdrawals += flow.withdrawal;
+    if (valuation && t.date > valuation.date) sinceValuation += flow.deposit + flow.growth - flow.withdrawal;
+  }
+
+  const current = valuation
+    ? valuation.value + sinceValuation
+    : asset.startingBalance + deposits + growth - withdrawals;
+  return { current, deposits, growth, withdrawals };
+};
+
+/**
+ * Running balance of a cash account from its starting balance. Transactions
+ * dated before the starting date are already reflected in that balance.
+ */
+export const cashAccountStats = (account: CashAccount, txs: Transaction[]): CashAccountStats => {
+  let balance = account.startingBalance;
+  let inflows = 0;
+  let outflows = 0;
+  const ledger: CashLedgerEntry[] = [];
+
+  const relevant = txs
+    .filter(t => !account.startingDate || t.date >= account.startingDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const t of relevant) {
+    const delta = cashDelta(t, account.id);
+    if (!delta) continue;
+    if (delta > 0) inflows += delta;
+    else outflows -= delta;
+    balance += delta;
+    ledger.push({ transaction: t, delta, balance });
+  }
+
+  return { current: balance, inflows, outflows, ledger };
+};
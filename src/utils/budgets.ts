@@ -0,0 +1,79 @@
+import { addMonths, format, parseISO, subMonths } from 'date-fns';
+
+// Category → monthly target.
+export type BudgetLimits = Record<string, number>;
+// YYYY-MM → full set of targets from that month until the next entry.
+export type BudgetHistory = Record<string, BudgetLimits>;
+
+export type BudgetScope = 'month' | 'onward';
+
+const nextMonth = (yyyyMM: string) => format(addMonths(parseISO(`${yyyyMM}-01`), 1), 'yyyy-MM');
+export const previousMonth = (yyyyMM: string) => format(subMonths(parseISO(`${yyyyMM}-01`), 1), 'yyyy-MM');
+
+export const monthsOfYear = (yyyy: string): string[] =>
+  Array.from({ length: 12 }, (_, mi) => `${yyyy}-${String(mi + 1).padStart(2, '0')}`);
+
+// Month whose entry is in effect for `yyyyMM`; undefined means the baseline applies.
+export const budgetSourceMonth = (history: Record<string, unknown>, yyyyMM: string): string | undefined =>
+  Object.keys(history).filter(k => k <= yyyyMM).sort().pop();
+
+/**
+ * Targets in effect for a month: the latest history entry at or before it,
+ * falling back to the flat `base` budgets for months before any entry.
+ */
+export const budgetsForMonth = (base: BudgetLimits, history: BudgetHistory, yyyyMM: string): BudgetLimits => {
+  const key = budgetSourceMonth(history, yyyyMM);
+  return key ? history[key] : base;
+};
+
+// Per-category sum of the targets in effect for each month (e.g. a year view).
+export const budgetsForMonths = (base: BudgetLimits, history: BudgetHistory, months: string[]): BudgetLimits => {
+  const out: BudgetLimits = {};
+  for (const m of months) {
+    for (const [category, limit] of Object.entries(budgetsForMonth(base, history, m))) {
+      out[category] = (out[category] || 0) + limit;
+    }
+  }
+  return out;
+};
+
+const withLimit = (limits: BudgetLimits, category: string, amount: number): BudgetLimits => {
+  const next = { ...limits };
+  if (amount > 0) next[category] = amount;
+  else delete next[category];
+  return next;
+};
+
+/**
+ * Sets one category's target. `month` changes only that month (the following
+ * month is pinned to what it had); `onward` also overwrites later entries.
+ */
+export const setBudgetInHistory = (
+  base: BudgetLimits,
+  history: BudgetHistory,
+  yyyyMM: string,
+  category: string,
+  amount: number,
+  scope: BudgetScope,
+): BudgetHistory => {
+  const next: BudgetHistory = { ...history };
+  const following = nextMonth(yyyyMM);
+
+  if (scope === 'month' && !next[following]) {
+    next[following] = { ...budgetsForMonth(base, history, following) };
+  }
+  next[yyyyMM] = withLimit(budgetsForMonth(base, history, yyyyMM), category, amount);
+
+  if (scope === 'onward') {
+    for (const k of Object.keys(next)) {
+      if (k > yyyyMM) next[k] = withLimit(next[k], category, amount);
+    }
+  }
+  return next;
+};
+
+// Starts a month from the previous month's targets.
+export const copyPreviousMonthBudgets = (base: BudgetLimits, history: BudgetHistory, yyyyMM: string): BudgetHistory => ({
+  ...history,
+  [yyyyMM]: { ...budgetsForMonth(base, history, previousMonth(yyyyMM)) },
+});
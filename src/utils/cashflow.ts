@@ -0,0 +1,62 @@
+import type { Transaction } from '../context/BudgetContext';
+import { transferLegs } from './transactions';
+
+export interface CashflowSummary {
+  income: number;
+  spend: number;
+  debtPayments: number;
+  savings: number;
+  cashOut: number;
+  cashLeft: number;
+  savingsRate: number;
+  debtPayoffRate: number;
+}
+
+/**
+ * Cashflow for a set of transactions (callers filter by period).
+ *
+ * Spend covers cash expenses plus card charges and interest. Cash left follows
+ * actual cash: card charges only leave cash when the card is paid, which is a
+ * transfer, so nothing is counted twice and no description guessing is needed.
+ */
+export const summarizeCashflow = (txs: Transaction[]): CashflowSummary => {
+  let income = 0;
+  let spend = 0;
+  let cashExpenses = 0;
+  let debtPayments = 0;
+  let savings = 0;
+  let netTransfersOut = 0;
+
+  for (const t of txs) {
+    const legs = transferLegs(t);
+    if (legs) {
+      if (legs.to.kind === 'debt') debtPayments += t.amount;
+      if (legs.to.kind === 'asset') savings += t.amount;
+      if (legs.from.kind === 'asset') savings -= t.amount;
+      if (legs.from.kind === 'cash' && legs.to.kind !== 'cash') netTransfersOut += t.amount;
+      if (legs.to.kind === 'cash' && legs.from.kind !== 'cash') netTransfersOut -= t.amount;
+      continue;
+    }
+    if (t.type === 'income') income += t.amount;
+    if (t.type === 'expense') {
+      spend += t.amount;
+      cashExpenses += t.amount;
+    }
+    if (t.type === 'debt-charge' || t.type === 'debt-interest') spend += t.amount;
+  }
+
+  const cashOut = cashExpenses + netTransfersOut;
+  const cashLeft = income - cashOut;
+
+  return {
+    income,
+    spend,
+    debtPayments,
+    savings,
+    cashOut,
+    cashLeft,
+    // Rates (avoid division by 0)
+    savingsRate: income > 0 ? savings / income : 0,
+    debtPayoffRate: income > 0 ? debtPayments / income : 0,
+  };
+};
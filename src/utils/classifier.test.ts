@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { categorizeImport, CONFIDENT_SUGGESTION, suggestCategory, trainCategoryModel } from './classifier';
+import type { CategoryRule, Transaction } from '../context/BudgetContext';
+
+const history = (description: string, category: string, count: number): Transaction[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `${category}-${i}`,
+    date: '2025-01-01',
+    description,
+    amount: 5,
+    type: 'expense',
+    category,
+  }) as Transaction);
+
+// The user has always filed Blue Bottle under Coffee, and Shell under Gas.
+const model = trainCategoryModel([...history('BLUE BOTTLE COFFEE', 'Coffee', 12), ...history('SHELL OIL 1234', 'Gas', 12)]);
+
+const coffeeRule: CategoryRule = { id: 'r1', enabled: true, pattern: 'coffee', isRegex: false, category: 'Food', tags: ['cafe'] };
+const fallbackRule: CategoryRule = { id: 'r2', enabled: true, pattern: 'hardware', isRegex: false, category: 'Home' };
+
+const row = (description: string, category = 'Uncategorized') =>
+  ({ date: '2025-02-01', description, amount: 5, type: 'expense', category }) as Omit<Transaction, 'id'>;
+
+describe('suggestCategory', () => {
+  it('is confident about descriptions it has learned', () => {
+    const suggestion = suggestCategory(model, row('BLUE BOTTLE COFFEE'));
+    expect(suggestion?.category).toBe('Coffee');
+    expect(suggestion!.confidence).toBeGreaterThanOrEqual(CONFIDENT_SUGGESTION);
+  });
+
+  it('has nothing to say about unseen descriptions', () => {
+    expect(suggestCategory(model, row('ACE HARDWARE'))).toBeNull();
+  });
+});
+
+describe('categorizeImport', () => {
+  it("prefers a confident suggestion over the matching rule, keeping the rule's other actions", () => {
+    const result = categorizeImport(row('BLUE BOTTLE COFFEE'), [coffeeRule], model);
+    expect(result.category).toBe('Coffee');
+    expect(result.tags).toEqual(['cafe']);
+  });
+
+  it('falls back to the rule when the model is unsure', () => {
+    expect(categorizeImport(row('ACE HARDWARE'), [coffeeRule, fallbackRule], model).category).toBe('Home');
+  });
+
+  it('keeps a category the row arrived with', () => {
+    expect(categorizeImport(row('BLUE BOTTLE COFFEE', 'Gifts'), [coffeeRule], model).category).toBe('Gifts');
+  });
+});
@@ -0,0 +1,130 @@
+import type { CategoryRule, Transaction } from '../context/BudgetContext';
+import { applyCategoryRules, isUncategorized } from './rules';
+import type { RuleSubject } from './rules';
+
+/**
+ * Naive Bayes category model trained on the user's own categorized
+ * transactions, so manual corrections feed back into future imports.
+ */
+export interface CategoryModel {
+  docCount: number;
+  classDocs: Record<string, number>;
+  classTokens: Record<string, Record<string, number>>;
+  classTokenTotals: Record<string, number>;
+  vocabularySize: number;
+}
+
+export interface CategorySuggestion {
+  category: string;
+  confidence: number; // 0..1
+}
+
+// Suggestions at or above this confidence win over rule categories on import.
+export const CONFIDENT_SUGGESTION = 0.75;
+
+// Below this many labelled examples the model is too thin to trust.
+const MIN_TRAINING_DOCS = 10;
+
+// Categories that carry no signal about what the user wants.
+const UNLABELLED = new Set(['', 'Uncategorized', 'Other']);
+
+// Bank boilerplate that shows up across every category.
+const STOP_WORDS = new Set([
+  'pos', 'debit', 'credit', 'purchase', 'card', 'ach', 'payment', 'online', 'web', 'id',
+  'ref', 'the', 'and', 'inc', 'llc', 'co', 'com', 'www', 'recurring', 'pending', 'visa', 'mc',
+]);
+
+export const normalizeDescription = (desc: string): string =>
+  (desc || '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Coarse log-scale bucket so "$4 coffee" and "$1,200 rent" separate without overfitting to cents.
+const amountToken = (amount: number): string => {
+  const abs = Math.abs(Number(amount) || 0);
+  if (abs <= 0) return 'amt:0';
+  return `amt:${Math.floor(Math.log2(abs))}`;
+};
+
+export const tokenize = (t: Pick<Transaction, 'description' | 'amount'>): string[] => {
+  const words = normalizeDescription(t.description)
+    .split(' ')
+    .filter(w => w.length >= 2 && !STOP_WORDS.has(w));
+  const bigrams = words.slice(1).map((w, i) => `${words[i]}_${w}`);
+  return [...words, ...bigrams, amountToken(t.amount)];
+};
+
+export const trainCategoryModel = (txs: Transaction[]): CategoryModel => {
+  const model: CategoryModel = { docCount: 0, classDocs: {}, classTokens: {}, classTokenTotals: {}, vocabularySize: 0 };
+  const vocabulary = new Set<string>();
+
+  for (const t of txs) {
+    // Split transactions have several categories; none of them describes the whole row.
+    if (t.splits && t.splits.length > 0) continue;
+    if (UNLABELLED.has(t.category || '')) continue;
+
+    const tokens = tokenize(t);
+    if (tokens.length <= 1) continue; // amount bucket only
+
+    model.docCount++;
+    model.classDocs[t.category] = (model.classDocs[t.category] || 0) + 1;
+    const counts = model.classTokens[t.category] || (model.classTokens[t.category] = {});
+    for (const tok of tokens) {
+      counts[tok] = (counts[tok] || 0) + 1;
+      model.classTokenTotals[t.category] = (model.classTokenTotals[t.category] || 0) + 1;
+      vocabulary.add(tok);
+    }
+  }
+
+  model.vocabularySize = vocabulary.size;
+  return model;
+};
+
+/**
+ * Most likely category for a description/amount, with the posterior
+ * probability as confidence. Null when the model has nothing to go on.
+ */
+export const suggestCategory = (
+  model: CategoryModel,
+  t: Pick<Transaction, 'description' | 'amount'>,
+): CategorySuggestion | null => {
+  if (model.docCount < MIN_TRAINING_DOCS) return null;
+
+  const tokens = tokenize(t);
+  const known = tokens.filter(tok => Object.values(model.classTokens).some(c => c[tok]));
+  // Require at least one description token we've seen; an amount alone is not evidence.
+  if (!known.some(tok => !tok.startsWith('amt:'))) return null;
+
+  const scores: Array<{ category: string; logP: number }> = [];
+  for (const [category, docs] of Object.entries(model.classDocs)) {
+    const counts = model.classTokens[category];
+    const denom = model.classTokenTotals[category] + model.vocabularySize;
+    let logP = Math.log(docs / model.docCount);
+    for (const tok of known) {
+      logP += Math.log(((counts[tok] || 0) + 1) / denom);
+    }
+    scores.push({ category, logP });
+  }
+
+  // Softmax over log scores, shifted by the max for numerical stability.
+  const max = Math.max(...scores.map(s => s.logP));
+  const weights = scores.map(s => ({ category: s.category, w: Math.exp(s.logP - max) }));
+  const total = weights.reduce((sum, s) => sum + s.w, 0);
+  const best = weights.reduce((a, b) => (b.w > a.w ? b : a));
+
+  return { category: best.category, confidence: best.w / total };
+};
+
+/**
+ * Categorizes an imported row: a confident learned guess first, the first
+ * matching rule's category when the model is unsure. Rules still set type,
+ * links and tags, and a row that arrives with its own category keeps it.
+ */
+export const categorizeImport = <T extends RuleSubject>(t: T, rules: CategoryRule[], model: CategoryModel): T => {
+  const ruled = applyCategoryRules(t, rules, { keepCategory: true });
+  if (ruled.type === 'transfer' || !isUncategorized(t.category)) return ruled;
+  const suggestion = suggestCategory(model, t);
+  return suggestion && suggestion.confidence >= CONFIDENT_SUGGESTION ? { ...ruled, category: suggestion.category } : ruled;
+};
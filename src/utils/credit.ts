@@ -0,0 +1,103 @@
+import { addDays, addMonths, differenceInCalendarDays, format, getDaysInMonth, parseISO } from 'date-fns';
+import type { DebtAccount, Transaction } from '../context/BudgetContext';
+import { debtStats } from './balances';
+import { amountForDebt } from './transactions';
+
+// Warn about a card payment this many days before it's due.
+const DUE_SOON_DAYS = 7;
+// Utilization above this share of the limit starts to hurt credit scores.
+const HIGH_UTILIZATION = 0.3;
+
+export interface CreditCardStatus {
+  balance: number;
+  limit?: number;
+  available?: number;
+  utilization?: number; // balance / limit
+  cycleStart?: string; // YYYY-MM-DD, day after the last statement closed
+  cycleEnd?: string; // YYYY-MM-DD, next statement closing date
+  cycleCharges: number; // debt-charge activity in the current cycle
+  dueDate?: string; // YYYY-MM-DD next payment due date
+  daysUntilDue?: number;
+  paidSinceStatement: number;
+  dueSoon: boolean; // due within a week and not yet paid this cycle
+  warnings: string[];
+}
+
+// Cards are debts with a limit or statement cycle; amortizing loans never are.
+export const isCreditCard = (debt: DebtAccount): boolean =>
+  !debt.loan && (debt.creditLimit != null || debt.statementClosingDay != null);
+
+// `day` of the month containing `monthDate`, clamped to that month's length.
+const dayOf = (monthDate: Date, day: number): Date =>
+  new Date(monthDate.getFullYear(), monthDate.getMonth(), Math.min(day, getDaysInMonth(monthDate)));
+
+// Next date on or after `today` that falls on `day` of its month.
+export const nextMonthlyDate = (day: number, today: string): string => {
+  const t = parseISO(today);
+  const thisMonth = dayOf(t, day);
+  return format(thisMonth >= t ? thisMonth : dayOf(addMonths(t, 1), day), 'yyyy-MM-dd');
+};
+
+// Most recent date before `today` that falls on `day` of its month.
+export const previousMonthlyDate = (day: number, today: string): string => {
+  const t = parseISO(today);
+  const thisMonth = dayOf(t, day);
+  return format(thisMonth < t ? thisMonth : dayOf(addMonths(t, -1), day), 'yyyy-MM-dd');
+};
+
+export const creditCardStatus = (debt: DebtAccount, txs: Transaction[], today: string): CreditCardStatus => {
+  const balance = debtStats(debt, txs).current;
+  const limit = debt.creditLimit && debt.creditLimit > 0 ? debt.creditLimit : undefined;
+  const utilization = limit ? Math.max(0, balance) / limit : undefined;
+
+  let cycleStart: string | undefined;
+  let cycleEnd: string | undefined;
+  let cycleCharges = 0;
+  let paidSinceStatement = 0;
+  if (debt.statementClosingDay) {
+    const lastClose = previousMonthlyDate(debt.statementClosingDay, today);
+    cycleStart = format(addDays(parseISO(lastClose), 1), 'yyyy-MM-dd');
+    cycleEnd = nextMonthlyDate(debt.statementClosingDay, today);
+    for (const t of txs) {
+      if (t.date < cycleStart || t.date > today) continue;
+      if (t.type === 'debt-charge') cycleCharges += amountForDebt(t, debt.id);
+      if (t.type === 'debt-payment' || t.type === 'debt') paidSinceStatement += amountForDebt(t, debt.id);
+      if (t.type === 'transfer' && t.toAccount?.kind === 'debt' && t.toAccount.id === debt.id) paidSinceStatement += t.amount;
+    }
+  }
+
+  const dueDate = debt.dueDay ? nextMonthlyDate(debt.dueDay, today) : undefined;
+  const daysUntilDue = dueDate ? differenceInCalendarDays(parseISO(dueDate), parseISO(today)) : undefined;
+
+  const warnings: string[] = [];
+  const owed = debt.minimumPayment || 0.01;
+  const dueSoon = daysUntilDue !== undefined && daysUntilDue <= DUE_SOON_DAYS && balance > 0 && paidSinceStatement < owed;
+  if (dueSoon) {
+    warnings.push(daysUntilDue === 0 ? 'Payment due today' : `Payment due in ${daysUntilDue} day${daysUntilDue === 1 ? '' : 's'}`);
+  }
+  if (utilization !== undefined && utilization > 1) warnings.push('Over credit limit');
+  else if (utilization !== undefined && utilization > HIGH_UTILIZATION) warnings.push(`Utilization above ${HIGH_UTILIZATION * 100}%`);
+
+  return {
+    balance,
+    limit,
+    available: limit !== undefined ? limit - balance : undefined,
+    utilization,
+    cycleStart,
+    cycleEnd,
+    cycleCharges,
+    dueDate,
+    daysUntilDue,
+    paidSinceStatement,
+    dueSoon,
+    warnings,
+  };
+};
+
+// Combined utilization across every card that has a limit.
+export const overallUtilization = (statuses: CreditCardStatus[]): number | undefined => {
+  const withLimit = statuses.filter(s => s.limit !== undefined);
+  const limit = withLimit.reduce((sum, s) => sum + (s.limit || 0), 0);
+  if (limit <= 0) return undefined;
+  return withLimit.reduce((sum, s) => sum + Math.max(0, s.balance), 0) / limit;
+};
@@ -0,0 +1,72 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import type { Transaction } from '../context/BudgetContext';
+import { budgetsForMonth } from './budgets';
+import type { BudgetHistory, BudgetLimits } from './budgets';
+import { isSpend, sumByCategory } from './transactions';
+
+// Money moved from one category's envelope to another's in a given month.
+export interface EnvelopeMove {
+  id: string;
+  month: string; // YYYY-MM
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export interface EnvelopeSettings {
+  enabled: boolean;
+  startMonth: string; // YYYY-MM; nothing rolls in from before this month
+  moves: EnvelopeMove[];
+}
+
+export const DEFAULT_ENVELOPES: EnvelopeSettings = { enabled: false, startMonth: '', moves: [] };
+
+export interface EnvelopeBalance {
+  category: string;
+  rolledIn: number; // leftover (or overspend, when negative) from earlier months
+  budgeted: number;
+  moved: number; // net moves in (+) / out (-) this month
+  spent: number;
+  available: number; // rolledIn + budgeted + moved - spent
+}
+
+/**
+ * Per-category envelope balances for `yyyyMM`. Each month's leftover,
+ * positive or negative, carries into the next from `startMonth` on.
+ */
+export const envelopeBalances = (
+  settings: EnvelopeSettings,
+  base: BudgetLimits,
+  history: BudgetHistory,
+  txs: Transaction[],
+  yyyyMM: string,
+): EnvelopeBalance[] => {
+  const start = settings.startMonth && settings.startMonth <= yyyyMM ? settings.startMonth : yyyyMM;
+  const carry: Record<string, number> = {};
+  let current: EnvelopeBalance[] = [];
+
+  for (let m = parseISO(`${start}-01`); format(m, 'yyyy-MM') <= yyyyMM; m = addMonths(m, 1)) {
+    const month = format(m, 'yyyy-MM');
+    const budgets = budgetsForMonth(base, history, month);
+    const spent = sumByCategory(txs.filter(t => t.date.startsWith(month) && isSpend(t)));
+    const moved: Record<string, number> = {};
+    for (const mv of settings.moves) {
+      if (mv.month !== month) continue;
+      moved[mv.from] = (moved[mv.from] || 0) - mv.amount;
+      moved[mv.to] = (moved[mv.to] || 0) + mv.amount;
+    }
+
+    // Only categories that have been given money are envelopes; unbudgeted spend isn't tracked here.
+    const categories = new Set([...Object.keys(carry), ...Object.keys(budgets), ...Object.keys(moved)]);
+    current = [...categories].map(category => {
+      const rolledIn = carry[category] || 0;
+      const budgeted = budgets[category] || 0;
+      const net = moved[category] || 0;
+      const out = spent[category] || 0;
+      return { category, rolledIn, budgeted, moved: net, spent: out, available: rolledIn + budgeted + net - out };
+    });
+    for (const b of current) carry[b.category] = b.available;
+  }
+
+  return current;
+};
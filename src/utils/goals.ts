@@ -0,0 +1,49 @@
+import { addMonths, differenceInCalendarMonths, format, parseISO, subMonths } from 'date-fns';
+import type { AssetAccount, Transaction } from '../context/BudgetContext';
+import { assetStats } from './balances';
+
+// Months of history used to estimate how fast a goal is being funded.
+const RATE_WINDOW_MONTHS = 3;
+
+export interface GoalProgress {
+  current: number;
+  remaining: number;
+  percent: number; // 0-100
+  monthlyRate: number; // recent balance change per month (deposits and growth)
+  requiredMonthly: number; // to hit the target by its date
+  projectedDate?: string; // YYYY-MM-DD at the recent rate; undefined when not growing
+  onTrack: boolean;
+}
+
+/**
+ * Progress toward an asset account's savings goal. The projection assumes
+ * the last few months' deposits and growth continue at the same pace.
+ */
+export const goalProgress = (asset: AssetAccount, txs: Transaction[], today: string): GoalProgress | null => {
+  const goal = asset.goal;
+  if (!goal || goal.targetAmount <= 0) return null;
+
+  const current = assetStats(asset, txs).current;
+  const remaining = Math.max(0, goal.targetAmount - current);
+
+  const since = format(subMonths(parseISO(today), RATE_WINDOW_MONTHS), 'yyyy-MM-dd');
+  const then = assetStats(asset, txs.filter(t => t.date <= since), since).current;
+  const monthlyRate = (current - then) / RATE_WINDOW_MONTHS;
+
+  const monthsLeft = Math.max(1, differenceInCalendarMonths(parseISO(goal.targetDate), parseISO(today)));
+  const requiredMonthly = remaining / monthsLeft;
+
+  let projectedDate: string | undefined;
+  if (remaining === 0) projectedDate = today;
+  else if (monthlyRate > 0) projectedDate = format(addMonths(parseISO(today), Math.ceil(remaining / monthlyRate)), 'yyyy-MM-dd');
+
+  return {
+    current,
+    remaining,
+    percent: Math.min(100, Math.max(0, (current / goal.targetAmount) * 100)),
+    monthlyRate,
+    requiredMonthly,
+    projectedDate,
+    onTrack: !!projectedDate && projectedDate <= goal.targetDate,
+  };
+};
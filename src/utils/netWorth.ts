@@ -0,0 +1,104 @@
+import { endOfMonth, format, parseISO } from 'date-fns';
+import type { AccountKind, AssetAccount, CashAccount, DebtAccount, Transaction } from '../context/BudgetContext';
+import { assetStats, cashAccountStats, debtStats } from './balances';
+
+/**
+ * Net worth totals recorded by hand (e.g. from statements). A snapshot stands
+ * in for the computed month-end figures of the month it falls in.
+ */
+export interface NetWorthSnapshot {
+  id: string;
+  date: string; // YYYY-MM-DD
+  cash: number;
+  assets: number;
+  debts: number; // amount owed, positive
+  note?: string;
+}
+
+export interface AccountBalance {
+  kind: AccountKind;
+  id: string;
+  name: string;
+  balance: number;
+}
+
+export interface NetWorthTotals {
+  cash: number;
+  assets: number;
+  debts: number;
+  netWorth: number; // cash + assets - debts
+}
+
+export interface NetWorthPoint extends NetWorthTotals {
+  month: string; // YYYY-MM
+  accounts: AccountBalance[]; // computed balances, even when a snapshot overrides the totals
+  snapshot?: NetWorthSnapshot;
+}
+
+export interface NetWorthAccounts {
+  debts: DebtAccount[];
+  assets: AssetAccount[];
+  cashAccounts: CashAccount[];
+}
+
+const sum = (accounts: AccountBalance[], kind: AccountKind) =>
+  accounts.filter(a => a.kind === kind).reduce((total, a) => total + a.balance, 0);
+
+// Every account's balance from its starting balance and the transactions dated on or before `date`.
+export const balancesAsOf = (date: string, accounts: NetWorthAccounts, txs: Transaction[]): AccountBalance[] => {
+  const upTo = txs.filter(t => t.date <= date);
+  return [
+    ...accounts.cashAccounts.map(c => ({ kind: 'cash' as const, id: c.id, name: c.name, balance: cashAccountStats(c, upTo).current })),
+    ...accounts.assets.map(a => ({ kind: 'asset' as const, id: a.id, name: a.name, balance: assetStats(a, upTo, date).current })),
+    ...accounts.debts.map(d => ({ kind: 'debt' as const, id: d.id, name: d.name, balance: debtStats(d, upTo).current })),
+  ];
+};
+
+export const totalsOf = (accounts: AccountBalance[]): NetWorthTotals => {
+  const cash = sum(accounts, 'cash');
+  const assets = sum(accounts, 'asset');
+  const debts = sum(accounts, 'debt');
+  return { cash, assets, debts, netWorth: cash + assets - debts };
+};
+
+// Month-end net worth for each of `months` (YYYY-MM), preferring the month's latest snapshot.
+export const netWorthHistory = (
+  months: string[],
+  accounts: NetWorthAccounts,
+  txs: Transaction[],
+  snapshots: NetWorthSnapshot[],
+): NetWorthPoint[] => months.map(month => {
+  const balances = balancesAsOf(format(endOfMonth(parseISO(`${month}-01`)), 'yyyy-MM-dd'), accounts, txs);
+  const snapshot = snapshots
+    .filter(s => s.date.startsWith(month))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .pop();
+  const totals = snapshot
+    ? { cash: snapshot.cash, assets: snapshot.assets, debts: snapshot.debts, netWorth: snapshot.cash + snapshot.assets - snapshot.debts }
+    : totalsOf(balances);
+  return { month, ...totals, accounts: balances, snapshot };
+});
+
+export interface AccountChange extends AccountBalance {
+  change: number; // effect on net worth (debt paydown is positive)
+}
+
+/** Month-over-month movement, overall and per account, largest movers first. */
+export const netWorthChange = (prev: NetWorthPoint, curr: NetWorthPoint) => {
+  const before = new Map(prev.accounts.map(a => [`${a.kind}:${a.id}`, a.balance]));
+  const accounts: AccountChange[] = curr.accounts
+    .map(a => {
+      const delta = a.balance - (before.get(`${a.kind}:${a.id}`) ?? 0);
+      return { ...a, change: a.kind === 'debt' ? -delta : delta };
+    })
+    .filter(a => Math.abs(a.change) >= 0.005)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+  return {
+    cash: curr.cash - prev.cash,
+    assets: curr.assets - prev.assets,
+    debts: curr.debts - prev.debts,
+    netWorth: curr.netWorth - prev.netWorth,
+    accounts,
+  };
+};
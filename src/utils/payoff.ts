@@ -0,0 +1,97 @@
+// Give up on schedules that would take longer than this (payments below interest).
+const MAX_MONTHS = 600;
+const EPSILON = 0.005;
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+export interface PayoffDebt {
+  id: string;
+  name: string;
+  balance: number;
+  apr: number; // percent
+  minimumPayment: number;
+}
+
+export interface PayoffResult {
+  months: number; // until every debt is paid; MAX_MONTHS when it never is
+  paidOff: boolean;
+  totalInterest: number;
+  payoffMonth: Record<string, number>; // debt id → month index (1-based) of its last payment
+  interestByDebt: Record<string, number>;
+  timeline: Array<Record<string, number>>; // per month: debt id → balance after payments; index 0 is today
+}
+
+/** Order in which extra money is thrown at debts under each strategy. */
+export const payoffOrder = (debts: PayoffDebt[], strategy: PayoffStrategy, customOrder: string[] = []): PayoffDebt[] => {
+  if (strategy === 'avalanche') return [...debts].sort((a, b) => b.apr - a.apr || a.balance - b.balance);
+  if (strategy === 'snowball') return [...debts].sort((a, b) => a.balance - b.balance || b.apr - a.apr);
+  const rank = (id: string) => {
+    const i = customOrder.indexOf(id);
+    return i === -1 ? customOrder.length : i;
+  };
+  return [...debts].sort((a, b) => rank(a.id) - rank(b.id));
+};
+
+/**
+ * Month-by-month payoff simulation. Each month interest accrues, every debt
+ * gets its minimum, and the extra budget plus minimums freed up by debts
+ * already paid off go to the first unpaid debt in strategy order.
+ */
+export const simulatePayoff = (
+  debts: PayoffDebt[],
+  extraMonthly: number,
+  strategy: PayoffStrategy,
+  customOrder: string[] = [],
+): PayoffResult => {
+  const ordered = payoffOrder(debts.filter(d => d.balance > EPSILON), strategy, customOrder);
+  const balances: Record<string, number> = {};
+  const interestByDebt: Record<string, number> = {};
+  const payoffMonth: Record<string, number> = {};
+  for (const d of ordered) {
+    balances[d.id] = d.balance;
+    interestByDebt[d.id] = 0;
+  }
+  const budget = ordered.reduce((sum, d) => sum + d.minimumPayment, 0) + Math.max(0, extraMonthly);
+  const timeline: Array<Record<string, number>> = [{ ...balances }];
+
+  let month = 0;
+  const unpaid = () => ordered.filter(d => balances[d.id] > EPSILON);
+  while (unpaid().length > 0 && month < MAX_MONTHS) {
+    month++;
+    for (const d of unpaid()) {
+      const interest = balances[d.id] * d.apr / 100 / 12;
+      balances[d.id] += interest;
+      interestByDebt[d.id] += interest;
+    }
+
+    let available = budget;
+    for (const d of unpaid()) {
+      const pay = Math.min(d.minimumPayment, balances[d.id], available);
+      balances[d.id] -= pay;
+      available -= pay;
+    }
+    for (const d of unpaid()) {
+      if (available <= EPSILON) break;
+      const pay = Math.min(balances[d.id], available);
+      balances[d.id] -= pay;
+      available -= pay;
+    }
+
+    for (const d of ordered) {
+      if (balances[d.id] <= EPSILON && payoffMonth[d.id] === undefined) {
+        balances[d.id] = 0;
+        payoffMonth[d.id] = month;
+      }
+    }
+    timeline.push({ ...balances });
+  }
+
+  return {
+    months: month,
+    paidOff: unpaid().length === 0,
+    totalInterest: Object.values(interestByDebt).reduce((sum, n) => sum + n, 0),
+    payoffMonth,
+    interestByDebt,
+    timeline,
+  };
+};
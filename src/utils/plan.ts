@@ -0,0 +1,88 @@
+import type { Transaction } from '../context/BudgetContext';
+import { budgetSourceMonth } from './budgets';
+import type { BudgetLimits } from './budgets';
+import { isSpend, sumByCategory, transferLegs } from './transactions';
+
+/**
+ * Zero-based plan for a month. Expense allocations are the month's budget
+ * targets; the plan adds expected income and planned account contributions.
+ */
+export interface MonthlyPlan {
+  income: Record<string, number>; // income category → expected amount
+  contributions: Record<string, number>; // asset account id → planned deposit
+  debtPayments: Record<string, number>; // debt account id → planned payment
+}
+
+// YYYY-MM → plan in effect from that month until the next entry.
+export type PlanHistory = Record<string, MonthlyPlan>;
+
+export type PlanSection = keyof MonthlyPlan;
+
+export const EMPTY_PLAN: MonthlyPlan = { income: {}, contributions: {}, debtPayments: {} };
+
+export const planForMonth = (plans: PlanHistory, yyyyMM: string): MonthlyPlan => {
+  const key = budgetSourceMonth(plans, yyyyMM);
+  return key ? plans[key] : EMPTY_PLAN;
+};
+
+// Sets one line of a month's plan, starting that month from whatever plan was in effect.
+export const setPlanLine = (
+  plans: PlanHistory,
+  yyyyMM: string,
+  section: PlanSection,
+  key: string,
+  amount: number,
+): PlanHistory => {
+  const current = planForMonth(plans, yyyyMM);
+  const lines = { ...current[section] };
+  if (amount > 0) lines[key] = amount;
+  else delete lines[key];
+  return { ...plans, [yyyyMM]: { ...current, [section]: lines } };
+};
+
+const total = (r: Record<string, number>) => Object.values(r).reduce((sum, n) => sum + n, 0);
+
+export interface PlanTotals {
+  income: number;
+  expenses: number;
+  contributions: number;
+  debtPayments: number;
+  leftToAssign: number; // zero when every expected dollar has a job
+}
+
+export const planTotals = (plan: MonthlyPlan, expenseTargets: BudgetLimits): PlanTotals => {
+  const income = total(plan.income);
+  const expenses = total(expenseTargets);
+  const contributions = total(plan.contributions);
+  const debtPayments = total(plan.debtPayments);
+  return { income, expenses, contributions, debtPayments, leftToAssign: income - expenses - contributions - debtPayments };
+};
+
+export interface PlanActuals {
+  income: Record<string, number>; // by income category
+  spend: Record<string, number>; // by expense category
+  contributions: Record<string, number>; // net deposits by asset account id
+  debtPayments: Record<string, number>; // payments by debt account id
+}
+
+// What actually happened in a month, shaped like the plan for side-by-side comparison.
+export const planActuals = (txs: Transaction[], yyyyMM: string): PlanActuals => {
+  const month = txs.filter(t => t.date.startsWith(yyyyMM));
+  const contributions: Record<string, number> = {};
+  const debtPayments: Record<string, number> = {};
+
+  for (const t of month) {
+    const legs = transferLegs(t);
+    if (!legs) continue;
+    if (legs.to.kind === 'asset' && legs.to.id) contributions[legs.to.id] = (contributions[legs.to.id] || 0) + t.amount;
+    if (legs.from.kind === 'asset' && legs.from.id) contributions[legs.from.id] = (contributions[legs.from.id] || 0) - t.amount;
+    if (legs.to.kind === 'debt' && legs.to.id) debtPayments[legs.to.id] = (debtPayments[legs.to.id] || 0) + t.amount;
+  }
+
+  return {
+    income: sumByCategory(month.filter(t => t.type === 'income')),
+    spend: sumByCategory(month.filter(isSpend)),
+    contributions,
+    debtPayments,
+  };
+};
@@ -0,0 +1,121 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { RecurringRule, Transaction } from '../context/BudgetContext';
+import { normalizeDescription } from './classifier';
+import { effectiveOccurrences } from './recurrence';
+
+// An imported amount may differ from the rule's by this fraction (price changes, FX, tax).
+export const AMOUNT_TOLERANCE = 0.1;
+// How far a bank posting date may drift from the scheduled date.
+export const DATE_WINDOW_DAYS = 5;
+// Minimum word overlap between the bank description and the rule description.
+export const MIN_DESCRIPTION_SIMILARITY = 0.34;
+
+type ReconcileSubject = Pick<Transaction, 'date' | 'description' | 'amount' | 'type' | 'category'>
+  & Partial<Pick<Transaction, 'recurringId' | 'recurrenceDate'>>;
+
+export interface RecurringMatch {
+  rule: RecurringRule;
+  occurrence: string;
+  score: number;
+}
+
+const words = (s: string) => new Set(normalizeDescription(s).split(' ').filter(w => w.length >= 2));
+
+/** 0..1 word overlap (Jaccard); 1 when one description contains the other. */
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const na = normalizeDescription(a);
+  const nb = normalizeDescription(b);
+  if (!na || !nb) return 0;
+  if (na.includes(nb) || nb.includes(na)) return 1;
+  const wa = words(a);
+  const wb = words(b);
+  const shared = [...wa].filter(w => wb.has(w)).length;
+  const union = new Set([...wa, ...wb]).size;
+  return union ? shared / union : 0;
+};
+
+/** Entries the app created from a rule, as opposed to rows that came from a bank or file. */
+export const isProjectedRecurring = (t: Transaction): boolean =>
+  Boolean(t.recurringId) && !t.externalId && !t.source;
+
+const occurrenceKey = (ruleId: string, occurrence: string) => `${ruleId}:${occurrence}`;
+
+const isInflow = (type: string) => type === 'income';
+
+/**
+ * Best recurring occurrence an imported transaction fulfils, scored on
+ * description similarity, amount closeness and date distance.
+ */
+export const findRecurringMatch = (
+  t: ReconcileSubject,
+  rules: RecurringRule[],
+  claimed: Set<string> = new Set(),
+): RecurringMatch | null => {
+  if (t.recurringId || t.type === 'transfer' || !t.date) return null;
+  const amount = Math.abs(Number(t.amount) || 0);
+  const date = parseISO(t.date);
+  const from = format(addDays(date, -DATE_WINDOW_DAYS), 'yyyy-MM-dd');
+  const to = format(addDays(date, DATE_WINDOW_DAYS), 'yyyy-MM-dd');
+
+  let best: RecurringMatch | null = null;
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    if (isInflow(rule.type) !== isInflow(String(t.type))) continue;
+
+    const similarity = descriptionSimilarity(t.description, rule.description);
+    if (similarity < MIN_DESCRIPTION_SIMILARITY) continue;
+
+    for (const o of effectiveOccurrences(rule, from, to)) {
+      if (claimed.has(occurrenceKey(rule.id, o.occurrence))) continue;
+      const amountDiff = o.amount > 0 ? Math.abs(amount - o.amount) / o.amount : 1;
+      if (amountDiff > AMOUNT_TOLERANCE) continue;
+      const days = Math.abs(differenceInCalendarDays(date, parseISO(o.date)));
+
+      const score = similarity + 0.5 * (1 - amountDiff / AMOUNT_TOLERANCE) + 0.5 * (1 - days / (DATE_WINDOW_DAYS + 1));
+      if (!best || score > best.score) best = { rule, occurrence: o.occurrence, score };
+    }
+  }
+  return best;
+};
+
+/**
+ * Links incoming transactions to the recurring occurrences they fulfil.
+ * Returns the linked rows and the ids of projected entries they replace.
+ */
+export const reconcileWithRecurring = <T extends ReconcileSubject>(
+  incoming: T[],
+  existing: Transaction[],
+  rules: RecurringRule[],
+): { transactions: T[]; replaced: Set<string>; matched: number } => {
+  // Occurrences already fulfilled by a real transaction can't be matched twice.
+  const claimed = new Set<string>();
+  const projected = new Map<string, string>();
+  for (const t of existing) {
+    if (!t.recurringId) continue;
+    const key = occurrenceKey(t.recurringId, t.recurrenceDate || t.date);
+    if (isProjectedRecurring(t)) projected.set(key, t.id);
+    else claimed.add(key);
+  }
+
+  const replaced = new Set<string>();
+  let matched = 0;
+  const transactions = incoming.map(t => {
+    const match = findRecurringMatch(t, rules, claimed);
+    if (!match) return t;
+
+    const key = occurrenceKey(match.rule.id, match.occurrence);
+    claimed.add(key);
+    const projectedId = projected.get(key);
+    if (projectedId) replaced.add(projectedId);
+    matched++;
+    const uncategorized = !t.category || t.category === 'Uncategorized' || t.category === 'Other';
+    return {
+      ...t,
+      category: uncategorized ? match.rule.category : t.category,
+      recurringId: match.rule.id,
+      recurrenceDate: match.occurrence,
+    };
+  });
+
+  return { transactions, replaced, matched };
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { describeSchedule, effectiveOccurrences, occurrencesBetween, occurrencesInMonth, pendingOccurrences, ruleAnchorDate } from './recurrence';
+import type { RecurringRule, Transaction } from '../context/BudgetContext';
+
+const rule = (overrides: Partial<RecurringRule> = {}): RecurringRule => ({
+  id: 'r1',
+  enabled: true,
+  description: 'Rent',
+  amount: 1200,
+  type: 'expense',
+  category: 'Housing',
+  dayOfMonth: 1,
+  startMonth: '2025-01',
+  ...overrides,
+});
+
+describe('ruleAnchorDate', () => {
+  it('derives the anchor of older rules from startMonth and dayOfMonth', () => {
+    expect(ruleAnchorDate(rule({ dayOfMonth: 31, startMonth: '2025-02' }))).toBe('2025-02-28');
+    expect(ruleAnchorDate(rule({ anchorDate: '2025-03-05' }))).toBe('2025-03-05');
+  });
+});
+
+describe('occurrencesBetween', () => {
+  it('repeats monthly on the anchor day, clamped to short months', () => {
+    const r = rule({ dayOfMonth: 31, anchorDate: '2025-01-31' });
+    expect(occurrencesBetween(r, '2025-01-01', '2025-04-30')).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+  });
+
+  it('repeats weekly and biweekly from the anchor', () => {
+    expect(occurrencesBetween(rule({ frequency: 'weekly', anchorDate: '2025-01-03' }), '2025-01-01', '2025-01-31'))
+      .toEqual(['2025-01-03', '2025-01-10', '2025-01-17', '2025-01-24', '2025-01-31']);
+    expect(occurrencesBetween(rule({ frequency: 'biweekly', anchorDate: '2025-01-03' }), '2025-01-01', '2025-01-31'))
+      .toEqual(['2025-01-03', '2025-01-17', '2025-01-31']);
+  });
+
+  it('repeats every N days', () => {
+    expect(occurrencesBetween(rule({ frequency: 'every-n-days', intervalDays: 10, anchorDate: '2025-01-01' }), '2025-01-01', '2025-02-05'))
+      .toEqual(['2025-01-01', '2025-01-11', '2025-01-21', '2025-01-31']);
+  });
+
+  it('lands semi-monthly on both days, skipping the first day before a mid-month anchor', () => {
+    const r = rule({ frequency: 'semi-monthly', dayOfMonth: 1, secondDayOfMonth: 15, anchorDate: '2025-01-10' });
+    expect(occurrencesBetween(r, '2025-01-01', '2025-02-28')).toEqual(['2025-01-15', '2025-02-01', '2025-02-15']);
+  });
+
+  it('repeats quarterly and yearly on the anchor day', () => {
+    expect(occurrencesBetween(rule({ frequency: 'quarterly', dayOfMonth: 15, anchorDate: '2025-01-15' }), '2025-01-01', '2025-12-31'))
+      .toEqual(['2025-01-15', '2025-04-15', '2025-07-15', '2025-10-15']);
+    expect(occurrencesBetween(rule({ frequency: 'yearly', dayOfMonth: 29, anchorDate: '2024-02-29' }), '2024-01-01', '2026-12-31'))
+      .toEqual(['2024-02-29', '2025-02-28', '2026-02-28']);
+  });
+
+  it('stops at the end date and after the occurrence count', () => {
+    expect(occurrencesBetween(rule({ anchorDate: '2025-01-01', endDate: '2025-03-01' }), '2025-01-01', '2025-12-31'))
+      .toEqual(['2025-01-01', '2025-02-01', '2025-03-01']);
+    expect(occurrencesBetween(rule({ anchorDate: '2025-01-01', occurrenceCount: 2 }), '2025-01-01', '2025-12-31'))
+      .toEqual(['2025-01-01', '2025-02-01']);
+  });
+
+  it('counts occurrences before the window toward the occurrence count', () => {
+    const r = rule({ frequency: 'weekly', anchorDate: '2025-01-01', occurrenceCount: 6 });
+    expect(occurrencesBetween(r, '2025-02-01', '2025-02-28')).toEqual(['2025-02-05']);
+    const semi = rule({ frequency: 'semi-monthly', dayOfMonth: 1, secondDayOfMonth: 15, anchorDate: '2025-01-10', occurrenceCount: 3 });
+    expect(occurrencesBetween(semi, '2025-02-01', '2025-03-31')).toEqual(['2025-02-01', '2025-02-15']);
+  });
+
+  it('expands long-running series far from their anchor', () => {
+    const daily = rule({ frequency: 'every-n-days', intervalDays: 1, anchorDate: '2000-01-01' });
+    expect(occurrencesBetween(daily, '2025-06-01', '2025-06-03')).toEqual(['2025-06-01', '2025-06-02', '2025-06-03']);
+  });
+
+  it('returns nothing before the anchor', () => {
+    expect(occurrencesInMonth(rule({ anchorDate: '2025-05-01' }), '2025-04')).toEqual([]);
+  });
+});
+
+describe('effectiveOccurrences', () => {
+  it('applies skips, moves and amount overrides', () => {
+    const r = rule({
+      anchorDate: '2025-01-01',
+      exceptions: [
+        { date: '2025-02-01', skip: true },
+        { date: '2025-03-01', moveTo: '2025-02-27' },
+        { date: '2025-04-01', amount: 1300 },
+      ],
+    });
+    expect(effectiveOccurrences(r, '2025-02-01', '2025-04-30')).toEqual([
+      { occurrence: '2025-03-01', date: '2025-02-27', amount: 1200, overridden: true },
+      { occurrence: '2025-04-01', date: '2025-04-01', amount: 1300, overridden: true },
+    ]);
+  });
+});
+
+describe('pendingOccurrences', () => {
+  it('leaves out occurrences a transaction already fulfils', () => {
+    const r = rule({ anchorDate: '2025-01-01' });
+    const txs = [{ id: 't1', date: '2025-01-01', recurringId: 'r1', recurrenceDate: '2025-01-01' }] as Transaction[];
+    expect(pendingOccurrences([r], txs, '2025-01-01', '2025-02-28').map(o => o.date)).toEqual(['2025-02-01']);
+    expect(pendingOccurrences([{ ...r, enabled: false }], [], '2025-01-01', '2025-02-28')).toEqual([]);
+  });
+});
+
+describe('describeSchedule', () => {
+  it('summarises the schedule and its limits', () => {
+    expect(describeSchedule(rule({ frequency: 'biweekly', anchorDate: '2025-01-03', occurrenceCount: 10 })))
+      .toBe('Every 2 weeks from 2025-01-03 · 10 times');
+  });
+});
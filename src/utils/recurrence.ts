@@ -0,0 +1,229 @@
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths, format, getDaysInMonth, parseISO } from 'date-fns';
+import type { RecurrenceFrequency, RecurringRule, Transaction } from '../context/BudgetContext';
+
+export const FREQUENCY_OPTIONS: Array<{ value: RecurrenceFrequency; label: string }> = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 Weeks' },
+  { value: 'semi-monthly', label: 'Twice a Month' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'every-n-days', label: 'Every N Days' },
+];
+
+// Guards against runaway loops on malformed rules. Expansion starts at the window, so only
+// very long windows of a daily schedule come near it.
+const MAX_ITERATIONS = 5000;
+
+const toISO = (d: Date) => format(d, 'yyyy-MM-dd');
+
+// Day `day` of the month containing `d`, clamped to the month's length (31 → Feb 28).
+const onDay = (d: Date, day: number): Date =>
+  new Date(d.getFullYear(), d.getMonth(), Math.min(Math.max(1, day), getDaysInMonth(d)));
+
+export const ruleFrequency = (rule: RecurringRule): RecurrenceFrequency => rule.frequency || 'monthly';
+
+/**
+ * First date of the series. Rules created before schedules existed only have
+ * `startMonth` + `dayOfMonth`, which is equivalent to a monthly anchor.
+ */
+export const ruleAnchorDate = (rule: RecurringRule): string => {
+  if (rule.anchorDate) return rule.anchorDate;
+  const start = parseISO(`${rule.startMonth || format(new Date(), 'yyyy-MM')}-01`);
+  return toISO(onDay(start, rule.dayOfMonth));
+};
+
+// Day of month monthly-style schedules land on; `dayOfMonth` wins so 31 survives short months.
+const anchorDay = (rule: RecurringRule): number => rule.dayOfMonth || parseISO(ruleAnchorDate(rule)).getDate();
+
+// Days between occurrences of fixed-interval schedules; 0 for month-based ones.
+const stepDays = (rule: RecurringRule): number => {
+  switch (ruleFrequency(rule)) {
+    case 'weekly': return 7;
+    case 'biweekly': return 14;
+    case 'every-n-days': return Math.max(1, rule.intervalDays || 1);
+    default: return 0;
+  }
+};
+
+/** The n-th candidate date of a schedule (n = 0 is the anchor's period). */
+const nthDate = (rule: RecurringRule, anchor: Date, n: number): Date => {
+  switch (ruleFrequency(rule)) {
+    case 'weekly':
+    case 'biweekly':
+    case 'every-n-days':
+      return addDays(anchor, stepDays(rule) * n);
+    case 'semi-monthly': {
+      const days = [rule.dayOfMonth || 1, rule.secondDayOfMonth || 15].sort((a, b) => a - b);
+      return onDay(addMonths(onDay(anchor, 1), Math.floor(n / 2)), days[n % 2]);
+    }
+    case 'quarterly':
+      return onDay(addMonths(onDay(anchor, 1), 3 * n), anchorDay(rule));
+    case 'yearly':
+      return onDay(addMonths(onDay(anchor, 1), 12 * n), anchorDay(rule));
+    case 'monthly':
+    default:
+      return onDay(addMonths(onDay(anchor, 1), n), anchorDay(rule));
+  }
+};
+
+// Index of the last candidate that can fall before `from`; every earlier one certainly does.
+const firstIndexNear = (rule: RecurringRule, anchor: Date, from: string): number => {
+  const start = parseISO(from);
+  const months = differenceInCalendarMonths(start, anchor);
+  let n: number;
+  switch (ruleFrequency(rule)) {
+    case 'weekly':
+    case 'biweekly':
+    case 'every-n-days':
+      n = Math.floor(differenceInCalendarDays(start, anchor) / stepDays(rule));
+      break;
+    case 'semi-monthly': n = months * 2; break;
+    case 'quarterly': n = Math.floor(months / 3); break;
+    case 'yearly': n = Math.floor(months / 12); break;
+    default: n = months;
+  }
+  return Math.max(0, n);
+};
+
+/**
+ * All occurrence dates (YYYY-MM-DD) of a rule between `from` and `to`
+ * inclusive, honouring the series end date and occurrence count.
+ */
+export const occurrencesBetween = (rule: RecurringRule, from: string, to: string): string[] => {
+  const anchorISO = ruleAnchorDate(rule);
+  const anchor = parseISO(anchorISO);
+  const out: string[] = [];
+
+  // Jump straight to the window instead of walking from the anchor. Every candidate before it
+  // counts toward `occurrenceCount`, except those in the first period that fall before the
+  // anchor (e.g. semi-monthly first day before a mid-month anchor).
+  let n = firstIndexNear(rule, anchor, from);
+  let counted = n;
+  for (let k = 0; k < Math.min(n, 2); k++) {
+    if (toISO(nthDate(rule, anchor, k)) < anchorISO) counted--;
+  }
+
+  for (let i = 0; i < MAX_ITERATIONS; i++, n++) {
+    const date = toISO(nthDate(rule, anchor, n));
+    if (date < anchorISO) continue; // e.g. semi-monthly first day before a mid-month anchor
+    if (rule.endDate && date > rule.endDate) break;
+    if (rule.occurrenceCount && counted >= rule.occurrenceCount) break;
+    if (date > to) break;
+    counted++;
+    if (date >= from) out.push(date);
+  }
+  return out;
+};
+
+export const occurrencesInMonth = (rule: RecurringRule, yyyyMM: string): string[] => {
+  const last = getDaysInMonth(parseISO(`${yyyyMM}-01`));
+  return occurrencesBetween(rule, `${yyyyMM}-01`, `${yyyyMM}-${String(last).padStart(2, '0')}`);
+};
+
+const ordinal = (n: number) => {
+  const s = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return n + (s[(v - 20) % 10] || s[v] || s[0]);
+};
+
+// Human summary for lists, e.g. "Every 2 weeks from 2025-01-03 · 10 times".
+export const describeSchedule = (rule: RecurringRule): string => {
+  const anchor = ruleAnchorDate(rule);
+  let base: string;
+  switch (ruleFrequency(rule)) {
+    case 'weekly': base = `Weekly from ${anchor}`; break;
+    case 'biweekly': base = `Every 2 weeks from ${anchor}`; break;
+    case 'every-n-days': base = `Every ${Math.max(1, rule.intervalDays || 1)} days from ${anchor}`; break;
+    case 'semi-monthly': base = `${ordinal(rule.dayOfMonth || 1)} & ${ordinal(rule.secondDayOfMonth || 15)} monthly from ${anchor.slice(0, 7)}`; break;
+    case 'quarterly': base = `Quarterly on the ${ordinal(anchorDay(rule))} from ${anchor.slice(0, 7)}`; break;
+    case 'yearly': base = `Yearly on ${format(parseISO(anchor), 'MMM')} ${anchorDay(rule)} from ${anchor.slice(0, 4)}`; break;
+    default: base = `Day ${anchorDay(rule)} monthly from ${anchor.slice(0, 7)}`;
+  }
+  if (rule.endDate) base += ` · until ${rule.endDate}`;
+  if (rule.occurrenceCount) base += ` · ${rule.occurrenceCount} times`;
+  return base;
+};
+
+export interface Occurrence {
+  occurrence: string; // scheduled date; identifies the occurrence even after it's moved
+  date: string; // effective date after any override
+  amount: number;
+  overridden: boolean;
+}
+
+// Occurrences moved further than this from their scheduled date aren't picked up in other windows.
+const MOVE_WINDOW_DAYS = 62;
+
+export const exceptionFor = (rule: RecurringRule, occurrence: string) =>
+  (rule.exceptions || []).find(e => e.date === occurrence);
+
+/**
+ * Occurrences whose effective date falls in [from, to], after applying the
+ * rule's per-occurrence exceptions (skips, moved dates, changed amounts).
+ */
+export const effectiveOccurrences = (rule: RecurringRule, from: string, to: string): Occurrence[] => {
+  const scanFrom = toISO(addDays(parseISO(from), -MOVE_WINDOW_DAYS));
+  const scanTo = toISO(addDays(parseISO(to), MOVE_WINDOW_DAYS));
+  const out: Occurrence[] = [];
+
+  for (const occurrence of occurrencesBetween(rule, scanFrom, scanTo)) {
+    const ex = exceptionFor(rule, occurrence);
+    if (ex?.skip) continue;
+    const date = ex?.moveTo || occurrence;
+    if (date < from || date > to) continue;
+    out.push({
+      occurrence,
+      date,
+      amount: ex?.amount ?? rule.amount,
+      overridden: Boolean(ex && (ex.moveTo || ex.amount != null)),
+    });
+  }
+  return out.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const effectiveOccurrencesInMonth = (rule: RecurringRule, yyyyMM: string): Occurrence[] => {
+  const last = getDaysInMonth(parseISO(`${yyyyMM}-01`));
+  return effectiveOccurrences(rule, `${yyyyMM}-01`, `${yyyyMM}-${String(last).padStart(2, '0')}`);
+};
+
+// Day before an occurrence; used as the end date when a series is ended "from here".
+export const dayBefore = (date: string): string => toISO(addDays(parseISO(date), -1));
+
+export interface PendingOccurrence extends Occurrence {
+  rule: RecurringRule;
+}
+
+/**
+ * Projected occurrences in [from, to] that no transaction fulfils yet, across
+ * all enabled rules. Nothing is created until the user confirms or matches one.
+ */
+export const pendingOccurrences = (rules: RecurringRule[], txs: Transaction[], from: string, to: string): PendingOccurrence[] => {
+  const out: PendingOccurrence[] = [];
+  const lastMonth = to.slice(0, 7);
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const linked = txs.filter(t => t.recurringId === rule.id);
+
+    for (let m = parseISO(`${from.slice(0, 7)}-01`); format(m, 'yyyy-MM') <= lastMonth; m = addMonths(m, 1)) {
+      const yyyyMM = format(m, 'yyyy-MM');
+      const occurrences = effectiveOccurrencesInMonth(rule, yyyyMM);
+      // Entries from before occurrences were tagged: match on date, then any the user re-dated within the month.
+      const untagged = linked.filter(t => !t.recurrenceDate && t.date.startsWith(yyyyMM)).map(t => t.date);
+      let moved = untagged.filter(d => !occurrences.some(o => o.date === d)).length;
+
+      for (const o of occurrences) {
+        if (linked.some(t => t.recurrenceDate === o.occurrence)) continue;
+        if (untagged.includes(o.date)) continue;
+        if (moved > 0) {
+          moved--;
+          continue;
+        }
+        if (o.date < from || o.date > to) continue;
+        out.push({ ...o, rule });
+      }
+    }
+  }
+  return out.sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,86 @@
+import type { CategoryRule, Transaction } from '../context/BudgetContext';
+
+// The fields a rule can look at or change; satisfied by both stored and imported transactions.
+export type RuleSubject = Pick<Transaction, 'description' | 'amount' | 'category' | 'type'>
+  & Partial<Pick<Transaction, 'simplefinAccountId' | 'debtAccountId' | 'assetAccountId' | 'tags'>>;
+
+/**
+ * Starter rules, equivalent to the merchant list that used to be hardcoded in
+ * the SimpleFIN sync. Users can edit, reorder or delete them.
+ */
+export const DEFAULT_CATEGORY_RULES: CategoryRule[] = [
+  { id: 'default-interest-fees', enabled: true, pattern: 'interest|\\bfees?\\b', isRegex: true, category: 'Interest / Fees' },
+  { id: 'default-rent', enabled: true, pattern: 'rent|greystar|bilt rent', isRegex: true, category: 'Rent & Utilities' },
+  {
+    id: 'default-food', enabled: true, isRegex: true, category: 'Food/Beverages/Groceries',
+    pattern: 'doordash|uber eats|restaurant|chick-fil-a|taco|coffee|starbucks|cava|panera|wendy|mcdonald|instacart|wegmans',
+  },
+  { id: 'default-gas', enabled: true, pattern: 'exxon|gas|shell', isRegex: true, category: 'Transportation/Gas' },
+  {
+    id: 'default-subscriptions', enabled: true, isRegex: true, category: 'Personal Subscription',
+    pattern: 'spotify|visible|verizon|prime|namesilo|lookify|artlist',
+  },
+  { id: 'default-openai', enabled: true, pattern: 'openai', isRegex: false, category: 'Business Subscription' },
+  { id: 'default-shopping', enabled: true, pattern: 'amazon|target', isRegex: true, category: 'Personal Purchase' },
+];
+
+// Returns an error message for an unusable pattern, or null when it's fine.
+export const validateRulePattern = (pattern: string, isRegex: boolean): string | null => {
+  if (!pattern.trim()) return null;
+  if (!isRegex) return null;
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+};
+
+export const ruleMatches = (rule: CategoryRule, t: RuleSubject): boolean => {
+  if (!rule.enabled) return false;
+
+  const pattern = rule.pattern.trim();
+  if (pattern) {
+    const desc = t.description || '';
+    if (rule.isRegex) {
+      if (validateRulePattern(pattern, true)) return false;
+      if (!new RegExp(pattern, 'i').test(desc)) return false;
+    } else if (!desc.toLowerCase().includes(pattern.toLowerCase())) {
+      return false;
+    }
+  }
+
+  const amount = Math.abs(Number(t.amount) || 0);
+  if (rule.minAmount != null && amount < rule.minAmount) return false;
+  if (rule.maxAmount != null && amount > rule.maxAmount) return false;
+  if (rule.simplefinAccountId && rule.simplefinAccountId !== t.simplefinAccountId) return false;
+
+  // A rule with no conditions at all would match everything; treat it as inert.
+  return Boolean(pattern || rule.minAmount != null || rule.maxAmount != null || rule.simplefinAccountId);
+};
+
+export const isUncategorized = (category?: string) => !category || category === 'Uncategorized';
+
+// First enabled rule (in list order) that matches, if any.
+export const findMatchingRule = (rules: CategoryRule[], t: RuleSubject): CategoryRule | undefined =>
+  rules.find(r => ruleMatches(r, t));
+
+/**
+ * Applies the first matching rule. Only the fields the rule sets are changed;
+ * tags are merged with any the transaction already has. With `keepCategory`
+ * (imports), a category the row already states is left alone.
+ */
+export const applyCategoryRules = <T extends RuleSubject>(t: T, rules: CategoryRule[], options: { keepCategory?: boolean } = {}): T => {
+  const rule = findMatchingRule(rules, t);
+  if (!rule) return t;
+
+  const next: T = { ...t };
+  if (rule.category && !(options.keepCategory && !isUncategorized(t.category))) next.category = rule.category;
+  if (rule.type) next.type = rule.type;
+  if (rule.debtAccountId) next.debtAccountId = rule.debtAccountId;
+  if (rule.assetAccountId) next.assetAccountId = rule.assetAccountId;
+  if (rule.tags && rule.tags.length > 0) {
+    next.tags = Array.from(new Set([...(t.tags || []), ...rule.tags]));
+  }
+  return next;
+};
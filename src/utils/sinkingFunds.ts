@@ -0,0 +1,72 @@
+import { addYears, differenceInCalendarMonths, format, parseISO } from 'date-fns';
+import type { Transaction } from '../context/BudgetContext';
+import { isSpend, splitLines, transferLegs } from './transactions';
+
+// Money set aside by hand for a fund that isn't backed by an asset account.
+export interface SinkingFundContribution {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+/**
+ * Saving up for an irregular expense (registration, insurance, holidays).
+ * Contributions are manual set-asides plus deposits into the linked asset
+ * account; spending in the linked category draws the fund down.
+ */
+export interface SinkingFund {
+  id: string;
+  name: string;
+  targetAmount: number;
+  dueDate: string; // YYYY-MM-DD
+  startDate: string; // YYYY-MM-DD; earlier transactions don't count
+  category?: string;
+  assetAccountId?: string;
+  contributions: SinkingFundContribution[];
+}
+
+export interface SinkingFundStatus {
+  contributed: number;
+  drawn: number;
+  balance: number;
+  remaining: number; // still needed to reach the target
+  monthsLeft: number;
+  monthlySetAside: number;
+  overdue: boolean;
+}
+
+export const sinkingFundStatus = (fund: SinkingFund, txs: Transaction[], today: string): SinkingFundStatus => {
+  const inRange = txs.filter(t => t.date >= fund.startDate);
+  let contributed = fund.contributions.reduce((sum, c) => sum + c.amount, 0);
+  let drawn = 0;
+
+  for (const t of inRange) {
+    const legs = transferLegs(t);
+    if (fund.assetAccountId && legs?.to.kind === 'asset' && legs.to.id === fund.assetAccountId) contributed += t.amount;
+    // Without a category, money leaving the account is the draw-down.
+    if (fund.assetAccountId && !fund.category && legs?.from.kind === 'asset' && legs.from.id === fund.assetAccountId) drawn += t.amount;
+    if (fund.category && isSpend(t)) {
+      drawn += splitLines(t).filter(l => l.category === fund.category).reduce((sum, l) => sum + l.amount, 0);
+    }
+  }
+
+  const balance = contributed - drawn;
+  const remaining = Math.max(0, fund.targetAmount - balance);
+  // Set-asides happen in the months before the one the bill lands in.
+  const monthsLeft = Math.max(1, differenceInCalendarMonths(parseISO(fund.dueDate), parseISO(today)));
+  return {
+    contributed,
+    drawn,
+    balance,
+    remaining,
+    monthsLeft,
+    monthlySetAside: remaining / monthsLeft,
+    overdue: fund.dueDate < today,
+  };
+};
+
+// Rolls a fund over to next year's occurrence of the same expense.
+export const nextSinkingFundCycle = (fund: SinkingFund): SinkingFund => ({
+  ...fund,
+  dueDate: format(addYears(parseISO(fund.dueDate), 1), 'yyyy-MM-dd'),
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { alertKey, detectRecurringSeries } from './subscriptions';
+import type { Transaction } from '../context/BudgetContext';
+
+const charge = (date: string, amount: number): Transaction =>
+  ({ id: date, date, description: 'NETFLIX.COM 8445', amount, type: 'expense', category: 'Subscriptions' }) as Transaction;
+
+const monthly = (amounts: number[]) => amounts.map((amount, i) => charge(`2025-0${i + 1}-10`, amount));
+
+const detect = (txs: Transaction[], asOf: string) => detectRecurringSeries(txs, [], asOf)[0];
+
+describe('alertKey', () => {
+  it('changes with each new price rise', () => {
+    const first = detect(monthly([15.49, 15.49, 15.49, 17.99]), '2025-04-20');
+    const second = detect(monthly([15.49, 15.49, 15.49, 17.99, 17.99, 19.99]), '2025-06-20');
+    expect(first.priceIncrease).toEqual({ from: 15.49, to: 17.99 });
+    expect(alertKey(first)).not.toBe(alertKey(second));
+  });
+
+  it('changes when a series stops again after resuming', () => {
+    const first = detect(monthly([15.49, 15.49, 15.49]), '2025-05-01');
+    const second = detect(monthly([15.49, 15.49, 15.49, 15.49, 15.49]), '2025-07-01');
+    expect(first.stopped && second.stopped).toBe(true);
+    expect(alertKey(first)).not.toBe(alertKey(second));
+  });
+
+  it('is null when there is nothing to flag', () => {
+    expect(alertKey(detect(monthly([15.49, 15.49, 15.49]), '2025-03-20'))).toBeNull();
+  });
+});
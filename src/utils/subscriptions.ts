@@ -0,0 +1,164 @@
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { RecurrenceFrequency, RecurringRule, Transaction } from '../context/BudgetContext';
+import { normalizeDescription } from './classifier';
+import { descriptionSimilarity, isProjectedRecurring, MIN_DESCRIPTION_SIMILARITY } from './reconcile';
+
+// Fewer charges than this can't establish a cadence.
+const MIN_OCCURRENCES = 3;
+// Share of gaps that must sit near the typical gap for a series to count as regular.
+const MIN_REGULARITY = 0.75;
+// Amounts varying more than this (coefficient of variation) aren't a fixed bill.
+const MAX_AMOUNT_VARIANCE = 0.25;
+// A rise smaller than this is treated as noise (tax, FX rounding).
+const MIN_PRICE_INCREASE = 0.5;
+// A series is considered stopped once this many cadences pass without a charge.
+const STOPPED_AFTER_INTERVALS = 1.5;
+
+const CADENCES: Array<{ frequency: RecurrenceFrequency; days: number; tolerance: number; months?: number }> = [
+  { frequency: 'weekly', days: 7, tolerance: 1 },
+  { frequency: 'biweekly', days: 14, tolerance: 2 },
+  { frequency: 'monthly', days: 30, tolerance: 4, months: 1 },
+  { frequency: 'quarterly', days: 91, tolerance: 7, months: 3 },
+  { frequency: 'yearly', days: 365, tolerance: 10, months: 12 },
+];
+
+export interface DetectedSeries {
+  key: string;
+  description: string; // most recent bank description
+  category: string; // most common category in the series
+  type: 'expense' | 'debt-charge'; // the only types detection looks at
+  frequency: RecurrenceFrequency;
+  intervalDays: number; // typical gap between charges
+  amount: number; // latest charge
+  amountVariance: number; // coefficient of variation across charges, 0..1
+  count: number;
+  firstDate: string;
+  lastDate: string;
+  nextExpected: string;
+  priceIncrease?: { from: number; to: number };
+  stopped: boolean;
+  ruleId?: string; // existing rule that already covers this series
+}
+
+// Merchant key: the first few meaningful words, so "NETFLIX.COM 8445" and "NETFLIX COM" group together.
+export const merchantKey = (description: string): string =>
+  normalizeDescription(description)
+    .split(' ')
+    .filter(w => w.length >= 2)
+    .slice(0, 3)
+    .join(' ');
+
+const median = (xs: number[]): number => {
+  const sorted = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const mostCommon = (xs: string[]): string => {
+  const counts = new Map<string, number>();
+  for (const x of xs) counts.set(x, (counts.get(x) || 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+};
+
+const classifyCadence = (gap: number): { frequency: RecurrenceFrequency; days: number; tolerance: number; months?: number } =>
+  CADENCES.find(c => Math.abs(gap - c.days) <= c.tolerance)
+  || { frequency: 'every-n-days', days: Math.round(gap), tolerance: Math.max(2, Math.round(gap * 0.1)) };
+
+/**
+ * Finds merchants that charge on a regular cadence with a stable amount.
+ * Series already covered by a recurring rule are returned with `ruleId` so
+ * price changes and stopped charges can still be flagged for them.
+ */
+export const detectRecurringSeries = (txs: Transaction[], rules: RecurringRule[], asOf: string): DetectedSeries[] => {
+  const groups = new Map<string, Transaction[]>();
+  for (const t of txs) {
+    if (t.type !== 'expense' && t.type !== 'debt-charge') continue;
+    if (t.splits && t.splits.length > 0) continue;
+    if (isProjectedRecurring(t)) continue; // regular by construction; says nothing about the bank
+    const key = merchantKey(t.description);
+    if (!key) continue;
+    const list = groups.get(key) || [];
+    list.push(t);
+    groups.set(key, list);
+  }
+
+  const out: DetectedSeries[] = [];
+  for (const [key, list] of groups) {
+    // Several charges on one day (e.g. family plans) count as one billing event.
+    const byDate = new Map<string, Transaction>();
+    for (const t of list) byDate.set(t.date, t);
+    const series = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+    if (series.length < MIN_OCCURRENCES) continue;
+
+    const gaps = series.slice(1).map((t, i) => differenceInCalendarDays(parseISO(t.date), parseISO(series[i].date)));
+    const typicalGap = median(gaps);
+    if (typicalGap < 5) continue;
+    const cadence = classifyCadence(typicalGap);
+    const regular = gaps.filter(g => Math.abs(g - typicalGap) <= cadence.tolerance).length / gaps.length;
+    if (regular < MIN_REGULARITY) continue;
+
+    const amounts = series.map(t => Math.abs(Number(t.amount) || 0));
+    const mean = amounts.reduce((s, a) => s + a, 0) / amounts.length;
+    const sd = Math.sqrt(amounts.reduce((s, a) => s + (a - mean) ** 2, 0) / amounts.length);
+    const amountVariance = mean > 0 ? sd / mean : 1;
+    if (amountVariance > MAX_AMOUNT_VARIANCE) continue;
+
+    const last = series[series.length - 1];
+    const latest = amounts[amounts.length - 1];
+    const previous = median(amounts.slice(0, -1));
+    // Calendar cadences keep the billing day; fixed intervals just add days.
+    const nextExpected = format(cadence.months
+      ? addMonths(parseISO(last.date), cadence.months)
+      : addDays(parseISO(last.date), cadence.days), 'yyyy-MM-dd');
+    const overdueDays = differenceInCalendarDays(parseISO(asOf), parseISO(last.date));
+
+    const linkedRuleId = mostCommon(series.map(t => t.recurringId || ''));
+    const rule = rules.find(r => r.id === linkedRuleId)
+      || rules.find(r => descriptionSimilarity(last.description, r.description) >= MIN_DESCRIPTION_SIMILARITY);
+
+    out.push({
+      key,
+      description: last.description,
+      category: mostCommon(series.map(t => t.category)),
+      type: last.type as DetectedSeries['type'],
+      frequency: cadence.frequency,
+      intervalDays: cadence.days,
+      amount: latest,
+      amountVariance,
+      count: series.length,
+      firstDate: series[0].date,
+      lastDate: last.date,
+      nextExpected,
+      priceIncrease: latest - previous >= MIN_PRICE_INCREASE ? { from: previous, to: latest } : undefined,
+      stopped: overdueDays > cadence.days * STOPPED_AFTER_INTERVALS,
+      ruleId: rule?.id,
+    });
+  }
+
+  return out.sort((a, b) => b.lastDate.localeCompare(a.lastDate));
+};
+
+/**
+ * Dismissal key for a series' alert: the merchant plus what was flagged, so
+ * dismissing one price rise or stop doesn't hide the next one.
+ */
+export const alertKey = (s: DetectedSeries): string | null => {
+  if (s.stopped) return `${s.key}|stopped|${s.lastDate}`;
+  if (s.priceIncrease) return `${s.key}|price|${s.priceIncrease.to.toFixed(2)}`;
+  return null;
+};
+
+// A recurring rule proposal for a detected series, anchored on its next expected charge.
+export const ruleFromSeries = (s: DetectedSeries): Omit<RecurringRule, 'id'> => ({
+  enabled: true,
+  description: s.description,
+  amount: s.amount,
+  type: s.type,
+  category: s.category || 'Uncategorized',
+  frequency: s.frequency,
+  anchorDate: s.nextExpected,
+  startMonth: s.nextExpected.slice(0, 7),
+  // Monthly-style schedules keep the observed billing day so a 31st isn't clamped to the 28th for good.
+  dayOfMonth: Number((s.frequency === 'weekly' || s.frequency === 'biweekly' || s.frequency === 'every-n-days' ? s.nextExpected : s.lastDate).slice(8, 10)),
+  intervalDays: s.frequency === 'every-n-days' ? s.intervalDays : undefined,
+});
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyToList,
+  EMPTY_SYNC_BASE,
+  localChanges,
+  mergeRemote,
+  recordHash,
+  recordPushed,
+  recordRewritten,
+  resolveConflictBase,
+  toRecordSet,
+} from './sync';
+import type { RecordSet, RemoteRecord, SettingsKey, SyncBase } from './sync';
+
+const tx = (id: string, amount: number) => ({ id, amount });
+
+const baseWith = (entries: Record<string, unknown>, version = 1): SyncBase => ({
+  revision: 1,
+  records: {
+    transactions: Object.fromEntries(Object.entries(entries).map(([id, r]) => [id, { version, hash: recordHash(r) }])),
+  },
+});
+
+describe('recordHash', () => {
+  it('ignores field order and undefined fields', () => {
+    expect(recordHash({ a: 1, b: 2 })).toBe(recordHash({ b: 2, a: 1, c: undefined }));
+  });
+
+  it('uses an empty hash for a missing record', () => {
+    expect(recordHash(undefined)).toBe('');
+    expect(recordHash(null)).not.toBe('');
+  });
+});
+
+describe('toRecordSet', () => {
+  const defaults = {
+    categoryBudgets: {}, budgetHistory: {}, envelopes: {}, plans: {}, categoryRules: [], dismissedSeries: [],
+  } as Record<SettingsKey, unknown>;
+
+  it('keys list records by id and leaves default settings out', () => {
+    const set = toRecordSet({ transactions: [tx('a', 1)], categoryBudgets: {}, dismissedSeries: ['x'] }, defaults);
+    expect(set.transactions).toEqual({ a: tx('a', 1) });
+    expect(set.settings).toEqual({ dismissedSeries: ['x'] });
+  });
+});
+
+describe('mergeRemote', () => {
+  it('applies remote changes to records untouched here', () => {
+    const local: RecordSet = { transactions: { a: tx('a', 1) } };
+    const remote: RemoteRecord[] = [{ collection: 'transactions', id: 'a', version: 2, record: tx('a', 5) }];
+    const result = mergeRemote(local, baseWith({ a: tx('a', 1) }), remote, 7);
+
+    expect(result.apply).toEqual(remote);
+    expect(result.conflicts).toEqual([]);
+    expect(result.records.transactions.a).toEqual(tx('a', 5));
+    expect(result.base.revision).toBe(7);
+    expect(result.base.records.transactions.a).toEqual({ version: 2, hash: recordHash(tx('a', 5)) });
+  });
+
+  it('reports a conflict when both sides changed the record', () => {
+    const local: RecordSet = { transactions: { a: tx('a', 2) } };
+    const remote: RemoteRecord[] = [{ collection: 'transactions', id: 'a', version: 2, record: tx('a', 5) }];
+    const result = mergeRemote(local, baseWith({ a: tx('a', 1) }), remote, 7);
+
+    expect(result.apply).toEqual([]);
+    expect(result.conflicts).toEqual([
+      { collection: 'transactions', id: 'a', local: tx('a', 2), remote: tx('a', 5), remoteVersion: 2, remoteUpdatedAt: undefined },
+    ]);
+    expect(result.records.transactions.a).toEqual(tx('a', 2));
+  });
+
+  it('adopts remote changes both sides already agree on', () => {
+    const local: RecordSet = { transactions: { a: tx('a', 5) } };
+    const remote: RemoteRecord[] = [{ collection: 'transactions', id: 'a', version: 2, record: tx('a', 5) }];
+    const result = mergeRemote(local, baseWith({ a: tx('a', 1) }), remote, 7);
+
+    expect(result.apply).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+    expect(result.base.records.transactions.a.version).toBe(2);
+  });
+
+  it('skips versions this device already has', () => {
+    const local: RecordSet = { transactions: { a: tx('a', 2) } };
+    const remote: RemoteRecord[] = [{ collection: 'transactions', id: 'a', version: 1, record: tx('a', 5) }];
+    const result = mergeRemote(local, baseWith({ a: tx('a', 2) }), remote, 7);
+
+    expect(result.apply).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('removes records deleted on another device', () => {
+    const local: RecordSet = { transactions: { a: tx('a', 1) } };
+    const remote: RemoteRecord[] = [{ collection: 'transactions', id: 'a', version: 2, deleted: true }];
+    const result = mergeRemote(local, baseWith({ a: tx('a', 1) }), remote, 7);
+
+    expect(result.records.transactions).toEqual({});
+    expect(result.base.records.transactions).toEqual({});
+  });
+});
+
+describe('localChanges', () => {
+  it('lists added, edited and deleted records against the base', () => {
+    const base = baseWith({ a: tx('a', 1), b: tx('b', 1), c: tx('c', 1) });
+    const current: RecordSet = { transactions: { a: tx('a', 1), b: tx('b', 2), d: tx('d', 1) } };
+
+    expect(localChanges(current, base, new Set())).toEqual([
+      { collection: 'transactions', id: 'b', baseVersion: 1, record: tx('b', 2) },
+      { collection: 'transactions', id: 'd', baseVersion: 0, record: tx('d', 1) },
+      { collection: 'transactions', id: 'c', baseVersion: 1, deleted: true },
+    ]);
+  });
+
+  it('holds back records awaiting conflict resolution', () => {
+    const current: RecordSet = { transactions: { a: tx('a', 1) } };
+    expect(localChanges(current, EMPTY_SYNC_BASE, new Set(['transactions:a']))).toEqual([]);
+  });
+});
+
+describe('recordPushed', () => {
+  it('moves the base to the versions the server accepted', () => {
+    const changes = [
+      { collection: 'transactions', id: 'a', baseVersion: 1, record: tx('a', 2) },
+      { collection: 'transactions', id: 'b', baseVersion: 1, deleted: true },
+      { collection: 'transactions', id: 'c', baseVersion: 0, record: tx('c', 1) },
+    ];
+    const base = recordPushed(baseWith({ a: tx('a', 1), b: tx('b', 1) }), changes, [
+      { collection: 'transactions', id: 'a', version: 2 },
+      { collection: 'transactions', id: 'b', version: 2 },
+    ]);
+
+    expect(base.records.transactions).toEqual({ a: { version: 2, hash: recordHash(tx('a', 2)) } });
+  });
+});
+
+describe('recordRewritten', () => {
+  it('bumps versions only for records known at the rewritten version', () => {
+    const base = baseWith({ a: tx('a', 1), b: tx('b', 1) });
+    const changes = [
+      { collection: 'transactions', id: 'a', baseVersion: 1, record: { id: 'a', enc: 'x' } },
+      { collection: 'transactions', id: 'b', baseVersion: 3, record: { id: 'b', enc: 'y' } },
+    ];
+    const next = recordRewritten(base, changes, [
+      { collection: 'transactions', id: 'a', version: 2 },
+      { collection: 'transactions', id: 'b', version: 4 },
+    ]);
+
+    expect(next.records.transactions.a).toEqual({ version: 2, hash: recordHash(tx('a', 1)) });
+    expect(next.records.transactions.b).toEqual(base.records.transactions.b);
+  });
+});
+
+describe('resolveConflictBase', () => {
+  const conflict = { collection: 'transactions', id: 'a', local: tx('a', 2), remote: tx('a', 5), remoteVersion: 3 };
+
+  it("keeping mine rebases onto the server's version so the next push overwrites it", () => {
+    const base = resolveConflictBase(baseWith({ a: tx('a', 1) }), conflict, 'mine');
+    expect(localChanges({ transactions: { a: tx('a', 2) } }, base, new Set())).toEqual([
+      { collection: 'transactions', id: 'a', baseVersion: 3, record: tx('a', 2) },
+    ]);
+  });
+
+  it('keeping theirs marks the remote copy as synced', () => {
+    const base = resolveConflictBase(baseWith({ a: tx('a', 1) }), conflict, 'theirs');
+    expect(localChanges({ transactions: { a: tx('a', 5) } }, base, new Set())).toEqual([]);
+  });
+});
+
+describe('applyToList', () => {
+  it('upserts and deletes in place, appending new records', () => {
+    const list = [tx('a', 1), tx('b', 1), tx('c', 1)];
+    const next = applyToList(list, [
+      { collection: 'transactions', id: 'b', version: 2, record: tx('b', 9) },
+      { collection: 'transactions', id: 'a', version: 2, deleted: true },
+      { collection: 'transactions', id: 'd', version: 1, record: tx('d', 1) },
+    ]);
+    expect(next).toEqual([tx('b', 9), tx('c', 1), tx('d', 1)]);
+  });
+});
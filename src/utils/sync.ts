@@ -0,0 +1,240 @@
+/**
+ * Record-level cloud sync. Each synced record is compared with the copy the
+ * server last confirmed (the "base"), so a device only pushes the records it
+ * edited, and a record edited on two devices becomes a conflict for the user
+ * to resolve instead of one copy silently overwriting the other.
+ */
+
+// Lists synced record-by-record, keyed by `id`.
+export const RECORD_COLLECTIONS = ['transactions', 'debts', 'assets', 'cashAccounts', 'recurring', 'sinkingFunds', 'netWorthSnapshots'] as const;
+// Settings synced whole, one record each. Rule order matters, so the rule list travels as one record.
+export const SETTINGS_KEYS = ['categoryBudgets', 'budgetHistory', 'envelopes', 'plans', 'categoryRules', 'dismissedSeries'] as const;
+
+export type SettingsKey = typeof SETTINGS_KEYS[number];
+
+// collection ('settings' or a RECORD_COLLECTIONS entry) → id → record
+export type RecordSet = Record<string, Record<string, unknown>>;
+
+export interface SyncBase {
+  revision: number; // server revision this device last pulled
+  records: Record<string, Record<string, { version: number; hash: string }>>;
+}
+
+export const EMPTY_SYNC_BASE: SyncBase = { revision: 0, records: {} };
+
+// A local edit sent to the server; accepted only if the server is still at `baseVersion`.
+export interface RecordChange {
+  collection: string;
+  id: string;
+  baseVersion: number; // 0 for records the server has never seen
+  record?: unknown;
+  deleted?: boolean;
+}
+
+// A record as the server has it. Deleted records come back as tombstones.
+export interface RemoteRecord {
+  collection: string;
+  id: string;
+  version: number;
+  updatedAt?: string;
+  record?: unknown;
+  deleted?: boolean;
+}
+
+export interface SyncConflict {
+  collection: string;
+  id: string;
+  local?: unknown; // undefined when deleted on this device
+  remote?: unknown; // undefined when deleted on another device
+  remoteVersion: number;
+  remoteUpdatedAt?: string;
+}
+
+export const conflictKey = (c: { collection: string; id: string }) => `${c.collection}:${c.id}`;
+
+// JSON with sorted keys, so equal records hash equally whatever order their fields were set in.
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(v => (v === undefined ? 'null' : stableStringify(v))).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    return `{${Object.keys(obj)
+      .filter(k => obj[k] !== undefined)
+      .sort()
+      .map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Short FNV-1a digest of a record; '' stands for "no record".
+export const recordHash = (value: unknown): string => {
+  if (value === undefined) return '';
+  const text = stableStringify(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Local data keyed for sync. Settings still at their default value are left
+ * out, so a fresh device doesn't conflict with the cloud over empty budgets.
+ */
+export const toRecordSet = (data: Record<string, unknown>, defaults: Record<SettingsKey, unknown>): RecordSet => {
+  const set: RecordSet = { settings: {} };
+  for (const collection of RECORD_COLLECTIONS) {
+    const list = (data[collection] || []) as Array<{ id: string }>;
+    set[collection] = Object.fromEntries(list.map(r => [r.id, r]));
+  }
+  for (const key of SETTINGS_KEYS) {
+    if (data[key] !== undefined && recordHash(data[key]) !== recordHash(defaults[key])) set.settings[key] = data[key];
+  }
+  return set;
+};
+
+const setBaseEntry = (base: SyncBase, collection: string, id: string, version: number, record: unknown) => {
+  const entries = (base.records[collection] = { ...base.records[collection] });
+  if (record === undefined) delete entries[id];
+  else entries[id] = { version, hash: recordHash(record) };
+};
+
+export const conflictFrom = (remote: RemoteRecord, local: RecordSet): SyncConflict => ({
+  collection: remote.collection,
+  id: remote.id,
+  local: local[remote.collection]?.[remote.id],
+  remote: remote.deleted ? undefined : remote.record,
+  remoteVersion: remote.version,
+  remoteUpdatedAt: remote.updatedAt,
+});
+
+export interface MergeResult {
+  records: RecordSet; // local data with the remote changes applied
+  base: SyncBase;
+  apply: RemoteRecord[]; // remote changes to write into local state
+  conflicts: SyncConflict[];
+}
+
+/**
+ * Folds records pulled from the server into local data. Remote changes win for
+ * records untouched here; records changed on both sides become conflicts.
+ */
+export const mergeRemote = (current: RecordSet, base: SyncBase, remote: RemoteRecord[], revision: number): MergeResult => {
+  const records: RecordSet = Object.fromEntries(Object.entries(current).map(([c, r]) => [c, { ...r }]));
+  const next: SyncBase = { revision, records: { ...base.records } };
+  const apply: RemoteRecord[] = [];
+  const conflicts: SyncConflict[] = [];
+
+  for (const r of remote) {
+    const known = next.records[r.collection]?.[r.id];
+    // Already seen (usually this device's own push coming back).
+    if (known && r.version <= known.version) continue;
+
+    const local = records[r.collection]?.[r.id];
+    const localHash = recordHash(local);
+    const remoteRecord = r.deleted ? undefined : r.record;
+    if (localHash === recordHash(remoteRecord)) {
+      setBaseEntry(next, r.collection, r.id, r.version, remoteRecord);
+      continue;
+    }
+    if (localHash !== (known?.hash ?? '')) {
+      conflicts.push(conflictFrom(r, current));
+      continue;
+    }
+
+    apply.push(r);
+    setBaseEntry(next, r.collection, r.id, r.version, remoteRecord);
+    const target = (records[r.collection] = records[r.collection] || {});
+    if (remoteRecord === undefined) delete target[r.id];
+    else target[r.id] = remoteRecord;
+  }
+
+  return { records, base: next, apply, conflicts };
+};
+
+/** Records added, edited or deleted here since the base, except those awaiting conflict resolution. */
+export const localChanges = (current: RecordSet, base: SyncBase, skip: Set<string>): RecordChange[] => {
+  const changes: RecordChange[] = [];
+  const collections = new Set([...Object.keys(current), ...Object.keys(base.records)]);
+  for (const collection of collections) {
+    const records = current[collection] || {};
+    const known = base.records[collection] || {};
+    for (const [id, record] of Object.entries(records)) {
+      if (skip.has(conflictKey({ collection, id }))) continue;
+      const entry = known[id];
+      if (!entry || entry.hash !== recordHash(record)) changes.push({ collection, id, baseVersion: entry?.version || 0, record });
+    }
+    for (const [id, entry] of Object.entries(known)) {
+      if (id in records || skip.has(conflictKey({ collection, id }))) continue;
+      changes.push({ collection, id, baseVersion: entry.version, deleted: true });
+    }
+  }
+  return changes;
+};
+
+// Moves the base forward for every change the server accepted.
+export const recordPushed = (base: SyncBase, changes: RecordChange[], applied: Array<{ collection: string; id: string; version: number }>): SyncBase => {
+  const next: SyncBase = { ...base, records: { ...base.records } };
+  const sent = new Map(changes.map(c => [conflictKey(c), c]));
+  for (const a of applied) {
+    const change = sent.get(conflictKey(a));
+    if (change) setBaseEntry(next, a.collection, a.id, a.version, change.deleted ? undefined : change.record);
+  }
+  return next;
+};
+
+/**
+ * Moves the base to the versions the server gave records it re-wrote without
+ * changing their content, e.g. when encrypting them. Entries this device
+ * doesn't know at the re-written version are left for the next pull.
+ */
+export const recordRewritten = (base: SyncBase, changes: RecordChange[], applied: Array<{ collection: string; id: string; version: number }>): SyncBase => {
+  const next: SyncBase = { ...base, records: { ...base.records } };
+  const sent = new Map(changes.map(c => [conflictKey(c), c]));
+  for (const a of applied) {
+    const entry = next.records[a.collection]?.[a.id];
+    if (!entry || entry.version !== sent.get(conflictKey(a))?.baseVersion) continue;
+    next.records[a.collection] = { ...next.records[a.collection], [a.id]: { ...entry, version: a.version } };
+  }
+  return next;
+};
+
+/**
+ * Settles a conflict in the base. Keeping the local copy rebases it onto the
+ * server's version so the next push overwrites it; keeping the remote copy
+ * marks it as already synced (the caller writes it into local state).
+ */
+export const resolveConflictBase = (base: SyncBase, conflict: SyncConflict, keep: 'mine' | 'theirs'): SyncBase => {
+  const next: SyncBase = { ...base, records: { ...base.records } };
+  if (keep === 'theirs') {
+    setBaseEntry(next, conflict.collection, conflict.id, conflict.remoteVersion, conflict.remote);
+  } else {
+    const entries = (next.records[conflict.collection] = { ...next.records[conflict.collection] });
+    entries[conflict.id] = { version: conflict.remoteVersion, hash: recordHash(conflict.remote) };
+  }
+  return next;
+};
+
+// Newer conflicts for the same record replace older ones.
+export const mergeConflicts = (existing: SyncConflict[], incoming: SyncConflict[]): SyncConflict[] => {
+  const keys = new Set(incoming.map(conflictKey));
+  return [...existing.filter(c => !keys.has(conflictKey(c))), ...incoming];
+};
+
+/** Upserts and deletes remote records in a list, keeping the list's order. */
+export const applyToList = <T extends { id: string }>(list: T[], remote: RemoteRecord[]): T[] => {
+  if (remote.length === 0) return list;
+  const byId = new Map(remote.map(r => [r.id, r]));
+  const next = list
+    .filter(item => !byId.get(item.id)?.deleted)
+    .map(item => {
+      const r = byId.get(item.id);
+      return r ? (r.record as T) : item;
+    });
+  const present = new Set(list.map(item => item.id));
+  for (const r of remote) {
+    if (!r.deleted && !present.has(r.id)) next.push(r.record as T);
+  }
+  return next;
+};
@@ -0,0 +1,153 @@
+import type { AccountRef, Transaction, TransactionSplit } from '../context/BudgetContext';
+
+// Cents tolerance used when checking that split lines add up to the parent amount.
+const SPLIT_EPSILON = 0.005;
+
+/**
+ * Expands a transaction into the category lines that aggregations should count.
+ * Unsplit transactions yield a single line; split lines inherit the parent's
+ * debt/asset link unless they set their own.
+ */
+export const splitLines = (t: Transaction): TransactionSplit[] => {
+  if (!t.splits || t.splits.length === 0) {
+    return [{
+      category: t.category,
+      amount: t.amount,
+      debtAccountId: t.debtAccountId,
+      assetAccountId: t.assetAccountId,
+    }];
+  }
+  return t.splits.map(s => ({
+    category: s.category || 'Uncategorized',
+    amount: s.amount,
+    debtAccountId: s.debtAccountId ?? t.debtAccountId,
+    assetAccountId: s.assetAccountId ?? t.assetAccountId,
+  }));
+};
+
+// Amount left to allocate across split lines (positive = under-allocated).
+export const splitRemainder = (amount: number, splits: Array<{ amount: number }>): number =>
+  amount - splits.reduce((sum, s) => sum + (Number(s.amount) || 0), 0);
+
+export const isSplitBalanced = (amount: number, splits: Array<{ amount: number }>): boolean =>
+  Math.abs(splitRemainder(amount, splits)) < SPLIT_EPSILON;
+
+// Portion of a transaction attributed to a given debt account (0 when unrelated).
+export const amountForDebt = (t: Transaction, debtId: string): number =>
+  splitLines(t).filter(l => l.debtAccountId === debtId).reduce((sum, l) => sum + l.amount, 0);
+
+// Portion of a transaction attributed to a given asset account (0 when unrelated).
+export const amountForAsset = (t: Transaction, assetId: string): number =>
+  splitLines(t).filter(l => l.assetAccountId === assetId).reduce((sum, l) => sum + l.amount, 0);
+
+// Sums amounts per category, counting each split line under its own category.
+export const sumByCategory = (txs: Transaction[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  for (const t of txs) {
+    for (const line of splitLines(t)) {
+      totals[line.category] = (totals[line.category] || 0) + line.amount;
+    }
+  }
+  return totals;
+};
+
+export type ExportRow = Omit<Transaction, 'splits'> & { splitOf: string; splitIndex: number | '' };
+
+/**
+ * Flattens transactions into CSV-friendly rows: one row per split line, with the
+ * parent id and line index so the export can be re-assembled.
+ */
+export const toExportRows = (txs: Transaction[]): ExportRow[] => txs.flatMap((t): ExportRow[] => {
+  const { splits, ...rest } = t;
+  if (!splits || splits.length === 0) {
+    return [{ ...rest, splitOf: '', splitIndex: '' }];
+  }
+  return splitLines(t).map((line, idx) => ({
+    ...rest,
+    category: line.category,
+    amount: line.amount,
+    debtAccountId: line.debtAccountId,
+    assetAccountId: line.assetAccountId,
+    splitOf: t.id,
+    splitIndex: idx + 1,
+  }));
+});
+
+/**
+ * Resolves the account movement a transaction represents, or null when it is
+ * plain income/spend. Legacy debt payments and asset deposits are read as
+ * transfers out of cash so they never count as spend.
+ */
+export const transferLegs = (t: Transaction): { from: AccountRef; to: AccountRef } | null => {
+  if (t.type === 'transfer') {
+    return { from: t.fromAccount ?? { kind: 'cash' }, to: t.toAccount ?? { kind: 'cash' } };
+  }
+  if (t.type === 'debt-payment' || t.type === 'debt') {
+    return { from: { kind: 'cash', id: t.cashAccountId }, to: { kind: 'debt', id: t.debtAccountId } };
+  }
+  if (t.type === 'asset-deposit') {
+    return { from: { kind: 'cash', id: t.cashAccountId }, to: { kind: 'asset', id: t.assetAccountId } };
+  }
+  return null;
+};
+
+// Budget spend: cash expenses plus what was charged or accrued on debt accounts.
+export const isSpend = (t: Transaction): boolean =>
+  t.type === 'expense' || t.type === 'debt-charge' || t.type === 'debt-interest';
+
+// Select-friendly encoding of an account ref ("cash", "debt:<id>", "asset:<id>").
+export const accountRefKey = (ref?: AccountRef): string =>
+  !ref ? '' : (ref.id ? `${ref.kind}:${ref.id}` : ref.kind);
+
+export const parseAccountRefKey = (key: string): AccountRef | undefined => {
+  if (!key) return undefined;
+  const [kind, id] = key.split(':');
+  if (kind !== 'cash' && kind !== 'debt' && kind !== 'asset') return undefined;
+  return id ? { kind, id } : { kind };
+};
+
+export const accountRefLabel = (
+  ref: AccountRef | undefined,
+  debts: Array<{ id: string; name: string }>,
+  assets: Array<{ id: string; name: string }>,
+  cashAccounts: Array<{ id: string; name: string }> = [],
+): string => {
+  if (ref?.kind === 'debt') return debts.find(d => d.id === ref.id)?.name || 'Debt';
+  if (ref?.kind === 'asset') return assets.find(a => a.id === ref.id)?.name || 'Asset';
+  return cashAccounts.find(c => c.id === ref?.id)?.name || 'Cash';
+};
+
+// Bank wording for moves between the user's own accounts. Only used when classifying imports.
+export const isTransferDescription = (desc: string): boolean => {
+  const d = (desc || '').toLowerCase();
+  return d.includes('transfer to') || d.includes('transfer from') || d.includes('trf to') || d.includes('trf fr') || d.includes('overdraft transfer');
+};
+
+/**
+ * Signed effect of a transaction on one cash account: income and incoming
+ * transfers add, expenses and outgoing transfers subtract. Card charges,
+ * interest and asset growth never touch cash.
+ */
+export const cashDelta = (t: Transaction, cashAccountId: string): number => {
+  const legs = transferLegs(t);
+  if (legs) {
+    let delta = 0;
+    if (legs.from.kind === 'cash' && legs.from.id === cashAccountId) delta -= t.amount;
+    if (legs.to.kind === 'cash' && legs.to.id === cashAccountId) delta += t.amount;
+    return delta;
+  }
+  if (t.cashAccountId !== cashAccountId) return 0;
+  if (t.type === 'income') return t.amount;
+  if (t.type === 'expense') return -t.amount;
+  return 0;
+};
+
+/**
+ * Older data marked account moves as expenses and relied on the description to
+ * exclude them from spend. Convert those rows into cash-to-cash transfers out
+ * of the account they were booked to.
+ */
+export const migrateLegacyTransfers = (txs: Transaction[]): Transaction[] =>
+  txs.map(t => (t.type === 'expense' && !t.splits?.length && isTransferDescription(t.description))
+    ? { ...t, type: 'transfer', category: 'Transfer', fromAccount: { kind: 'cash', id: t.cashAccountId }, toAccount: { kind: 'cash' } }
+    : t);
@@ -0,0 +1,35 @@
+import type { AssetAccount, AssetValuation, Transaction } from '../context/BudgetContext';
+import { assetFlow } from './balances';
+
+export interface ValuationRow extends AssetValuation {
+  change: number; // value change since the previous valuation (or the starting balance)
+  netDeposits: number; // deposits minus withdrawals over the same span
+  marketGain: number; // change not explained by money moved in or out
+}
+
+/**
+ * Valuations oldest first, each compared with the one before it. The first is
+ * measured against the starting balance and all earlier activity.
+ */
+export const valuationHistory = (asset: AssetAccount, txs: Transaction[]): ValuationRow[] => {
+  const sorted = [...(asset.valuations || [])].sort((a, b) => a.date.localeCompare(b.date));
+  let prevValue = asset.startingBalance;
+  let prevDate = '';
+
+  return sorted.map(v => {
+    const netDeposits = txs
+      .filter(t => t.date > prevDate && t.date <= v.date)
+      .reduce((sum, t) => {
+        const flow = assetFlow(t, asset.id);
+        return sum + flow.deposit - flow.withdrawal;
+      }, 0);
+    const change = v.value - prevValue;
+    prevValue = v.value;
+    prevDate = v.date;
+    return { ...v, change, netDeposits, marketGain: change - netDeposits };
+  });
+};
+
+// Total market gain across every valuation of an asset.
+export const totalMarketGain = (asset: AssetAccount, txs: Transaction[]): number =>
+  valuationHistory(asset, txs).reduce((sum, row) => sum + row.marketGain, 0);
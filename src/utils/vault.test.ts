@@ -0,0 +1,94 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createVault, openRecord, openVault, sealChange, VaultIntegrityError } from './vault';
+import type { VaultParams } from './vault';
+import type { RemoteRecord } from './sync';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+let params: VaultParams;
+let key: CryptoKey;
+
+beforeAll(async () => {
+  ({ params, key } = await createVault(PASSPHRASE));
+});
+
+// A sealed transaction as the server would hand it back.
+const sealedTransaction = async (id: string, record: unknown): Promise<RemoteRecord> => {
+  const change = await sealChange(key, { collection: 'transactions', id, baseVersion: 0, record });
+  return { collection: 'transactions', id, version: 1, record: change.record };
+};
+
+describe('openVault', () => {
+  it('re-derives the key from the passphrase', async () => {
+    const reopened = await openVault(PASSPHRASE, params);
+    expect(reopened).not.toBeNull();
+    const remote = await sealedTransaction('a', { id: 'a', amount: 5 });
+    expect((await openRecord(reopened!, remote)).record).toEqual({ id: 'a', amount: 5 });
+  });
+
+  it('returns null for a wrong passphrase', async () => {
+    expect(await openVault('not the passphrase', params)).toBeNull();
+  });
+});
+
+describe('sealChange and openRecord', () => {
+  it('keeps only the id of a list record in the clear', async () => {
+    const remote = await sealedTransaction('a', { id: 'a', description: 'Rent', amount: 1200 });
+    expect(Object.keys(remote.record as object).sort()).toEqual(['enc', 'id']);
+    expect(JSON.stringify(remote.record)).not.toContain('Rent');
+    expect((await openRecord(key, remote)).record).toEqual({ id: 'a', description: 'Rent', amount: 1200 });
+  });
+
+  it('round-trips settings without an id', async () => {
+    const change = await sealChange(key, { collection: 'settings', id: 'categoryBudgets', baseVersion: 2, record: { Food: 300 } });
+    expect(Object.keys(change.record as object)).toEqual(['enc']);
+    const remote: RemoteRecord = { collection: 'settings', id: 'categoryBudgets', version: 3, record: change.record };
+    expect((await openRecord(key, remote)).record).toEqual({ Food: 300 });
+  });
+
+  it('passes deletes through untouched', async () => {
+    const change = { collection: 'transactions', id: 'a', baseVersion: 1, deleted: true };
+    expect(await sealChange(key, change)).toBe(change);
+    const tombstone: RemoteRecord = { collection: 'transactions', id: 'a', version: 2, deleted: true };
+    expect(await openRecord(key, tombstone)).toBe(tombstone);
+  });
+});
+
+describe('openRecord tamper rejection', () => {
+  it('rejects ciphertext that was modified', async () => {
+    const remote = await sealedTransaction('a', { id: 'a', amount: 5 });
+    const { enc } = remote.record as { enc: string };
+    const bytes = Uint8Array.from(atob(enc), c => c.charCodeAt(0));
+    bytes[bytes.length - 1] ^= 1;
+    const tampered = { ...remote, record: { id: 'a', enc: btoa(String.fromCharCode(...bytes)) } };
+    await expect(openRecord(key, tampered)).rejects.toBeInstanceOf(VaultIntegrityError);
+  });
+
+  it('rejects ciphertext moved to another record', async () => {
+    const remote = await sealedTransaction('a', { id: 'a', amount: 5 });
+    const moved = { ...remote, id: 'b', record: { ...(remote.record as object), id: 'b' } };
+    await expect(openRecord(key, moved)).rejects.toBeInstanceOf(VaultIntegrityError);
+  });
+
+  it('rejects ciphertext moved to another collection', async () => {
+    const remote = await sealedTransaction('a', { id: 'a', amount: 5 });
+    await expect(openRecord(key, { ...remote, collection: 'debts' })).rejects.toBeInstanceOf(VaultIntegrityError);
+  });
+
+  it('rejects a record whose decrypted id differs from the one it arrived under', async () => {
+    const remote = await sealedTransaction('a', { id: 'other', amount: 5 });
+    await expect(openRecord(key, remote)).rejects.toThrow('holds a different record');
+  });
+
+  it('rejects plaintext records', async () => {
+    const remote: RemoteRecord = { collection: 'transactions', id: 'a', version: 1, record: { id: 'a', amount: 5 } };
+    await expect(openRecord(key, remote)).rejects.toThrow('Unencrypted record');
+  });
+
+  it('rejects records sealed with another key', async () => {
+    const other = await createVault('a different passphrase');
+    const change = await sealChange(other.key, { collection: 'transactions', id: 'a', baseVersion: 0, record: { id: 'a' } });
+    const remote: RemoteRecord = { collection: 'transactions', id: 'a', version: 1, record: change.record };
+    await expect(openRecord(key, remote)).rejects.toBeInstanceOf(VaultIntegrityError);
+  });
+});
@@ -0,0 +1,142 @@
+import type { RecordChange, RemoteRecord } from './sync';
+
+/**
+ * Optional end-to-end encryption of synced records. The key is derived from a
+ * passphrase in the browser and never sent anywhere; the server only sees
+ * `{ id, enc }` records plus the salt and a check value needed to re-derive
+ * and verify the key on another device.
+ */
+
+export interface VaultParams {
+  salt: string; // base64
+  iterations: number;
+  check: string; // CHECK_TEXT encrypted with the key, to tell a wrong passphrase apart
+}
+
+const VAULT_ITERATIONS = 310_000;
+const CHECK_TEXT = 'budget-vault';
+const CHECK_CONTEXT = 'vault:check';
+const IV_BYTES = 12;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// Not extractable: scripts on the page can use the key but never read it out.
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * AES-GCM over the JSON of `value`; the random IV is prepended to the
+ * ciphertext. `context` (e.g. "transactions:<id>") is authenticated too, so a
+ * ciphertext only decrypts under the record it was written for.
+ */
+const encryptValue = async (key: CryptoKey, value: unknown, context: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = new TextEncoder().encode(JSON.stringify(value));
+  const additionalData = new TextEncoder().encode(context);
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData }, key, data));
+  const out = new Uint8Array(iv.length + cipher.length);
+  out.set(iv);
+  out.set(cipher, iv.length);
+  return toBase64(out);
+};
+
+const decryptValue = async (key: CryptoKey, payload: string, context: string): Promise<unknown> => {
+  const bytes = fromBase64(payload);
+  const additionalData = new TextEncoder().encode(context);
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES), additionalData }, key, bytes.slice(IV_BYTES));
+  return JSON.parse(new TextDecoder().decode(plain));
+};
+
+/** A new random salt and the key for `passphrase`. */
+export const createVault = async (passphrase: string): Promise<{ params: VaultParams; key: CryptoKey }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, VAULT_ITERATIONS);
+  return { params: { salt: toBase64(salt), iterations: VAULT_ITERATIONS, check: await encryptValue(key, CHECK_TEXT, CHECK_CONTEXT) }, key };
+};
+
+/** The vault key for `passphrase`, or null when the passphrase is wrong. */
+export const openVault = async (passphrase: string, params: VaultParams): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, fromBase64(params.salt), params.iterations);
+  try {
+    return (await decryptValue(key, params.check, CHECK_CONTEXT)) === CHECK_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+export class VaultIntegrityError extends Error {}
+
+const recordContext = (r: { collection: string; id: string }) => `${r.collection}:${r.id}`;
+
+const isSealed = (record: unknown): record is { enc: string } =>
+  !!record && typeof record === 'object' && typeof (record as { enc?: unknown }).enc === 'string';
+
+/** Replaces a change's record with ciphertext, keeping only the id in the clear. */
+export const sealChange = async (key: CryptoKey, change: RecordChange): Promise<RecordChange> => {
+  if (change.deleted) return change;
+  const enc = await encryptValue(key, change.record, recordContext(change));
+  return { ...change, record: change.collection === 'settings' ? { enc } : { id: change.id, enc } };
+};
+
+/**
+ * Decrypts a record pulled from an encrypted vault. Plaintext, ciphertext
+ * written for another record, and records whose id doesn't match the one they
+ * arrived under are all rejected.
+ */
+export const openRecord = async (key: CryptoKey, remote: RemoteRecord): Promise<RemoteRecord> => {
+  if (remote.deleted || remote.record === undefined) return remote;
+  if (!isSealed(remote.record)) throw new VaultIntegrityError(`Unencrypted record ${recordContext(remote)} in an encrypted vault`);
+  let record: unknown;
+  try {
+    record = await decryptValue(key, remote.record.enc, recordContext(remote));
+  } catch {
+    throw new VaultIntegrityError(`Record ${recordContext(remote)} failed to decrypt`);
+  }
+  if (remote.collection !== 'settings' && (record as { id?: unknown } | null)?.id !== remote.id) {
+    throw new VaultIntegrityError(`Record ${recordContext(remote)} holds a different record`);
+  }
+  return { ...remote, record };
+};
+
+// Remembered keys live in IndexedDB, which can hold a CryptoKey without exposing its bytes.
+// They are stored per account, so another profile in the same browser never picks one up.
+const KEY_DB = 'budget-vault';
+const KEY_STORE = 'keys';
+
+const keyStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const open = indexedDB.open(KEY_DB, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(KEY_STORE);
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const db = open.result;
+      const req = run(db.transaction(KEY_STORE, mode).objectStore(KEY_STORE));
+      req.onsuccess = () => { db.close(); resolve(req.result); };
+      req.onerror = () => { db.close(); reject(req.error); };
+    };
+  });
+
+export const rememberVaultKey = async (account: string, key: CryptoKey): Promise<void> => {
+  await keyStore('readwrite', s => s.put(key, account));
+};
+
+export const loadRememberedVaultKey = async (account: string): Promise<CryptoKey | null> =>
+  (await keyStore<CryptoKey | undefined>('readonly', s => s.get(account))) ?? null;
+
+export const forgetVaultKey = async (account: string): Promise<void> => {
+  await keyStore('readwrite', s => s.delete(account));
+};